@@ -1,11 +1,23 @@
 import { sdk } from "@farcaster/frame-sdk";
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { ResultCard } from './components/ResultCard';
-import { getRewardEstimate } from './services/geminiService';
+import { ErrorScreen } from './components/ErrorScreen';
+import { AccountPanel } from './components/AccountPanel';
+import { useI18n } from './components/LocaleProvider';
+import { isMessageKey } from './services/i18n';
+import { EstimateError, fetchRewardEstimate } from './services/estimateClient';
+import { saveSnapshot } from './services/scoreHistory';
+import { readDeepLink, resultPath } from './services/shareLinks';
+import { resolveWalletInput } from './services/addressResolver';
+import { Viewer, ViewerWallet, getViewer, getViewerWallets } from './services/farcasterContext';
+import { DEFAULT_SCORING_MODEL, SCORING_MODELS, getScoringModel } from './services/scoringModels';
+import { CHAIN_OPTIONS, DEFAULT_CHAIN, SUPERCHAIN, chainName, normalizeChainId } from './services/chains';
 import { AppState, EstimationResult } from './types';
 
 const App: React.FC = () => {
+  const { t, locale } = useI18n();
+
   // Tell Base App that your mini app is ready
   useEffect(() => {
     try {
@@ -18,36 +30,126 @@ const App: React.FC = () => {
   }, []);
 
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [walletInput, setWalletInput] = useState<string>('');
+  const [walletInputs, setWalletInputs] = useState<string[]>(['']);
   const [result, setResult] = useState<EstimationResult | null>(null);
+  const [error, setError] = useState<EstimateError | null>(null);
+  // The request behind the current screen, so Retry repeats it exactly
+  const [lastRequest, setLastRequest] = useState<{ addresses: string[]; model: string; chain: string } | null>(null);
+  const [modelId, setModelId] = useState<string>(DEFAULT_SCORING_MODEL.id);
+  const [chainId, setChainId] = useState<string>(DEFAULT_CHAIN.id);
+  const [inputErrors, setInputErrors] = useState<(string | null)[]>([]);
+  const [resolving, setResolving] = useState<boolean>(false);
+  const [viewer, setViewer] = useState<Viewer | null>(null);
+  const [viewerWallets, setViewerWallets] = useState<ViewerWallet[]>([]);
+
+  // Inside a Farcaster/Base client, offer the viewer's own wallets; otherwise keep manual entry only
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const user = await getViewer();
+      if (!user || cancelled) return;
+      setViewer(user);
+      const wallets = await getViewerWallets(user.fid);
+      if (!cancelled) setViewerWallets(wallets);
+    })();
+    return () => { cancelled = true; };
+  }, []);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setWalletInput(e.target.value);
+  const filledCount = useMemo(() => walletInputs.filter((w) => w.trim()).length, [walletInputs]);
+
+  const handleInputChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = [...walletInputs];
+    next[index] = e.target.value;
+    setWalletInputs(next);
+    // Clear the stale error for the field being edited
+    setInputErrors(inputErrors.map((err, i) => (i === index ? null : err)));
   };
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!walletInput.trim()) return;
+  const handleAddWallet = () => setWalletInputs([...walletInputs, '']);
 
+  const handleRemoveWallet = (index: number) => () => {
+    setWalletInputs(walletInputs.filter((_, i) => i !== index));
+    setInputErrors(inputErrors.filter((_, i) => i !== index));
+  };
+
+  // Validate and resolve every filled field before spending any RPC calls on estimates.
+  // Returns unique addresses in input order, or null after showing inline errors.
+  const resolveInputs = async (inputs: string[]): Promise<string[] | null> => {
+    setResolving(true);
+    const resolved = await Promise.all(
+      inputs.map((w) => (w.trim() ? resolveWalletInput(w) : Promise.resolve(null)))
+    );
+    setResolving(false);
+
+    const errors = resolved.map((r) => (r && !r.ok ? t(`resolve.${r.reason}`, { input: r.input }) : null));
+    setInputErrors(errors);
+    if (errors.some(Boolean)) return null;
+
+    return Array.from(new Set(
+      resolved.flatMap((r) => (r && r.ok ? [r.address] : []))
+    ));
+  };
+
+  const runEstimate = useCallback(async (addresses: string[], model: string = modelId, chain: string = chainId) => {
     setAppState(AppState.LOADING);
+    setError(null);
+    setLastRequest({ addresses, model, chain });
 
     try {
-      const data = await getRewardEstimate(walletInput);
+      const data = await fetchRewardEstimate(addresses, model, chain, locale);
+      await saveSnapshot(data);
       setResult(data);
       setAppState(AppState.RESULT);
+      // Make the current result linkable / reloadable
+      window.history.replaceState(null, '', resultPath(data.addresses, data.scoringModel.id, data.chain));
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error("Error fetching estimate:", error);
+      setError(error instanceof EstimateError ? error : new EstimateError(String(error), 'server'));
       setAppState(AppState.ERROR);
     }
-  }, [walletInput]);
+  }, [modelId, chainId, locale]);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filledCount === 0) return;
+
+    const addresses = await resolveInputs(walletInputs);
+    if (!addresses) return;
+
+    await runEstimate(addresses);
+  }, [walletInputs, filledCount, runEstimate]);
+
+  // ?address=...&model=...&chain=... deep links jump straight to the result
+  useEffect(() => {
+    const link = readDeepLink(window.location.search);
+    if (link.addresses.length === 0) return;
+    const linkedModel = getScoringModel(link.modelId ?? '').id;
+    const linkedChain = normalizeChainId(link.chainId ?? '');
+    setModelId(linkedModel);
+    setChainId(linkedChain);
+    setWalletInputs(link.addresses);
+    (async () => {
+      const addresses = await resolveInputs(link.addresses);
+      if (addresses) await runEstimate(addresses, linkedModel, linkedChain);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   const handleReset = () => {
-    setWalletInput('');
+    setWalletInputs(['']);
+    setInputErrors([]);
     setResult(null);
+    setError(null);
+    setLastRequest(null);
     setAppState(AppState.IDLE);
+    window.history.replaceState(null, '', window.location.pathname);
   };
 
+  // A newly fitted preset may not be translated yet; its own description stands in
+  const selectedModel = getScoringModel(modelId);
+  const modelDescriptionKey = `model.${selectedModel.id}.description`;
+
   return (
     <Layout>
       {appState === AppState.IDLE && (
@@ -58,29 +160,122 @@ const App: React.FC = () => {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
             </div>
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">Estimate your Base Rewards</h1>
-            <p className="text-gray-500">Paste your wallet to see your activity score.</p>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">{t('app.title')}</h1>
+            <p className="text-gray-500">{t('app.subtitle')}</p>
           </div>
 
+          <AccountPanel viewer={viewer} onCheck={(address) => runEstimate([address])} />
+
+          {viewerWallets.length > 0 && (
+            <div className="mb-6">
+              <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                {viewer?.username ? t('app.viewerWallets', { username: viewer.username }) : t('app.yourWallets')}
+              </p>
+              <div className="space-y-2">
+                {viewerWallets.map((w) => (
+                  <button
+                    key={w.address}
+                    type="button"
+                    onClick={() => runEstimate([w.address])}
+                    className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-colors text-left"
+                  >
+                    <span className="font-mono text-sm text-gray-700">{`${w.address.slice(0, 6)}…${w.address.slice(-4)}`}</span>
+                    <span className="text-xs text-gray-400 uppercase tracking-wider">{t(`app.walletKind.${w.kind}`)}</span>
+                  </button>
+                ))}
+                {viewerWallets.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => runEstimate(viewerWallets.map((w) => w.address))}
+                    className="w-full py-2 text-sm text-blue-600 font-medium hover:text-blue-700"
+                  >
+                    {t('app.estimateAll', { count: viewerWallets.length })}
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-400 text-center mt-4">{t('app.orEnterAny')}</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              {walletInputs.map((value, index) => (
+                <div key={index}>
+                  <div className="flex items-center gap-2">
+                    <label htmlFor={`wallet-${index}`} className="sr-only">{t('app.walletLabel', { index: index + 1 })}</label>
+                    <input
+                      type="text"
+                      id={`wallet-${index}`}
+                      className={`w-full px-4 py-3 rounded-lg border ${inputErrors[index] ? 'border-red-400' : 'border-gray-300'} focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow text-gray-700 placeholder-gray-400`}
+                      placeholder={t('app.placeholder')}
+                      value={value}
+                      onChange={handleInputChange(index)}
+                      required={index === 0}
+                      aria-invalid={!!inputErrors[index]}
+                      aria-describedby={inputErrors[index] ? `wallet-${index}-error` : undefined}
+                    />
+                    {walletInputs.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={handleRemoveWallet(index)}
+                        className="flex-shrink-0 w-8 h-8 text-gray-400 hover:text-red-500 rounded-full"
+                        aria-label={t('app.removeWallet', { index: index + 1 })}
+                      >
+                        &times;
+                      </button>
+                    )}
+                  </div>
+                  {inputErrors[index] && (
+                    <p id={`wallet-${index}-error`} className="text-xs text-red-600 mt-1 px-1">{inputErrors[index]}</p>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={handleAddWallet}
+                className="text-sm text-blue-600 font-medium hover:text-blue-700"
+              >
+                {t('app.addWallet')}
+              </button>
+            </div>
             <div>
-              <label htmlFor="wallet" className="sr-only">Wallet Address</label>
-              <input
-                type="text"
-                id="wallet"
-                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow text-gray-700 placeholder-gray-400"
-                placeholder="0x..."
-                value={walletInput}
-                onChange={handleInputChange}
-                required
-              />
+              <label htmlFor="chain" className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">{t('app.chain')}</label>
+              <select
+                id="chain"
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-700 bg-white"
+                value={chainId}
+                onChange={(e) => setChainId(e.target.value)}
+              >
+                {CHAIN_OPTIONS.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              {chainId === SUPERCHAIN.id && (
+                <p className="text-xs text-gray-400 mt-1">{t('app.superchainHint')}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="model" className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">{t('app.model')}</label>
+              <select
+                id="model"
+                className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-gray-700 bg-white"
+                value={modelId}
+                onChange={(e) => setModelId(e.target.value)}
+              >
+                {SCORING_MODELS.map((m) => (
+                  <option key={m.id} value={m.id}>{t('app.modelOption', { name: m.name, version: m.version })}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">{isMessageKey(modelDescriptionKey) ? t(modelDescriptionKey) : selectedModel.description}</p>
             </div>
             <button
               type="submit"
-              disabled={!walletInput.trim()}
+              disabled={filledCount === 0 || resolving}
               className="w-full py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 shadow-lg shadow-blue-500/30"
             >
-              Check My Estimate
+              {resolving
+                ? t('app.resolving')
+                : filledCount > 1 ? t('app.checkBundle', { count: filledCount }) : t('app.checkOne')}
             </button>
           </form>
         </div>
@@ -89,7 +284,7 @@ const App: React.FC = () => {
       {appState === AppState.LOADING && (
         <div className="p-12 flex flex-col items-center justify-center min-h-[400px]">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-6"></div>
-          <p className="text-gray-600 font-medium animate-pulse">Checking your Base activity...</p>
+          <p className="text-gray-600 font-medium animate-pulse">{t('app.loading', { chain: chainName(chainId) })}</p>
         </div>
       )}
 
@@ -98,21 +293,11 @@ const App: React.FC = () => {
       )}
 
       {appState === AppState.ERROR && (
-        <div className="p-8 text-center">
-          <div className="inline-flex items-center justify-center w-12 h-12 bg-red-100 rounded-full mb-4">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-            </svg>
-          </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Something went wrong</h3>
-          <p className="text-gray-500 mb-6">We couldn't estimate your rewards right now.</p>
-          <button
-            onClick={handleReset}
-            className="text-blue-600 font-medium hover:text-blue-700"
-          >
-            Try Again
-          </button>
-        </div>
+        <ErrorScreen
+          error={error}
+          onRetry={() => lastRequest && runEstimate(lastRequest.addresses, lastRequest.model, lastRequest.chain)}
+          onReset={handleReset}
+        />
       )}
     </Layout>
   );
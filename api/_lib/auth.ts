@@ -0,0 +1,137 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { Contract, getAddress, hashMessage, isAddress, verifyMessage } from "ethers";
+import { parseSiweMessage } from "../../services/siwe";
+import { CHAINS, DEFAULT_CHAIN } from "../../services/chains";
+import { getRpcProvider } from "../../services/rpcProvider";
+
+const NONCE_TTL_MS = 10 * 60_000;
+const SESSION_TTL_MS = 7 * 24 * 60 * 60_000;
+const CLOCK_SKEW_MS = 60_000;
+// ERC-1271 magic value for a valid contract signature
+const ERC1271_VALID = "0x1626ba7e";
+
+export interface Session {
+  address: string; // checksummed; proven by a SIWE signature
+  expiresAt: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status = 401) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// AUTH_SECRET signs nonces and session tokens; sign-in is off without it
+const secret = () => {
+  const value = process.env.AUTH_SECRET;
+  if (!value) throw new AuthError("Sign-in is not configured.", 503);
+  return value;
+};
+
+const mac = (data: string) => createHmac("sha256", secret()).update(data).digest();
+
+const sameBytes = (a: Buffer, b: Buffer) => a.length === b.length && timingSafeEqual(a, b);
+
+/* ---------- Nonces ---------- */
+
+// Nonces this instance has accepted, until they expire anyway
+const usedNonces = new Map<string, number>();
+
+/**
+ * Stateless nonce: 16 random hex chars, expiry (8 hex, unix seconds), then a
+ * truncated HMAC of both. Hex only, as EIP-4361 requires alphanumeric nonces.
+ */
+export const createNonce = (now = Date.now()): string => {
+  const body = randomBytes(8).toString("hex") + Math.floor((now + NONCE_TTL_MS) / 1000).toString(16).padStart(8, "0");
+  return body + mac(body).subarray(0, 16).toString("hex");
+};
+
+const consumeNonce = (nonce: string, now: number) => {
+  const body = nonce.slice(0, 24);
+  if (!/^[0-9a-f]{56}$/.test(nonce) || !sameBytes(Buffer.from(nonce.slice(24), "hex"), mac(body).subarray(0, 16))) {
+    throw new AuthError("Unknown sign-in nonce.");
+  }
+  const expiresAt = parseInt(nonce.slice(16, 24), 16) * 1000;
+  if (expiresAt < now) throw new AuthError("Sign-in request expired, try again.");
+
+  for (const [used, until] of usedNonces) if (until < now) usedNonces.delete(used);
+  if (usedNonces.has(nonce)) throw new AuthError("Sign-in nonce already used.");
+  usedNonces.set(nonce, expiresAt);
+};
+
+/* ---------- Signatures ---------- */
+
+// EOAs recover directly; smart wallets (e.g. the Base app's) answer through ERC-1271 on the signing chain
+const isValidSignature = async (address: string, message: string, signature: string, chainId: number) => {
+  try {
+    if (verifyMessage(message, signature) === address) return true;
+  } catch {
+    // not a 65-byte ECDSA signature; may still be a contract signature
+  }
+  const chain = CHAINS.find((c) => c.chainId === chainId) ?? DEFAULT_CHAIN;
+  const wallet = new Contract(address, [
+    "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+  ], getRpcProvider(chain));
+  try {
+    return (await wallet.isValidSignature(hashMessage(message), signature)) === ERC1271_VALID;
+  } catch {
+    return false; // no contract there, or it reverted
+  }
+};
+
+/**
+ * Check a signed SIWE message for this host and return the session it earns.
+ * Throws AuthError for anything that should not sign the user in.
+ */
+export const verifySignIn = async (
+  message: string,
+  signature: string,
+  host: string,
+  now = Date.now()
+): Promise<Session> => {
+  const parsed = parseSiweMessage(message);
+  if (!parsed || !isAddress(parsed.address)) throw new AuthError("Malformed sign-in message.", 400);
+  if (parsed.domain !== host) throw new AuthError("Sign-in message is for another site.");
+  const issuedAt = Date.parse(parsed.issuedAt);
+  if (!(issuedAt <= now + CLOCK_SKEW_MS)) throw new AuthError("Sign-in message is not valid yet.");
+  if (parsed.expirationTime && !(Date.parse(parsed.expirationTime) > now)) {
+    throw new AuthError("Sign-in request expired, try again.");
+  }
+  consumeNonce(parsed.nonce, now);
+
+  const address = getAddress(parsed.address);
+  if (!(await isValidSignature(address, message, signature, parsed.chainId))) {
+    throw new AuthError("Signature does not match the wallet.");
+  }
+  return { address, expiresAt: now + SESSION_TTL_MS };
+};
+
+/* ---------- Session tokens ---------- */
+
+// base64url(JSON session).base64url(HMAC); nothing is stored server-side
+export const createSessionToken = (session: Session): string => {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${mac(payload).toString("base64url")}`;
+};
+
+/**
+ * The signed-in wallet behind `Authorization: Bearer <token>`, or null when
+ * the header is missing, forged or expired.
+ */
+export const readSession = (request: Request, now = Date.now()): Session | null => {
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!token || !process.env.AUTH_SECRET) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature || !sameBytes(Buffer.from(signature, "base64url"), mac(payload))) return null;
+  try {
+    const session: Session = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return session.expiresAt > now ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+// Owner-only data is per wallet: the request must be for exactly the signed-in address
+export const ownsAddresses = (session: Session | null, addresses: string[]): session is Session =>
+  !!session && addresses.length === 1 && addresses[0].toLowerCase() === session.address.toLowerCase();
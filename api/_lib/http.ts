@@ -0,0 +1,8 @@
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+export const errorResponse = (status: number, error: string, headers: Record<string, string> = {}) =>
+  jsonResponse(status, { error }, headers);
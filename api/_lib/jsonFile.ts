@@ -0,0 +1,109 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+// One JSON document with serialized read-modify-write updates
+export interface JsonDocument<T> {
+  read(): Promise<T>;
+  update(mutate: (data: T) => void): Promise<void>;
+}
+
+// Serialize read-modify-write cycles within this process
+const serialized = <T>(read: () => Promise<T>, write: (data: T) => Promise<void>): JsonDocument<T> => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    read,
+    update(mutate) {
+      const run = queue.then(async () => {
+        const data = await read();
+        mutate(data);
+        await write(data);
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+};
+
+/**
+ * A JSON document on disk. Writes go through a temp file + rename so a crash
+ * never leaves half a file.
+ */
+export const createJsonFile = <T extends object>(path: string, empty: () => T): JsonDocument<T> =>
+  serialized(
+    async () => {
+      try {
+        return JSON.parse(await readFile(path, "utf8"));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return empty();
+        throw e;
+      }
+    },
+    async (data) => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(data, null, 2));
+      await rename(`${path}.tmp`, path);
+    }
+  );
+
+// Lives as long as the process; reads hand out copies, like the other backends
+export const createMemoryJson = <T extends object>(empty: () => T): JsonDocument<T> => {
+  let text = JSON.stringify(empty());
+  return serialized(
+    async () => JSON.parse(text),
+    async (data) => { text = JSON.stringify(data); }
+  );
+};
+
+/**
+ * A JSON document under one key of a Redis-compatible REST API (Upstash, Vercel KV).
+ * Updates are serialized per instance only; concurrent instances are last-writer-wins.
+ */
+export const createKvJson = <T extends object>(
+  { url, token, key }: { url: string; token: string; key: string },
+  empty: () => T
+): JsonDocument<T> => {
+  const command = async (args: string[]) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(args),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || body?.error) throw new Error(`KV ${args[0]} failed: ${body?.error ?? `HTTP ${res.status}`}`);
+    return body.result as string | null;
+  };
+  return serialized(
+    async () => {
+      const text = await command(["GET", key]);
+      return text === null ? empty() : JSON.parse(text);
+    },
+    async (data) => { await command(["SET", key, JSON.stringify(data)]); }
+  );
+};
+
+let warnedReadOnly = false;
+
+/**
+ * Where server-side state lives, picked by STORE:
+ * - `kv`: KV_REST_API_URL / KV_REST_API_TOKEN, one key per document (`base-rewards:<name>`)
+ * - `memory`: in process only, lost on restart
+ * - `file` (default): `path` on local disk
+ * On Vercel, whose filesystem is read-only, an unset STORE falls back to memory with a warning.
+ */
+export const openJsonDocument = <T extends object>(name: string, path: string, empty: () => T): JsonDocument<T> => {
+  const backend = process.env.STORE || (process.env.VERCEL ? "memory" : "file");
+  if (backend === "kv") {
+    const url = process.env.KV_REST_API_URL;
+    const token = process.env.KV_REST_API_TOKEN;
+    if (!url || !token) throw new Error("STORE=kv needs KV_REST_API_URL and KV_REST_API_TOKEN");
+    return createKvJson({ url, token, key: `base-rewards:${name}` }, empty);
+  }
+  if (backend === "memory") {
+    if (!process.env.STORE && !warnedReadOnly) {
+      warnedReadOnly = true;
+      console.warn("No STORE configured on a read-only filesystem; owner data is kept in memory only");
+    }
+    return createMemoryJson(empty);
+  }
+  return createJsonFile(path, empty);
+};
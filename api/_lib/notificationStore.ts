@@ -0,0 +1,45 @@
+import { NotificationDetails } from "./webhookEvents";
+import { JsonDocument, openJsonDocument } from "./jsonFile";
+
+// Where notification tokens live, keyed by fid
+export interface NotificationStore {
+  get(fid: number): Promise<NotificationDetails | null>;
+  set(fid: number, details: NotificationDetails): Promise<void>;
+  delete(fid: number): Promise<void>;
+  list(): Promise<{ fid: number; details: NotificationDetails }[]>;
+}
+
+export const createMemoryStore = (): NotificationStore => {
+  const tokens = new Map<number, NotificationDetails>();
+  return {
+    async get(fid) { return tokens.get(fid) ?? null; },
+    async set(fid, details) { tokens.set(fid, details); },
+    async delete(fid) { tokens.delete(fid); },
+    async list() { return [...tokens].map(([fid, details]) => ({ fid, details })); },
+  };
+};
+
+// Tokens in one JSON document (file, KV or memory; see openJsonDocument)
+export const createDocumentStore = (file: JsonDocument<Record<string, NotificationDetails>>): NotificationStore => ({
+  async get(fid) { return (await file.read())[fid] ?? null; },
+  set(fid, details) { return file.update((data) => { data[fid] = details; }); },
+  delete(fid) { return file.update((data) => { delete data[fid]; }); },
+  async list() {
+    return Object.entries(await file.read()).map(([fid, details]) => ({ fid: Number(fid), details }));
+  },
+});
+
+let defaultStore: NotificationStore | null = null;
+
+/**
+ * NOTIFICATION_STORE=memory keeps tokens in process (serverless previews);
+ * otherwise they follow STORE, with NOTIFICATION_STORE_PATH (default .data/notifications.json) for files.
+ */
+export const getNotificationStore = (): NotificationStore => {
+  if (!defaultStore) {
+    defaultStore = process.env.NOTIFICATION_STORE === "memory"
+      ? createMemoryStore()
+      : createDocumentStore(openJsonDocument("notifications", process.env.NOTIFICATION_STORE_PATH || ".data/notifications.json", () => ({})));
+  }
+  return defaultStore;
+};
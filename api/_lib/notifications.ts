@@ -0,0 +1,53 @@
+import { NotificationStore, getNotificationStore } from "./notificationStore";
+
+export interface NotificationMessage {
+  notificationId: string; // clients dedupe on (fid, notificationId)
+  title: string;          // max 32 chars
+  body: string;           // max 128 chars
+  targetUrl: string;      // must be on the mini app's domain
+}
+
+export type SendResult =
+  | { state: "success" }
+  | { state: "no_token" }
+  | { state: "invalid_token" }
+  | { state: "rate_limited" }
+  | { state: "error"; error: string };
+
+/**
+ * Deliver one notification to a user through the client that issued their token.
+ * Tokens the client reports as invalid are dropped from the store.
+ */
+export const sendNotification = async (
+  fid: number,
+  message: NotificationMessage,
+  store: NotificationStore = getNotificationStore()
+): Promise<SendResult> => {
+  const details = await store.get(fid);
+  if (!details) return { state: "no_token" };
+
+  try {
+    const res = await fetch(details.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        notificationId: message.notificationId,
+        title: message.title.slice(0, 32),
+        body: message.body.slice(0, 128),
+        targetUrl: message.targetUrl,
+        tokens: [details.token],
+      }),
+    });
+    if (!res.ok) return { state: "error", error: `HTTP ${res.status}` };
+
+    const { result } = await res.json();
+    if (result?.invalidTokens?.includes(details.token)) {
+      await store.delete(fid);
+      return { state: "invalid_token" };
+    }
+    if (result?.rateLimitedTokens?.includes(details.token)) return { state: "rate_limited" };
+    return { state: "success" };
+  } catch (e) {
+    return { state: "error", error: e instanceof Error ? e.message : String(e) };
+  }
+};
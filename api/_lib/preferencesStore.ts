@@ -0,0 +1,27 @@
+import { OwnerPreferences } from "../../types";
+import { DEFAULT_LOCALE } from "../../services/i18n";
+import { JsonDocument, openJsonDocument } from "./jsonFile";
+
+export const DEFAULT_PREFERENCES: OwnerPreferences = { fid: null, scoreAlerts: false, locale: DEFAULT_LOCALE };
+
+let file: JsonDocument<Record<string, OwnerPreferences>> | null = null;
+
+// STORE backend; for files, PREFERENCES_STORE_PATH, default .data/preferences.json
+const getFile = () => {
+  if (!file) {
+    file = openJsonDocument<Record<string, OwnerPreferences>>(
+      "preferences",
+      process.env.PREFERENCES_STORE_PATH || ".data/preferences.json",
+      () => ({})
+    );
+  }
+  return file;
+};
+
+export const getPreferences = async (address: string): Promise<OwnerPreferences> =>
+  ({ ...DEFAULT_PREFERENCES, ...(await getFile().read())[address.toLowerCase()] });
+
+export const setPreferences = (address: string, preferences: OwnerPreferences) =>
+  getFile().update((data) => {
+    data[address.toLowerCase()] = preferences;
+  });
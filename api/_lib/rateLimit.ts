@@ -0,0 +1,24 @@
+// Fixed-window rate limiter keyed by client IP (per serverless instance)
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    /** Returns seconds until the client may retry, or 0 if the request is allowed. */
+    check(key: string): number {
+      const now = Date.now();
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return 0;
+      }
+      if (current.count >= limit) return Math.ceil((current.resetAt - now) / 1000);
+      current.count++;
+      return 0;
+    },
+  };
+};
+
+export const clientIp = (request: Request): string =>
+  request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  request.headers.get("x-real-ip") ||
+  "unknown";
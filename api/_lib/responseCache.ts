@@ -0,0 +1,31 @@
+// In-memory TTL cache. Lives per serverless instance, so it only absorbs bursts;
+// the CDN Cache-Control headers on the response do the rest.
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export const createResponseCache = <T>({ ttlMs, maxEntries = 500 }: { ttlMs: number; maxEntries?: number }) => {
+  const entries = new Map<string, Entry<T>>();
+
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt < Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    set(key: string, value: T) {
+      // Map keeps insertion order, so the first key is the oldest
+      if (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import { ScoreSnapshot } from "../../types";
+import { createI18n } from "../../services/i18n";
+import { resultUrl } from "../../services/shareLinks";
+import { listSnapshots, recordSnapshot } from "./snapshotStore";
+import { getPreferences } from "./preferencesStore";
+import { sendNotification } from "./notifications";
+
+// Smaller moves are day-to-day noise (recency ticking down), not news
+const ALERT_THRESHOLD = 0.05;
+
+/**
+ * Save a signed-in owner's check to their history and, if they opted in,
+ * tell them when it moved the score against the previous check with the same model and chain.
+ */
+export const recordOwnerCheck = async (address: string, snapshot: ScoreSnapshot): Promise<void> => {
+  const chain = snapshot.chain ?? "base";
+  const previous = (await listSnapshots(snapshot.key))
+    .filter((s) => s.scoringModel.id === snapshot.scoringModel.id && (s.chain ?? "base") === chain)
+    .pop();
+  await recordSnapshot(snapshot);
+
+  if (!previous || Math.abs(snapshot.activityScore - previous.activityScore) < ALERT_THRESHOLD) return;
+  const preferences = await getPreferences(address);
+  if (!preferences.scoreAlerts || preferences.fid === null) return;
+
+  const { t, number } = createI18n(preferences.locale);
+  const from = Math.round(previous.activityScore * 100);
+  const to = Math.round(snapshot.activityScore * 100);
+  const result = await sendNotification(preferences.fid, {
+    notificationId: `score-${address.toLowerCase()}-${snapshot.generatedAt}`,
+    title: t("alert.title"),
+    body: t("alert.body", { from, to, delta: number(to - from, { signDisplay: "exceptZero" }) }),
+    targetUrl: resultUrl([address], snapshot.scoringModel.id, chain),
+  });
+  if (result.state === "error") console.error("Score alert failed", result.error);
+};
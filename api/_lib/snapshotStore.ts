@@ -0,0 +1,29 @@
+import { ScoreSnapshot } from "../../types";
+import { JsonDocument, openJsonDocument } from "./jsonFile";
+
+// Oldest snapshots beyond this are dropped per wallet set
+const MAX_PER_KEY = 200;
+
+let file: JsonDocument<Record<string, ScoreSnapshot[]>> | null = null;
+
+// STORE backend; for files, SNAPSHOT_STORE_PATH, default .data/snapshots.json
+const getFile = () => {
+  if (!file) {
+    file = openJsonDocument<Record<string, ScoreSnapshot[]>>(
+      "snapshots",
+      process.env.SNAPSHOT_STORE_PATH || ".data/snapshots.json",
+      () => ({})
+    );
+  }
+  return file;
+};
+
+export const recordSnapshot = (snapshot: ScoreSnapshot) =>
+  getFile().update((data) => {
+    const list = (data[snapshot.key] ?? []).filter((s) => s.generatedAt !== snapshot.generatedAt);
+    list.push(snapshot);
+    data[snapshot.key] = list.slice(-MAX_PER_KEY);
+  });
+
+export const listSnapshots = async (key: string): Promise<ScoreSnapshot[]> =>
+  (await getFile().read())[key] ?? [];
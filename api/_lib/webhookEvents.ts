@@ -0,0 +1,149 @@
+import { createPublicKey, verify } from "node:crypto";
+import { Contract, JsonRpcProvider } from "ethers";
+
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+export type MiniAppEvent =
+  | { event: "miniapp_added"; notificationDetails?: NotificationDetails }
+  | { event: "miniapp_removed" }
+  | { event: "notifications_enabled"; notificationDetails: NotificationDetails }
+  | { event: "notifications_disabled" };
+
+export interface VerifiedEvent {
+  fid: number;
+  appKey: string; // 0x-prefixed Ed25519 public key
+  event: MiniAppEvent;
+}
+
+// Checks that `appKey` is a currently registered signer for `fid`
+export type AppKeyVerifier = (fid: number, appKey: string) => Promise<boolean>;
+
+// Farcaster KeyRegistry on OP Mainnet
+const KEY_REGISTRY = "0x00000000Fc1237824fb747aBDE0FF18990E59b7e";
+const OPTIMISM_RPC_URL = "https://mainnet.optimism.io";
+const KEY_STATE_ADDED = 1n;
+
+// Farcaster clients' notification endpoints; NOTIFICATION_HOSTS (comma-separated) overrides.
+// Tokens are only ever POSTed back to these, so a forged url can't collect them.
+const DEFAULT_NOTIFICATION_HOSTS = ["api.farcaster.xyz", "api.warpcast.com", "api.neynar.com"];
+
+const notificationHosts = () =>
+  process.env.NOTIFICATION_HOSTS?.split(",").map((h) => h.trim().toLowerCase()).filter(Boolean)
+    ?? DEFAULT_NOTIFICATION_HOSTS;
+
+// DER prefix turning a raw 32-byte Ed25519 key into SPKI
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+// Older clients still send the frame_* names
+const EVENT_ALIASES: Record<string, MiniAppEvent["event"]> = {
+  frame_added: "miniapp_added",
+  frame_removed: "miniapp_removed",
+};
+
+export const verifyAppKeyOnChain: AppKeyVerifier = async (fid, appKey) => {
+  const registry = new Contract(KEY_REGISTRY, [
+    "function keyDataOf(uint256 fid, bytes key) view returns (uint8 state, uint32 keyType)",
+  ], new JsonRpcProvider(OPTIMISM_RPC_URL));
+  const [state] = await registry.keyDataOf(fid, appKey);
+  return BigInt(state) === KEY_STATE_ADDED;
+};
+
+export class WebhookError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+const decodePart = (part: unknown): Record<string, unknown> => {
+  if (typeof part !== "string" || !part) throw new WebhookError("Missing signed envelope field");
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  } catch {
+    throw new WebhookError("Envelope field is not base64url JSON");
+  }
+  if (typeof decoded !== "object" || decoded === null) throw new WebhookError("Envelope field is not a JSON object");
+  return decoded as Record<string, unknown>;
+};
+
+// Undefined when absent; anything present must be a string token and an https url on an allowed host
+const readNotificationDetails = (value: unknown): NotificationDetails | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const { url, token } = value as Partial<Record<keyof NotificationDetails, unknown>>;
+  if (typeof url !== "string" || typeof token !== "string" || !token) {
+    throw new WebhookError("notificationDetails needs a string url and token");
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookError("notificationDetails.url is not a URL");
+  }
+  if (parsed.protocol !== "https:" || !notificationHosts().includes(parsed.hostname.toLowerCase())) {
+    throw new WebhookError("notificationDetails.url is not an allowed notification endpoint");
+  }
+  return { url, token };
+};
+
+/**
+ * Verify a JSON Farcaster Signature envelope ({ header, payload, signature })
+ * and return the mini app event inside it.
+ * The signature must be by the header's app key, and that key must belong to the fid.
+ */
+export const parseWebhookEvent = async (
+  body: unknown,
+  verifyAppKey: AppKeyVerifier = verifyAppKeyOnChain
+): Promise<VerifiedEvent> => {
+  if (typeof body !== "object" || body === null) throw new WebhookError("Body must be a signed envelope");
+  const envelope = body as { header?: unknown; payload?: unknown; signature?: unknown };
+  const header = decodePart(envelope.header);
+  const payload = decodePart(envelope.payload);
+  if (typeof envelope.signature !== "string") throw new WebhookError("Missing signature");
+
+  const { fid, key } = header;
+  if (header.type !== "app_key" || typeof fid !== "number" || typeof key !== "string") {
+    throw new WebhookError("Unsupported signature header");
+  }
+
+  const rawKey = Buffer.from(key.replace(/^0x/, ""), "hex");
+  if (rawKey.length !== 32) throw new WebhookError("Malformed app key");
+
+  const publicKey = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+    format: "der",
+    type: "spki",
+  });
+  const signedData = Buffer.from(`${envelope.header}.${envelope.payload}`, "utf8");
+  const valid = verify(null, signedData, publicKey, Buffer.from(envelope.signature, "base64url"));
+  if (!valid) throw new WebhookError("Invalid signature", 401);
+
+  let keyActive: boolean;
+  try {
+    keyActive = await verifyAppKey(fid, key);
+  } catch (e) {
+    console.error("App key verification failed", e);
+    throw new WebhookError("Could not verify app key", 503);
+  }
+  if (!keyActive) throw new WebhookError("App key is not registered to this fid", 401);
+
+  if (typeof payload.event !== "string") throw new WebhookError("Missing event name");
+  const name = EVENT_ALIASES[payload.event] ?? payload.event;
+  switch (name) {
+    case "miniapp_added":
+      return { fid, appKey: key, event: { event: name, notificationDetails: readNotificationDetails(payload.notificationDetails) } };
+    case "notifications_enabled": {
+      const notificationDetails = readNotificationDetails(payload.notificationDetails);
+      if (!notificationDetails) throw new WebhookError("notifications_enabled without notificationDetails");
+      return { fid, appKey: key, event: { event: name, notificationDetails } };
+    }
+    case "miniapp_removed":
+    case "notifications_disabled":
+      return { fid, appKey: key, event: { event: name } };
+    default:
+      throw new WebhookError(`Unknown event: ${payload.event}`);
+  }
+};
@@ -0,0 +1,49 @@
+import { AuthError, createNonce, createSessionToken, verifySignIn } from "./_lib/auth";
+import { clientIp, createRateLimiter } from "./_lib/rateLimit";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+const limiter = createRateLimiter({ limit: 20, windowMs: 60_000 });
+
+/**
+ * GET /api/auth
+ * A fresh nonce for the Sign-In with Ethereum message.
+ */
+export async function GET(): Promise<Response> {
+  try {
+    return jsonResponse(200, { nonce: createNonce() }, { "Cache-Control": "no-store" });
+  } catch (e) {
+    if (e instanceof AuthError) return errorResponse(e.status, e.message);
+    throw e;
+  }
+}
+
+/**
+ * POST /api/auth  { message, signature }
+ * Verifies a signed SIWE message and returns a session token for
+ * `Authorization: Bearer` on owner-only endpoints.
+ */
+export async function POST(request: Request): Promise<Response> {
+  const retryAfter = limiter.check(clientIp(request));
+  if (retryAfter > 0) {
+    return errorResponse(429, "Too many requests, slow down.", { "Retry-After": String(retryAfter) });
+  }
+
+  let input: Record<string, unknown>;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, "Body must be JSON.");
+  }
+  const { message, signature } = input;
+  if (typeof message !== "string" || typeof signature !== "string") {
+    return errorResponse(400, "Expected { message, signature: string }.");
+  }
+
+  try {
+    const session = await verifySignIn(message, signature, new URL(request.url).host);
+    return jsonResponse(200, { ...session, token: createSessionToken(session) }, { "Cache-Control": "no-store" });
+  } catch (e) {
+    if (e instanceof AuthError) return errorResponse(e.status, e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,93 @@
+import { getAddress, isAddress } from "ethers";
+import { EstimationResult } from "../types";
+import { getRewardEstimate } from "../services/geminiService";
+import { chainsFor, normalizeChainId } from "../services/chains";
+import { getRpcProvider } from "../services/rpcProvider";
+import { DataSourceError } from "../services/dataErrors";
+import { getScoringModel } from "../services/scoringModels";
+import { resolveLocale } from "../services/i18n";
+import { toSnapshot } from "../services/scoreHistory";
+import { ownsAddresses, readSession } from "./_lib/auth";
+import { recordOwnerCheck } from "./_lib/scoreAlerts";
+import { createResponseCache } from "./_lib/responseCache";
+import { clientIp, createRateLimiter } from "./_lib/rateLimit";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+const MAX_ADDRESSES = 5;
+// Results are reused within a ~5 minute window of blocks (2s each on every OP Stack chain)
+const CACHE_BLOCK_WINDOW = 150;
+const CACHE_SECONDS = 300;
+
+const cache = createResponseCache<EstimationResult>({ ttlMs: CACHE_SECONDS * 1000 });
+const limiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+
+/**
+ * GET /api/estimate?address=0x...&address=0x...&model=base-default&chain=base&lang=es
+ * Runs the full estimation pipeline server-side so API keys never reach the browser.
+ * Names must be resolved client-side first; only hex addresses are accepted here.
+ * With a session token for the (single) wallet, the result is also saved to its history.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const retryAfter = limiter.check(clientIp(request));
+  if (retryAfter > 0) {
+    return errorResponse(429, "Too many requests, slow down.", { "Retry-After": String(retryAfter) });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const raw = params.getAll("address").flatMap((a) => a.split(",")).map((a) => a.trim()).filter(Boolean);
+  if (raw.length === 0) return errorResponse(400, "Missing ?address= parameter.");
+  if (raw.length > MAX_ADDRESSES) return errorResponse(400, `At most ${MAX_ADDRESSES} addresses per request.`);
+
+  const invalid = raw.find((a) => !isAddress(a));
+  if (invalid) return errorResponse(400, `Invalid address: ${invalid}`);
+
+  const addresses = Array.from(new Set(raw.map((a) => getAddress(a))));
+  const model = getScoringModel(params.get("model") ?? "");
+  const chain = normalizeChainId(params.get("chain") ?? "");
+  // Narrative language: ?lang=, else the browser's Accept-Language order
+  const locale = resolveLocale([
+    params.get("lang"),
+    ...(request.headers.get("accept-language") ?? "").split(",").map((l) => l.split(";")[0]),
+  ]);
+
+  let block = 0;
+  try {
+    // The Superchain view keys on its first chain; blocks advance in lockstep
+    block = await getRpcProvider(chainsFor(chain)[0]).getBlockNumber();
+  } catch (e) {
+    // Without a block number we still serve, keyed on the time window instead
+    console.error("Block number lookup failed", e);
+    block = Math.floor(Date.now() / 2000);
+  }
+  const cacheKey = `${addresses.join(",")}:${chain}:${model.id}@${model.version}:${locale}:${Math.floor(block / CACHE_BLOCK_WINDOW)}`;
+  const session = readSession(request);
+  const owner = ownsAddresses(session, addresses) ? session.address : null;
+  // An owner's check must reach this function to be saved, so keep it out of shared caches
+  const cacheHeaders = owner
+    ? { "Cache-Control": "private, no-store" }
+    : { "Cache-Control": `public, s-maxage=${CACHE_SECONDS}, stale-while-revalidate=60` };
+  const save = (result: EstimationResult) => {
+    // Best effort: a read-only filesystem must not fail the estimate
+    if (owner) recordOwnerCheck(owner, toSnapshot(result)).catch((e) => console.error("Snapshot write failed", e));
+  };
+
+  const cached = cache.get(cacheKey);
+  if (cached) {
+    save(cached);
+    return jsonResponse(200, cached, { ...cacheHeaders, "X-Cache": "HIT" });
+  }
+
+  try {
+    const result = await getRewardEstimate(addresses, model, { chain, locale });
+    cache.set(cacheKey, result);
+    save(result);
+    return jsonResponse(200, result, { ...cacheHeaders, "X-Cache": "MISS" });
+  } catch (e) {
+    console.error("Estimate failed", e);
+    // Upstream outages are 503s with a kind the client can explain; anything else is our bug
+    if (e instanceof DataSourceError) {
+      return jsonResponse(503, { error: e.message, kind: e.kind, source: e.source }, { "Retry-After": "30" });
+    }
+    return errorResponse(500, "Could not estimate rewards right now.");
+  }
+}
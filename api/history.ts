@@ -0,0 +1,23 @@
+import { isAddress } from "ethers";
+import { historyKey } from "../services/scoreHistory";
+import { listSnapshots } from "./_lib/snapshotStore";
+import { ownsAddresses, readSession } from "./_lib/auth";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+/**
+ * GET /api/history?address=0x...  (Authorization: Bearer <session token>)
+ * Server-saved score snapshots for the signed-in wallet, oldest first.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const addresses = new URL(request.url).searchParams.getAll("address").map((a) => a.trim()).filter(Boolean);
+  if (addresses.length === 0) return errorResponse(400, "Missing ?address= parameter.");
+  if (!addresses.every((a) => isAddress(a))) return errorResponse(400, "Invalid address.");
+  if (!ownsAddresses(readSession(request), addresses)) return errorResponse(401, "Sign in with this wallet to see its saved history.");
+
+  try {
+    return jsonResponse(200, { snapshots: await listSnapshots(historyKey(addresses)) });
+  } catch (e) {
+    console.error("History read failed", e);
+    return errorResponse(503, "Could not read history.");
+  }
+}
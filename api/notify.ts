@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "node:crypto";
+import { sendNotification } from "./_lib/notifications";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+const authorized = (request: Request) => {
+  const secret = process.env.NOTIFY_SECRET;
+  if (!secret) return false;
+  const given = Buffer.from(request.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+/**
+ * POST /api/notify  (Authorization: Bearer $NOTIFY_SECRET)
+ * { fid, notificationId, title, body, targetUrl? }
+ * Operator-only endpoint for sending a notification to one user.
+ */
+export async function POST(request: Request): Promise<Response> {
+  if (!authorized(request)) return errorResponse(401, "Unauthorized.");
+
+  let input: Record<string, unknown>;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, "Body must be JSON.");
+  }
+
+  const { fid, notificationId, title, body } = input;
+  if (typeof fid !== "number" || typeof notificationId !== "string" || typeof title !== "string" || typeof body !== "string") {
+    return errorResponse(400, "Expected { fid: number, notificationId, title, body: string }.");
+  }
+
+  const targetUrl = typeof input.targetUrl === "string"
+    ? input.targetUrl
+    : new URL("/", request.url).toString();
+
+  const result = await sendNotification(fid, { notificationId, title, body, targetUrl });
+  return jsonResponse(result.state === "error" ? 502 : 200, result);
+}
@@ -0,0 +1,126 @@
+import { ImageResponse } from "@vercel/og";
+import { getAddress, isAddress } from "ethers";
+import { ScoreSnapshot } from "../types";
+import { getRewardEstimate } from "../services/geminiService";
+import { getScoringModel } from "../services/scoringModels";
+import { DEFAULT_CHAIN, chainName, normalizeChainId } from "../services/chains";
+import { historyKey, toSnapshot } from "../services/scoreHistory";
+import { readDeepLink } from "../services/shareLinks";
+import { I18n, createI18n, normalizeLocale } from "../services/i18n";
+import { listSnapshots } from "./_lib/snapshotStore";
+import { createResponseCache } from "./_lib/responseCache";
+import { clientIp, createRateLimiter } from "./_lib/rateLimit";
+import { errorResponse } from "./_lib/http";
+
+const WIDTH = 1200;
+const HEIGHT = 800; // 3:2, as mini app embeds require
+const MAX_ADDRESSES = 5;
+
+// Snapshot hits are cheap; only renders that run the pipeline count against the limit
+const limiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+// Fresh estimates stay here, not in the snapshot store: only an owner's checks go into their history
+const rendered = createResponseCache<ScoreSnapshot>({ ttlMs: 300_000 });
+
+// Same thresholds as ScoreGauge
+const gaugeColor = (s: number) => (s < 0.3 ? "#EF4444" : s < 0.7 ? "#F59E0B" : "#2563EB");
+
+// Half-circle arc from the left end, sweeping `score` of the way to the right
+const arcPath = (score: number, r: number, cx: number, cy: number) => {
+  const angle = Math.PI * (1 - Math.min(Math.max(score, 0), 1));
+  const x = cx + r * Math.cos(angle);
+  const y = cy - r * Math.sin(angle);
+  return `M ${cx - r} ${cy} A ${r} ${r} 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)}`;
+};
+
+const title = ({ t }: I18n, addresses: string[], chain: string) => t("og.title", {
+  chain: chainName(chain),
+  wallet: addresses.length > 1 ? t("og.bundle", { count: addresses.length }) : `${addresses[0].slice(0, 6)}…${addresses[0].slice(-4)}`,
+});
+
+// Embeds need an image either way; a failed or refused estimate gets an empty gauge that
+// points into the app, cached briefly so the real card replaces it soon
+const renderPlaceholder = (i18n: I18n, addresses: string[], chain: string) => new ImageResponse(
+  (
+    <div style={{ width: "100%", height: "100%", display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", background: "#FFFFFF", fontFamily: "sans-serif" }}>
+      <div style={{ display: "flex", fontSize: 36, color: "#6B7280", marginBottom: 24 }}>{title(i18n, addresses, chain)}</div>
+      <svg width="520" height="280" viewBox="0 0 520 280">
+        <path d={arcPath(1, 220, 260, 250)} stroke="#F3F4F6" strokeWidth="44" fill="none" />
+      </svg>
+      <div style={{ display: "flex", fontSize: 44, fontWeight: 700, color: "#111827", marginTop: 40 }}>{i18n.t("og.placeholder")}</div>
+    </div>
+  ),
+  {
+    width: WIDTH,
+    height: HEIGHT,
+    headers: { "Cache-Control": "public, s-maxage=60" },
+  }
+);
+
+/**
+ * GET /api/og?address=0x...&model=...&chain=...&lang=...
+ * Renders the latest known result for the wallet(s) as a PNG embed image.
+ * Uses the newest server snapshot when there is one, so shares don't re-run the pipeline.
+ * Never writes history: anyone can request any address here.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { addresses: raw, modelId, chainId, lang } = readDeepLink(new URL(request.url).search);
+  if (raw.length === 0 || !raw.every((a) => isAddress(a))) {
+    return errorResponse(400, "Expected one or more ?address= hex addresses.");
+  }
+  if (raw.length > MAX_ADDRESSES) return errorResponse(400, `At most ${MAX_ADDRESSES} addresses per request.`);
+  const addresses = Array.from(new Set(raw.map((a) => getAddress(a))));
+  const model = getScoringModel(modelId ?? "");
+  const chain = normalizeChainId(chainId ?? "");
+  const i18n = createI18n(normalizeLocale(lang) ?? undefined);
+
+  let snapshot: ScoreSnapshot | undefined;
+  try {
+    snapshot = (await listSnapshots(historyKey(addresses)))
+      .filter((s) => s.scoringModel.id === model.id && (s.chain ?? DEFAULT_CHAIN.id) === chain)
+      .pop();
+  } catch (e) {
+    console.error("Snapshot read failed", e);
+  }
+  const cacheKey = `${addresses.join(",")}:${chain}:${model.id}@${model.version}`;
+  snapshot ??= rendered.get(cacheKey);
+  if (!snapshot) {
+    if (limiter.check(clientIp(request)) > 0) return renderPlaceholder(i18n, addresses, chain);
+    try {
+      snapshot = toSnapshot(await getRewardEstimate(addresses, model, { narrative: false, chain }));
+    } catch (e) {
+      console.error("Estimate failed", e);
+      return renderPlaceholder(i18n, addresses, chain);
+    }
+    rendered.set(cacheKey, snapshot);
+  }
+
+  const score = snapshot.activityScore;
+
+  return new ImageResponse(
+    (
+      <div style={{ width: "100%", height: "100%", display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", background: "#FFFFFF", fontFamily: "sans-serif" }}>
+        <div style={{ display: "flex", fontSize: 36, color: "#6B7280", marginBottom: 24 }}>{title(i18n, addresses, chain)}</div>
+        <div style={{ display: "flex", position: "relative", width: 520, height: 280, justifyContent: "center" }}>
+          <svg width="520" height="280" viewBox="0 0 520 280">
+            <path d={arcPath(1, 220, 260, 250)} stroke="#F3F4F6" strokeWidth="44" fill="none" />
+            {score > 0 && <path d={arcPath(score, 220, 260, 250)} stroke={gaugeColor(score)} strokeWidth="44" fill="none" />}
+          </svg>
+          <div style={{ position: "absolute", bottom: 10, display: "flex", flexDirection: "column", alignItems: "center" }}>
+            <div style={{ display: "flex", fontSize: 110, fontWeight: 700, color: "#111827", lineHeight: 1 }}>{Math.round(score * 100)}</div>
+            <div style={{ display: "flex", fontSize: 26, color: "#9CA3AF", letterSpacing: 4 }}>{i18n.t("og.score")}</div>
+          </div>
+        </div>
+        <div style={{ display: "flex", alignItems: "baseline", marginTop: 40 }}>
+          <div style={{ display: "flex", fontSize: 84, fontWeight: 800, color: "#2563EB" }}>{i18n.number(snapshot.estimatedRewards)}</div>
+          <div style={{ display: "flex", fontSize: 40, color: "#60A5FA", marginLeft: 16 }}>BASE</div>
+        </div>
+        <div style={{ display: "flex", fontSize: 24, color: "#9CA3AF", marginTop: 16 }}>{i18n.t("og.footer", { model: model.name })}</div>
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600" },
+    }
+  );
+}
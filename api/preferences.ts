@@ -0,0 +1,77 @@
+import { OwnerPreferences } from "../types";
+import { lookupFidWallets } from "../services/farcasterContext";
+import { normalizeLocale } from "../services/i18n";
+import { readSession } from "./_lib/auth";
+import { getPreferences, setPreferences } from "./_lib/preferencesStore";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+/**
+ * GET /api/preferences  (Authorization: Bearer <session token>)
+ * The signed-in wallet's alert settings.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const session = readSession(request);
+  if (!session) return errorResponse(401, "Sign in first.");
+  try {
+    return jsonResponse(200, await getPreferences(session.address), { "Cache-Control": "no-store" });
+  } catch (e) {
+    console.error("Preferences read failed", e);
+    return errorResponse(503, "Preferences are unavailable right now.");
+  }
+}
+
+/**
+ * PUT /api/preferences  { fid?, scoreAlerts?, locale? }
+ * Omitted fields keep their value. A new fid must list the wallet among its
+ * Farcaster verifications, so alerts only reach the wallet's owner.
+ */
+export async function PUT(request: Request): Promise<Response> {
+  const session = readSession(request);
+  if (!session) return errorResponse(401, "Sign in first.");
+
+  let input: Record<string, unknown>;
+  try {
+    input = await request.json();
+  } catch {
+    return errorResponse(400, "Body must be JSON.");
+  }
+  const { fid, scoreAlerts, locale } = input;
+  if ((fid !== undefined && fid !== null && !Number.isInteger(fid))
+    || (scoreAlerts !== undefined && typeof scoreAlerts !== "boolean")
+    || (locale !== undefined && !normalizeLocale(String(locale)))) {
+    return errorResponse(400, "Expected { fid?: number | null, scoreAlerts?: boolean, locale?: string }.");
+  }
+
+  let current: OwnerPreferences;
+  try {
+    current = await getPreferences(session.address);
+  } catch (e) {
+    console.error("Preferences read failed", e);
+    return errorResponse(503, "Preferences are unavailable right now.");
+  }
+  const next: OwnerPreferences = {
+    fid: fid === undefined ? current.fid : (fid as number | null),
+    scoreAlerts: scoreAlerts ?? current.scoreAlerts,
+    locale: locale === undefined ? current.locale : normalizeLocale(String(locale))!,
+  };
+  if (next.scoreAlerts && next.fid === null) return errorResponse(400, "Alerts need a Farcaster account.");
+
+  if (next.fid !== null && next.fid !== current.fid) {
+    const lookup = await lookupFidWallets(next.fid);
+    if (!lookup.ok) {
+      console.error("Farcaster wallet lookup failed", lookup.error);
+      return errorResponse(503, "Could not check that Farcaster account right now.");
+    }
+    if (!lookup.wallets.some((w) => w.address === session.address)) {
+      return errorResponse(403, "This wallet is not verified on that Farcaster account.");
+    }
+  }
+
+  try {
+    await setPreferences(session.address, next);
+  } catch (e) {
+    console.error("Preferences write failed", e);
+    return errorResponse(503, "Could not save preferences.");
+  }
+  return jsonResponse(200, next);
+}
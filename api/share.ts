@@ -0,0 +1,69 @@
+import { isAddress } from "ethers";
+import { minikitConfig } from "../minikit.config";
+import { getScoringModel } from "../services/scoringModels";
+import { normalizeChainId } from "../services/chains";
+import { ogImageUrl, readDeepLink, resultUrl } from "../services/shareLinks";
+import { createI18n, normalizeLocale } from "../services/i18n";
+import { errorResponse } from "./_lib/http";
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * GET /api/share?address=0x...&model=...&chain=...&lang=...
+ * Static HTML with per-result mini app embed tags. Clients render the embed from
+ * the meta tags; browsers are redirected straight to the result screen.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { addresses, modelId, chainId, lang } = readDeepLink(new URL(request.url).search);
+  if (addresses.length === 0 || !addresses.every((a) => isAddress(a))) {
+    return errorResponse(400, "Expected one or more ?address= hex addresses.");
+  }
+  const model = getScoringModel(modelId ?? "");
+  const chain = normalizeChainId(chainId ?? "");
+
+  const target = resultUrl(addresses, model.id, chain);
+  const locale = normalizeLocale(lang) ?? undefined;
+  const image = ogImageUrl(addresses, model.id, chain, locale);
+  const { t, tag } = createI18n(locale);
+  const { miniapp } = minikitConfig;
+
+  const embed = JSON.stringify({
+    version: "1",
+    imageUrl: image,
+    button: {
+      title: t("share.button"),
+      action: {
+        type: "launch_miniapp",
+        name: miniapp.name,
+        url: target,
+        splashImageUrl: miniapp.splashImageUrl,
+        splashBackgroundColor: miniapp.splashBackgroundColor,
+      },
+    },
+  });
+  // Older clients only read fc:frame with the launch_frame action
+  const legacyEmbed = embed.replace('"launch_miniapp"', '"launch_frame"');
+
+  const html = `<!DOCTYPE html>
+<html lang="${tag}">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeAttr(miniapp.name)}</title>
+    <meta property="og:title" content="${escapeAttr(miniapp.name)}" />
+    <meta property="og:description" content="${escapeAttr(miniapp.subtitle)}" />
+    <meta property="og:image" content="${escapeAttr(image)}" />
+    <meta name="fc:miniapp" content="${escapeAttr(embed)}" />
+    <meta name="fc:frame" content="${escapeAttr(legacyEmbed)}" />
+    <meta http-equiv="refresh" content="0; url=${escapeAttr(target)}" />
+  </head>
+  <body>
+    <a href="${escapeAttr(target)}">${escapeAttr(t("share.open"))}</a>
+  </body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "public, s-maxage=3600" },
+  });
+}
@@ -0,0 +1,49 @@
+import { WebhookError, parseWebhookEvent } from "./_lib/webhookEvents";
+import { getNotificationStore } from "./_lib/notificationStore";
+import { errorResponse, jsonResponse } from "./_lib/http";
+
+/**
+ * POST /api/webhook
+ * Receives signed mini app lifecycle events from Farcaster clients and keeps
+ * each user's notification token in sync with what they have enabled.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, "Body must be JSON.");
+  }
+
+  let verified;
+  try {
+    verified = await parseWebhookEvent(body);
+  } catch (e) {
+    if (e instanceof WebhookError) return errorResponse(e.status, e.message);
+    throw e;
+  }
+
+  const { fid, event } = verified;
+  try {
+    const store = getNotificationStore();
+    switch (event.event) {
+      case "miniapp_added":
+        // Added with notifications already on; otherwise wait for notifications_enabled
+        if (event.notificationDetails) await store.set(fid, event.notificationDetails);
+        break;
+      case "notifications_enabled":
+        await store.set(fid, event.notificationDetails);
+        break;
+      case "miniapp_removed":
+      case "notifications_disabled":
+        await store.delete(fid);
+        break;
+    }
+  } catch (e) {
+    // Clients retry failed deliveries, so a store outage only delays the update
+    console.error("Notification store write failed", e);
+    return errorResponse(503, "Could not store the event right now.");
+  }
+
+  return jsonResponse(200, { ok: true });
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Eip1193Provider } from 'ethers';
+import { OwnerPreferences } from '../types';
+import { Viewer } from '../services/farcasterContext';
+import {
+  WalletSession, connectWallet, fetchPreferences, getSession, getWalletProvider, signIn, signOut, updatePreferences,
+} from '../services/walletAuth';
+import { useI18n } from './LocaleProvider';
+
+interface AccountPanelProps {
+  viewer: Viewer | null; // alerts go to this Farcaster account
+  onCheck: (address: string) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// "My wallet": connect, optionally prove ownership with SIWE, and manage owner-only settings
+export const AccountPanel: React.FC<AccountPanelProps> = ({ viewer, onCheck }) => {
+  const { t, locale } = useI18n();
+  const [provider, setProvider] = useState<Eip1193Provider | null>(null);
+  const [connected, setConnected] = useState<string | null>(null);
+  const [session, setSession] = useState<WalletSession | null>(getSession);
+  const [preferences, setPreferences] = useState<OwnerPreferences | null>(null);
+  const [busy, setBusy] = useState<'connecting' | 'signingIn' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    fetchPreferences(session)
+      .then((p) => { if (!cancelled) setPreferences(p); })
+      .catch((e) => {
+        console.error("Could not load preferences", e);
+        if (!cancelled && !getSession()) setSession(null); // the server refused the token
+      });
+    return () => { cancelled = true; };
+  }, [session]);
+
+  const fail = (e: unknown) => setError(t('account.failed', { error: e instanceof Error ? e.message : String(e) }));
+
+  const handleConnect = async () => {
+    setError(null);
+    setBusy('connecting');
+    try {
+      const found = await getWalletProvider();
+      if (!found) {
+        setError(t('account.noWallet'));
+        return;
+      }
+      setProvider(found);
+      setConnected(await connectWallet(found));
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSignIn = async () => {
+    if (!provider || !connected) return;
+    setError(null);
+    setBusy('signingIn');
+    try {
+      setSession(await signIn(provider, connected));
+    } catch (e) {
+      fail(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSignOut = () => {
+    signOut();
+    setSession(null);
+    setPreferences(null);
+  };
+
+  const handleAlerts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!session || !viewer) return;
+    setError(null);
+    try {
+      setPreferences(await updatePreferences(session, { scoreAlerts: e.target.checked, fid: viewer.fid, locale }));
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  // A stored session outlives the wallet connection; it is the address that counts
+  const address = session?.address ?? connected;
+
+  return (
+    <div className="mb-6">
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('account.title')}</p>
+
+      {!address && (
+        <button
+          type="button"
+          onClick={handleConnect}
+          disabled={busy !== null}
+          className="w-full py-3 px-4 rounded-lg border border-blue-600 text-blue-600 font-medium hover:bg-blue-50 disabled:opacity-50 transition-colors"
+        >
+          {busy === 'connecting' ? t('account.connecting') : t('account.connect')}
+        </button>
+      )}
+
+      {address && (
+        <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-mono text-sm text-gray-700" title={address}>{shortAddress(address)}</span>
+            <button
+              type="button"
+              onClick={() => onCheck(address)}
+              className="text-sm text-blue-600 font-medium hover:text-blue-700"
+            >
+              {t('account.check')}
+            </button>
+          </div>
+
+          {!session && (
+            <div>
+              <button
+                type="button"
+                onClick={handleSignIn}
+                disabled={busy !== null}
+                className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {busy === 'signingIn' ? t('account.signingIn') : t('account.signIn')}
+              </button>
+              <p className="text-xs text-gray-400 mt-2">{t('account.signInHint')}</p>
+            </div>
+          )}
+
+          {session && (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-green-700">{t('account.signedIn')}</span>
+                <button type="button" onClick={handleSignOut} className="text-gray-500 hover:text-gray-700">
+                  {t('account.signOut')}
+                </button>
+              </div>
+              {viewer ? (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preferences?.scoreAlerts ?? false}
+                    disabled={!preferences}
+                    onChange={handleAlerts}
+                  />
+                  {t('account.scoreAlerts')}
+                </label>
+              ) : (
+                <p className="text-xs text-gray-400">{t('account.alertsNeedClient')}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2 px-1">{error}</p>}
+    </div>
+  );
+};
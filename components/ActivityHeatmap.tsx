@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ActivityCalendar, Streak } from '../types';
+import { useI18n } from './LocaleProvider';
+
+const DAY_MS = 86_400_000;
+const UTC_DAY: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' };
+
+const dayMs = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const isoDay = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+// Darker = more meaningful txs that day
+const LEVELS = [
+  { min: 8, className: 'bg-blue-800' },
+  { min: 4, className: 'bg-blue-600' },
+  { min: 2, className: 'bg-blue-400' },
+  { min: 1, className: 'bg-blue-200' },
+];
+const levelClass = (count: number) => LEVELS.find((l) => count >= l.min)?.className ?? 'bg-gray-100';
+const GAP_CLASS = 'bg-amber-200';
+
+const StreakBox = ({ label, streak, unit }: { label: string; streak: Streak; unit: 'calendar.weeks' | 'calendar.months' }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-gray-50 rounded-lg p-3">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">{label}</div>
+      <div className="text-lg font-bold text-gray-900">{t(unit, { count: streak.current })}</div>
+      <div className="text-xs text-gray-400">{t('calendar.longest', { value: t(unit, { count: streak.longest }) })}</div>
+    </div>
+  );
+};
+
+interface ActivityHeatmapProps {
+  activity: ActivityCalendar;
+  graceDays: number; // the model's recency grace window
+}
+
+/**
+ * GitHub-style calendar of meaningful txs per UTC day, one column per Monday-start
+ * week, with idle spells that cost recency shaded amber.
+ */
+export const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ activity, graceDays }) => {
+  const { t, date } = useI18n();
+  const scroller = useRef<HTMLDivElement>(null);
+
+  const { weeks, gapDays } = useMemo(() => {
+    const first = dayMs(activity.firstDay);
+    const today = dayMs(activity.today);
+    // Back up to the Monday on or before the first active day
+    const start = first - ((new Date(first).getUTCDay() + 6) % 7) * DAY_MS;
+    const weeks: number[][] = [];
+    for (let monday = start; monday <= today; monday += 7 * DAY_MS) {
+      weeks.push(Array.from({ length: 7 }, (_, i) => monday + i * DAY_MS));
+    }
+    const gapDays = new Set<string>();
+    for (const gap of activity.gaps) {
+      for (let ms = dayMs(gap.from); ms <= dayMs(gap.to); ms += DAY_MS) gapDays.add(isoDay(ms));
+    }
+    return { weeks, gapDays };
+  }, [activity]);
+
+  // Long histories scroll; start at the most recent weeks
+  useEffect(() => {
+    if (scroller.current) scroller.current.scrollLeft = scroller.current.scrollWidth;
+  }, [weeks]);
+
+  const inRange = (ms: number) => ms >= dayMs(activity.firstDay) && ms <= dayMs(activity.today);
+  const monthLabel = (week: number[], i: number) => {
+    const month = new Date(week[0]).getUTCMonth();
+    return i === 0 || new Date(weeks[i - 1][0]).getUTCMonth() !== month
+      ? date(week[0], { month: 'short', timeZone: 'UTC' })
+      : '';
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">{t('calendar.title')}</h3>
+        <span className="text-xs text-gray-400">{t('calendar.since', { date: date(dayMs(activity.firstDay), UTC_DAY) })}</span>
+      </div>
+
+      <div ref={scroller} className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-0.5">
+          {weeks.map((week, i) => (
+            <div key={week[0]} className="flex flex-col gap-0.5">
+              <div className="h-3 w-2.5 text-[9px] leading-3 text-gray-400 whitespace-nowrap">{monthLabel(week, i)}</div>
+              {week.map((ms) => {
+                const day = isoDay(ms);
+                const count = activity.days[day] ?? 0;
+                if (!inRange(ms)) return <div key={ms} className="w-2.5 h-2.5" />;
+                const shade = count === 0 && gapDays.has(day) ? GAP_CLASS : levelClass(count);
+                const label = date(ms, UTC_DAY);
+                return (
+                  <div
+                    key={ms}
+                    className={`w-2.5 h-2.5 rounded-sm ${shade}`}
+                    title={count > 0 ? t('calendar.cell', { count, date: label }) : t('calendar.idle', { date: label })}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-[10px] text-gray-400 mt-1 mb-4">
+        <span className={`w-2.5 h-2.5 rounded-sm ${GAP_CLASS} mr-1`} />
+        <span className="mr-3">{t('calendar.gapLegend')}</span>
+        <span className="mr-1">{t('calendar.less')}</span>
+        {[0, 1, 2, 4, 8].map((count) => <span key={count} className={`w-2.5 h-2.5 rounded-sm ${levelClass(count)}`} />)}
+        <span className="ml-1">{t('calendar.more')}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <StreakBox label={t('calendar.weekly')} streak={activity.streaks.weekly} unit="calendar.weeks" />
+        <StreakBox label={t('calendar.monthly')} streak={activity.streaks.monthly} unit="calendar.months" />
+      </div>
+
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('calendar.gapsTitle')}</p>
+      {activity.gaps.length === 0 && <p className="text-xs text-gray-400">{t('calendar.noGaps', { count: graceDays })}</p>}
+      <div className="space-y-1">
+        {activity.gaps.map((gap) => (
+          <div key={gap.from} className="flex justify-between text-xs py-1 border-b border-gray-50 last:border-0">
+            <span className="text-gray-600">
+              {t('calendar.gap', { count: gap.days, from: date(dayMs(gap.from), UTC_DAY), to: date(dayMs(gap.to), UTC_DAY) })}
+              {gap.open && <span className="ml-2 text-amber-700 font-semibold">{t('calendar.gapOpen')}</span>}
+            </span>
+            <span className="text-gray-900 font-semibold whitespace-nowrap ml-2">
+              {t('calendar.gapRecency', { score: Math.round(gap.recencyScore * 100) })}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
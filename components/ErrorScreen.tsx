@@ -0,0 +1,51 @@
+import React from 'react';
+import { EstimateError } from '../services/estimateClient';
+import { useI18n } from './LocaleProvider';
+
+interface ErrorScreenProps {
+  error: EstimateError | null;
+  onRetry: () => void;
+  onReset: () => void;
+}
+
+// Rather than a zero score, say what failed and offer the same request again
+export const ErrorScreen: React.FC<ErrorScreenProps> = ({ error, onRetry, onReset }) => {
+  const { t } = useI18n();
+  const kind = error?.kind ?? 'server';
+  // Named after the source that failed, when the server said which one
+  const who = t(`error.source.${error?.source ?? 'unknown'}`);
+  const title = t(`error.${kind}.title`);
+  const detail = t(`error.${kind}.detail`, { who });
+  const retryable = error?.kind !== 'invalidInput';
+
+  return (
+    <div className="p-8 text-center">
+      <div className="inline-flex items-center justify-center w-12 h-12 bg-red-100 rounded-full mb-4">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">{title}</h3>
+      <p className="text-gray-500 mb-2">{detail}</p>
+      {error?.message && (
+        <p className="text-xs text-gray-400 mb-6 break-words">{error.message}</p>
+      )}
+      <div className="flex items-center justify-center gap-6">
+        {retryable && (
+          <button
+            onClick={onRetry}
+            className="bg-blue-600 text-white font-medium px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            {t('error.retry')}
+          </button>
+        )}
+        <button
+          onClick={onReset}
+          className="text-blue-600 font-medium hover:text-blue-700"
+        >
+          {t('error.startOver')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
 import React from 'react';
+import { Locale } from '../types';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from './LocaleProvider';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
+  const { t, locale, setLocale } = useI18n();
   return (
     // Base Mini App: Full white background on mobile, centered card on desktop
     <div className="min-h-screen w-full md:bg-gray-100 md:flex md:items-center md:justify-center">
@@ -14,10 +18,21 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         </div>
         <div className="pb-6 pt-2 text-center">
            <span className="text-[10px] text-gray-400 font-medium tracking-widest uppercase opacity-60">
-             Developed by cryptobulla
+             {t('layout.credit')}
            </span>
+           <div className="mt-2">
+             <label htmlFor="locale" className="sr-only">{t('layout.language')}</label>
+             <select
+               id="locale"
+               value={locale}
+               onChange={(e) => setLocale(e.target.value as Locale)}
+               className="text-xs text-gray-500 bg-transparent border-0 focus:ring-0 cursor-pointer"
+             >
+               {LOCALES.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+             </select>
+           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
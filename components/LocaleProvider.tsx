@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { I18n, createI18n, resolveLocale } from '../services/i18n';
+
+const STORAGE_KEY = 'locale';
+
+type LocaleContextValue = I18n & { setLocale: (locale: Locale) => void };
+
+const LocaleContext = createContext<LocaleContextValue>({ ...createI18n(), setLocale: () => {} });
+
+/**
+ * ?lang= first, then the user's earlier pick, then the browser. Farcaster clients
+ * don't pass a locale in the mini app context, but their webview reports the app's language.
+ */
+const detectLocale = (): Locale => {
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // storage can be blocked inside embedded webviews
+  }
+  return resolveLocale([
+    new URLSearchParams(window.location.search).get('lang'),
+    saved,
+    ...(navigator.languages ?? []),
+    navigator.language,
+  ]);
+};
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.tag;
+  }, [i18n]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // the choice just won't survive a reload
+    }
+  };
+
+  return <LocaleContext.Provider value={{ ...i18n, setLocale }}>{children}</LocaleContext.Provider>;
+};
+
+export const useI18n = () => useContext(LocaleContext);
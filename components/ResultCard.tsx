@@ -1,13 +1,24 @@
-import React, { useMemo } from 'react';
-import { EstimationResult } from '../types';
+import React from 'react';
+import { ChainResult, DataIssue, DataQuality, EstimationResult, Interval, Portfolio, ProtocolUsage, SybilRisk, VolumeMethod, WalletResult } from '../types';
 import { ScoreGauge } from './ScoreGauge';
+import { ScoreHistory } from './ScoreHistory';
+import { WhatIfSimulator } from './WhatIfSimulator';
+import { RewardRange } from './RewardRange';
+import { ActivityHeatmap } from './ActivityHeatmap';
+import { useI18n } from './LocaleProvider';
+import { composeCast } from '../services/farcasterContext';
+import { shareUrl } from '../services/shareLinks';
+import { SCORE_COMPONENTS, getScoringModel } from '../services/scoringModels';
+import { PROTOCOL_CATEGORIES, protocolsInCategory } from '../services/protocolRegistry';
+import { chainName } from '../services/chains';
+import { COMPONENT_STATS } from '../services/uncertainty';
 
 interface ResultCardProps {
   result: EstimationResult;
   onReset: () => void;
 }
 
-/* StatBox and BreakdownRow keep unchanged */
+// One stat tile; `sub` says how the number was obtained, `tooltip` explains it on hover
 const StatBox = ({ label, value, sub, tooltip }: { label: string; value: string | number; sub?: string; tooltip?: string }) => (
   <div className="bg-gray-50 rounded-lg p-3 border border-gray-100 flex flex-col items-center justify-center text-center group relative cursor-default">
     <div className="text-gray-500 text-xs uppercase font-semibold tracking-wider mb-1">{label}</div>
@@ -22,214 +33,366 @@ const StatBox = ({ label, value, sub, tooltip }: { label: string; value: string
   </div>
 );
 
-const BreakdownRow = ({ label, score, weight }: { label: string; score: number; weight: string }) => (
-  <div className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
-    <div className="flex flex-col">
-      <span className="text-sm font-medium text-gray-700">{label}</span>
-      <span className="text-xs text-gray-400">Weight: {weight}</span>
-    </div>
-    <div className="flex items-center">
-      <div className="w-24 h-2 bg-gray-100 rounded-full mr-3 overflow-hidden">
-        <div 
-          className="h-full bg-blue-500 rounded-full" 
-          style={{ width: `${score * 100}%` }}
-        ></div>
-      </div>
-      <span className="text-sm font-bold text-gray-900">{(score * 100).toFixed(0)}</span>
-    </div>
-  </div>
-);
-
-/* ---------- NEW: helpers to compute active days & volume from raw txs ---------- */
-
-function utcDateString(tsSeconds: number) {
-  const d = new Date(tsSeconds * 1000);
-  return `${d.getUTCFullYear()}-${String(d.getUTCMonth()+1).padStart(2,'0')}-${String(d.getUTCDate()).padStart(2,'0')}`;
-}
-
-/**
- * Determine whether a tx is "meaningful".
- * - skip typical ERC20 approvals
- * - skip gas-only tiny txs or same-from-to dust transfers
- * - allow protocol interactions (if contract detection exists upstream)
- *
- * Expect tx to have structure like:
- * { hash, blockTimestamp, from, to, gasUsd?, input, tokenTransfers?: [{token, amount, usdPriceAtTs}], valueUsd?, value }
- */
-function isMeaningfulTx(tx: any, opts = { minGasUsd: 0.1, minValueUsd: 1 }) {
-  try {
-    // skip approvals by method id
-    if (tx.input && typeof tx.input === 'string' && tx.input.startsWith('0x095ea7b3')) return false;
-
-    // skip zero-value internal bookkeeping
-    if ((!tx.tokenTransfers || tx.tokenTransfers.length === 0) && (!tx.value || Number(tx.value) === 0) && (!tx.valueUsd)) {
-      // but if it has events interacting with known protocol, keep it
-      if (!tx.interactsWithProtocol) return false;
+// The server sends how volume was obtained as a key and params; word it here
+const useVolumeMethodLabel = () => {
+  const { t } = useI18n();
+  return (method: VolumeMethod) => {
+    switch (method.key) {
+      case 'prices':
+        return method.unpriced === 0
+          ? t('volume.prices')
+          : t('volume.pricesPartial', { unpriced: method.unpriced, count: method.transfers });
+      case 'tier':
+        return t(`volume.tier.${method.tier}`);
+      case 'walletSum':
+      case 'chainSum':
+        return t(`volume.${method.key}`, { count: method.count });
     }
+  };
+};
 
-    // skip very low gas txs that likely are dust
-    if (typeof tx.gasUsd !== 'undefined' && tx.gasUsd < opts.minGasUsd && (!tx.tokenTransfers || tx.tokenTransfers.length === 0)) return false;
-
-    // skip transfers below minValueUsd if price data exists
-    if (tx.valueUsd && tx.valueUsd < opts.minValueUsd && (!tx.interactsWithProtocol)) return false;
+const BreakdownRow = ({ label, score, weight, band, estimated }: {
+  label: string;
+  score: number;
+  weight: string;
+  band?: Interval;
+  estimated?: boolean;
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
+      <div className="flex flex-col">
+        <span className="text-sm font-medium text-gray-700">
+          {label}
+          {estimated && (
+            <span className="ml-2 text-[10px] font-semibold uppercase tracking-wide text-amber-700 bg-amber-50 border border-amber-200 rounded px-1">{t('result.estimated')}</span>
+          )}
+        </span>
+        <span className="text-xs text-gray-400">{t('result.weight', { weight })}</span>
+      </div>
+      <div className="flex items-center">
+        <div className="relative w-24 h-2 bg-gray-100 rounded-full mr-3 overflow-hidden">
+          {band && band.high > band.low && (
+            <div
+              className="absolute h-full bg-blue-200"
+              style={{ left: `${band.low * 100}%`, width: `${(band.high - band.low) * 100}%` }}
+            ></div>
+          )}
+          <div 
+            className="relative h-full bg-blue-500 rounded-full" 
+            style={{ width: `${score * 100}%` }}
+          ></div>
+        </div>
+        <span className="text-sm font-bold text-gray-900">{(score * 100).toFixed(0)}</span>
+      </div>
+    </div>
+  );
+};
 
-    // otherwise, count as meaningful
-    return true;
-  } catch (e) {
-    return true; // be permissive if structure is unknown
-  }
-}
+const shortAddress = (address: string) =>
+  address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
 
-/**
- * Compute unique active UTC dates for wallet from raw tx list
- */
-function computeActiveDaysFromTxs(rawTxs: any[] = []) {
-  if (!Array.isArray(rawTxs) || rawTxs.length === 0) return 0;
-  const days = new Set<string>();
-  for (const tx of rawTxs) {
-    if (!tx || !tx.blockTimestamp) continue;
-    if (!isMeaningfulTx(tx)) continue;
-    days.add(utcDateString(tx.blockTimestamp));
-  }
-  return days.size;
-}
+const WalletRow = ({ wallet, totalTxs }: { wallet: WalletResult; totalTxs: number }) => {
+  const { t, usd, percent } = useI18n();
+  const share = totalTxs > 0 ? wallet.stats.txCount / totalTxs : 0;
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
+      <div className="flex flex-col">
+        <span className={`text-sm text-gray-700 ${wallet.name ? 'font-medium' : 'font-mono'}`} title={wallet.address}>
+          {wallet.name ?? shortAddress(wallet.address)}
+        </span>
+        <span className="text-xs text-gray-400">
+          {t('result.walletLine', { count: wallet.stats.txCount, share: percent(share), volume: usd(wallet.stats.volumeUSD) })}
+        </span>
+      </div>
+      <div className="text-right">
+        <span className="text-sm font-bold text-gray-900 block">{(wallet.activityScore * 100).toFixed(0)}</span>
+        <span className="text-xs text-gray-400">{t('result.alone', { rewards: wallet.estimatedRewards })}</span>
+      </div>
+    </div>
+  );
+};
 
-/**
- * Compute USD volume from raw txs.
- * Prefer explicit per-transfer USD (tokenTransfers[].usdPriceAtTs or tx.valueUsd).
- * Fall back to native value * recent price if provided as tx.nativeUsd.
- */
-function computeVolumeFromTxs(rawTxs: any[] = []) {
-  if (!Array.isArray(rawTxs) || rawTxs.length === 0) return 0;
-  let total = 0;
-  for (const tx of rawTxs) {
-    if (!tx || !tx.blockTimestamp) continue;
-    if (!isMeaningfulTx(tx)) continue;
+const ProtocolFootprint = ({ usage }: { usage: ProtocolUsage }) => {
+  const { t, number } = useI18n();
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+      <h3 className="text-sm font-bold text-gray-800 mb-4 uppercase tracking-wide">{t('footprint.title')}</h3>
+      <div className="space-y-3">
+        {PROTOCOL_CATEGORIES.map(({ key }) => {
+          const used = usage.protocols.filter((p) => p.category === key);
+          return (
+            <div key={key} className="flex items-start justify-between gap-3">
+              <span className="text-xs text-gray-600 font-medium w-28 flex-shrink-0 pt-0.5">{t(`category.${key}`)}</span>
+              <div className="flex flex-wrap justify-end gap-1">
+                {used.length > 0
+                  ? used.map((p) => (
+                      <span key={p.protocol} className="text-xs bg-blue-50 text-blue-700 rounded-full px-2 py-0.5">
+                        {p.protocol} · {number(p.txCount)}
+                      </span>
+                    ))
+                  : <span className="text-xs text-gray-400">{t('footprint.noneYet', { examples: protocolsInCategory(key).slice(0, 2).join(' / ') })}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {usage.unlistedContracts > 0 && (
+        <p className="text-xs text-gray-400 mt-3">{t('footprint.unlisted', { count: usage.unlistedContracts })}</p>
+      )}
+    </div>
+  );
+};
 
-    // Prefer explicit tokenTransfers with usd values
-    if (Array.isArray(tx.tokenTransfers) && tx.tokenTransfers.length > 0) {
-      for (const t of tx.tokenTransfers) {
-        if (t.usdPriceAtTs && t.amount) {
-          // assume amount already converted to decimal (or handle 1e decimals if present)
-          total += Number(t.usdPriceAtTs) * Number(t.amount);
-        } else if (t.amount && t.tokenUsdAtTs) {
-          total += Number(t.amount) * Number(t.tokenUsdAtTs);
-        } else if (t.valueUsd) {
-          total += Number(t.valueUsd);
-        }
-      }
-      continue;
-    }
+const ChainRow = ({ chain }: { chain: ChainResult }) => {
+  const { t, usd } = useI18n();
+  return (
+    <div className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
+      <div className="flex flex-col">
+        <span className="text-sm font-medium text-gray-700">{chainName(chain.chain)}</span>
+        <span className="text-xs text-gray-400">
+          {t('result.chainLine', { txs: chain.stats.txCount, days: chain.stats.activeDays, volume: usd(chain.stats.volumeUSD) })}
+        </span>
+      </div>
+      <div className="text-right">
+        <span className="text-sm font-bold text-gray-900 block">{(chain.activityScore * 100).toFixed(0)}</span>
+        <span className="text-xs text-gray-400">{t('result.alone', { rewards: chain.estimatedRewards })}</span>
+      </div>
+    </div>
+  );
+};
 
-    // fallback to tx.valueUsd if present
-    if (tx.valueUsd) {
-      total += Number(tx.valueUsd);
-      continue;
-    }
+const SybilWarning = ({ risk, penalty }: { risk: SybilRisk; penalty?: number }) => {
+  const { t, percent } = useI18n();
+  return (
+    <div className={`rounded-xl border p-5 mb-6 ${risk.level === 'high' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <h3 className={`text-sm font-bold mb-2 flex items-center ${risk.level === 'high' ? 'text-red-900' : 'text-amber-900'}`}>
+        <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
+          <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+        </svg>
+        {t(risk.level === 'high' ? 'sybil.high' : 'sybil.medium', { score: percent(risk.score) })}
+      </h3>
+      <p className={`text-xs mb-2 ${risk.level === 'high' ? 'text-red-800' : 'text-amber-800'}`}>
+        {t('sybil.intro')}
+      </p>
+      <ul className={`list-disc pl-5 space-y-1 text-xs ${risk.level === 'high' ? 'text-red-800' : 'text-amber-800'}`}>
+        {risk.reasons.map((r) => <li key={r.signal}>{t(`sybil.${r.signal}`, r.values)}</li>)}
+      </ul>
+      <p className="text-xs text-gray-500 mt-2">
+        {penalty ? t('sybil.penalty', { points: Math.round(penalty * 100) }) : t('sybil.noPenalty')}
+      </p>
+    </div>
+  );
+};
 
-    // fallback to native value (value is wei) if provided and price present
-    if (tx.value && tx.nativeUsd) {
-      const val = Number(tx.value) / 1e18;
-      total += val * Number(tx.nativeUsd);
-      continue;
-    }
+// Sources that failed: the numbers above still stand, but lean on what did answer.
+// One line per source in the reader's language; the server's English detail stays in the tooltip.
+// A history that was only partly read gets its own line
+const issueKey = (issue: DataIssue) =>
+  issue.source === 'txHistory' && issue.kind === 'partial' ? 'quality.txHistoryPartial' : (`quality.${issue.source}` as const);
 
-    // last resort: skip if we cannot determine USD value
-  }
-  return Math.round(total * 100) / 100;
-}
+const DataQualityNotice = ({ quality }: { quality: DataQuality }) => {
+  const { t } = useI18n();
+  const keys = [...new Set(quality.issues.map(issueKey))];
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 mb-6">
+      <h3 className="text-sm font-bold text-amber-900 mb-1">{t('quality.title')}</h3>
+      <ul className="list-disc pl-5 space-y-1 text-xs text-amber-800">
+        {keys.map((key) => (
+          <li key={key} title={quality.issues.filter((i) => issueKey(i) === key).map((i) => i.message).join('\n')}>
+            {t(key)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
 
-/* ---------- END helpers ---------- */
+const PortfolioSection = ({ portfolio }: { portfolio: Portfolio }) => {
+  const { t, number, usd } = useI18n();
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 mb-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">{t('portfolio.title')}</h3>
+        <span className="text-sm font-bold text-gray-900">{usd(portfolio.totalUsd)}</span>
+      </div>
+      {portfolio.tokens.length === 0 && <p className="text-xs text-gray-400">{t('portfolio.empty')}</p>}
+      <div className="space-y-1">
+        {portfolio.tokens.map((token) => (
+          <div key={token.symbol} className="flex justify-between text-sm py-1 border-b border-gray-50 last:border-0">
+            <span className="text-gray-600">
+              <span className="font-medium text-gray-800">{token.symbol}</span> {number(token.amount, { maximumFractionDigits: 4 })}
+            </span>
+            <span className="text-gray-900 font-semibold">{token.valueUsd === null ? '—' : usd(token.valueUsd)}</span>
+          </div>
+        ))}
+      </div>
+      {portfolio.nfts && portfolio.nfts.length > 0 && (
+        <>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4 mb-2">{t('portfolio.nfts')}</p>
+          <div className="flex flex-wrap gap-1">
+            {portfolio.nfts.map((n) => (
+              <span key={n.address} className="text-xs bg-gray-100 text-gray-700 rounded-full px-2 py-0.5" title={n.address}>
+                {n.collection}{n.count > 1 ? ` × ${n.count}` : ''}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+      <p className="text-xs text-gray-400 mt-3">
+        {t(portfolio.nfts === null ? 'portfolio.noteNoNfts' : 'portfolio.noteNfts')}
+      </p>
+    </div>
+  );
+};
 
 export const ResultCard: React.FC<ResultCardProps> = ({ result, onReset }) => {
-  // compute derived values from rawTxs if available, else fallback to provided stats
-  const computed = useMemo(() => {
-    const raw = (result as any).rawTxs || (result as any).raw_tx_sample || null;
-    const activeDaysComputed = raw ? computeActiveDaysFromTxs(raw) : null;
-    const volumeComputed = raw ? computeVolumeFromTxs(raw) : null;
-    return {
-      activeDaysComputed,
-      volumeComputed
-    };
-  }, [result]);
+  const { t, number, usd, percent, locale } = useI18n();
+  const volumeMethodLabel = useVolumeMethodLabel();
+  const model = getScoringModel(result.scoringModel.id);
 
-  const displayActiveDays = computed.activeDaysComputed ?? result.stats.activeDays;
-  const displayVolumeUSD = computed.volumeComputed ?? result.stats.volumeUSD;
-  const volumeMethodText = computed.volumeComputed ? 'Calculated from tx transfers & prices' : result.stats.volumeMethod;
-  const activeDaysMethodText = computed.activeDaysComputed ? 'Exact UTC days with meaningful txs' : 'Est. Power Law Model';
+  const handleShare = () => {
+    const chain = chainName(result.chain);
+    const subject = result.wallets
+      ? t('result.shareBundle', { count: result.wallets.length, chain })
+      : t('result.shareWallet', { chain });
+    const text = t('result.shareText', { subject, score: Math.round(result.activityScore * 100), rewards: result.estimatedRewards });
+    composeCast(text, shareUrl(result.addresses, result.scoringModel.id, result.chain, locale));
+  };
+  const measured = result.stats.statsSource === 'measured';
+  const approx = measured ? '' : '~';
+  const volumeMethod = volumeMethodLabel(result.stats.volumeMethod);
+  const volumeMethodText = measured ? t('result.volumeMeasured', { method: volumeMethod }) : volumeMethod;
+  const activeDaysMethodText = measured ? t('result.activeDaysMeasured') : t('result.activeDaysModeled');
+  const protocolsMethodText = measured ? t('result.protocolsMeasured') : t('result.protocolsModeled');
 
   return (
     <div className="p-6 animate-fade-in max-w-2xl mx-auto">
       <div className="text-center mb-6">
-        <h2 className="text-2xl font-bold text-gray-800">Wallet Analysis</h2>
-        <p className="text-gray-500 text-sm">Simulation based on live data</p>
+        <h2 className="text-2xl font-bold text-gray-800">{result.wallets ? t('result.bundleTitle') : t('result.walletTitle')}</h2>
+        {!result.wallets && (
+          <p className="text-gray-700 text-sm font-medium" title={result.addresses[0]}>
+            {result.names[result.addresses[0]] ?? shortAddress(result.addresses[0])}
+          </p>
+        )}
+        <p className="text-gray-500 text-sm">{t('result.liveData', { chain: chainName(result.chain) })}</p>
       </div>
 
       {/* Main Score Area */}
       <div className="flex flex-col md:flex-row items-center justify-between bg-white rounded-xl mb-6 border border-gray-100 shadow-sm p-4">
         <div className="w-full md:w-1/2 flex justify-center mb-4 md:mb-0 border-r border-gray-100 md:border-r-0">
-          <ScoreGauge score={result.activityScore} />
+          <ScoreGauge score={result.activityScore} band={result.uncertainty?.finalScore} />
         </div>
         <div className="w-full md:w-1/2 text-center md:text-left pl-0 md:pl-8">
-          <p className="text-xs text-gray-400 font-semibold uppercase tracking-wider mb-1">Simulated Rewards</p>
-          <div className="text-4xl font-extrabold text-blue-600 tracking-tight">
-            {result.estimatedRewards.toLocaleString()} <span className="text-lg text-blue-400 font-medium">BASE</span>
-          </div>
-          <p className="text-xs text-gray-400 mt-2 leading-snug">
-            If the pool was 1B tokens, your activity score of {result.activityScore.toFixed(2)} would capture this share.
-          </p>
+          <RewardRange key={result.generatedAt} result={result} />
         </div>
       </div>
 
+      {/* Sources that failed while collecting the data */}
+      {result.dataQuality && !result.dataQuality.complete && <DataQualityNotice quality={result.dataQuality} />}
+
+      {/* Bot-pattern warning */}
+      {result.sybilRisk && result.sybilRisk.level !== 'low' && (
+        <SybilWarning risk={result.sybilRisk} penalty={result.scoreBreakdown.sybilPenalty} />
+      )}
+
+      {/* Per-chain breakdown for the Superchain view */}
+      {result.chains && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 mb-6">
+          <h3 className="text-sm font-bold text-gray-800 mb-1 uppercase tracking-wide">{t('result.byChain')}</h3>
+          <p className="text-xs text-gray-400 mb-3">{t('result.byChainNote')}</p>
+          <div className="space-y-1">
+            {result.chains.map((chain) => <ChainRow key={chain.chain} chain={chain} />)}
+          </div>
+        </div>
+      )}
+
+      {/* Bundle Contributions */}
+      {result.wallets && (
+        <div className="bg-white rounded-xl border border-gray-200 p-5 mb-6">
+          <h3 className="text-sm font-bold text-gray-800 mb-1 uppercase tracking-wide">{t('result.contributions')}</h3>
+          <p className="text-xs text-gray-400 mb-3">{t('result.contributionsNote', { count: result.wallets.length })}</p>
+          <div className="space-y-1">
+            {result.wallets.map((wallet) => (
+              <WalletRow key={wallet.address} wallet={wallet} totalTxs={result.stats.txCount} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Explanation */}
       <div className="bg-blue-50 border border-blue-100 rounded-xl p-5 mb-6">
         <h3 className="text-sm font-bold text-blue-900 mb-2 flex items-center">
           <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
           </svg>
-          Assessment
+          {t('result.assessment')}
+          <span className="ml-auto text-[10px] font-medium text-blue-400 uppercase tracking-wider">{t('result.via', { provider: result.narrativeProvider })}</span>
         </h3>
-        <p className="text-blue-800 text-sm leading-relaxed">
+        <p className="text-blue-800 text-sm leading-relaxed" lang={result.locale}>
           {result.explanation}
         </p>
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
-        <StatBox label="Balance" value={`${result.stats.balance} ETH`} />
-        <StatBox label="Tx Count" value={result.stats.txCount} tooltip="Raw transaction count from Base RPC" />
+        <StatBox label={t('result.balance')} value={`${number(parseFloat(result.stats.balance), { maximumFractionDigits: 4 })} ETH`} />
+        <StatBox label={t('result.txCount')} value={number(result.stats.txCount)} tooltip={t('result.txCountTip', { chain: chainName(result.chain) })} />
         <StatBox 
-          label="Est. Volume" 
-          value={`~$${Number(displayVolumeUSD).toLocaleString()}`} 
+          label={t('result.volume')} 
+          value={`${approx}${usd(Number(result.stats.volumeUSD))}`} 
           sub={volumeMethodText}
-          tooltip="Estimated based on parsed token transfers and historical prices"
+          tooltip={measured ? t('result.volumeTipMeasured') : t('result.volumeTipModeled')}
         />
         <StatBox 
-          label="Active Days (Life)" 
-          value={`~${displayActiveDays}`} 
+          label={t('result.activeDays')} 
+          value={`${approx}${number(result.stats.activeDays)}`} 
           sub={activeDaysMethodText}
-          tooltip="Estimated activity lifespan based on transaction count"
+          tooltip={measured ? t('result.activeDaysTipMeasured') : t('result.activeDaysTipModeled')}
         />
-        <StatBox label="Protocols" value={`~${result.stats.protocols}`} sub="Est. from Diversity" />
-        <StatBox label="Chain" value="Base" />
+        <StatBox label={t('result.protocols')} value={`${approx}${number(result.stats.protocols)}`} sub={protocolsMethodText} />
+        <StatBox label={t('result.chain')} value={chainName(result.chain)} sub={result.chains ? t('result.chainsCombined', { count: result.chains.length }) : undefined} />
       </div>
 
+      {/* Current holdings */}
+      <PortfolioSection portfolio={result.portfolio} />
+
       {/* Detailed Breakdown */}
       <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
-        <h3 className="text-sm font-bold text-gray-800 mb-4 uppercase tracking-wide">Score Breakdown</h3>
+        <div className="flex items-baseline justify-between mb-4">
+          <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">{t('result.breakdown')}</h3>
+          <span className="text-xs text-gray-400">{t('result.modelVersion', { name: model.name, version: result.scoringModel.version })}</span>
+        </div>
         <div className="space-y-1">
-          <BreakdownRow label="Transaction Volume" score={result.scoreBreakdown.txScore} weight="35%" />
-          <BreakdownRow label="Active Days" score={result.scoreBreakdown.activeDaysScore} weight="25%" />
-          <BreakdownRow label="Protocol Diversity" score={result.scoreBreakdown.protocolScore} weight="20%" />
-          <BreakdownRow label="Value Moved" score={result.scoreBreakdown.volumeScore} weight="15%" />
-          <BreakdownRow label="Recency" score={result.scoreBreakdown.recencyScore} weight="5%" />
+          {SCORE_COMPONENTS.map((key) => (
+            <BreakdownRow
+              key={key}
+              label={t(`component.${key}`)}
+              score={result.scoreBreakdown[key]}
+              weight={percent(model.weights[key])}
+              band={result.uncertainty?.components[key]}
+              estimated={result.stats.intervals?.[COMPONENT_STATS[key]].provenance === 'estimated'}
+            />
+          ))}
         </div>
       </div>
 
+      {/* Which days counted toward active days, and the gaps that cost recency */}
+      {result.activity && <ActivityHeatmap activity={result.activity} graceDays={model.curves.recencyGraceDays} />}
+
+      {/* Which protocols and categories the activity touched */}
+      {result.protocolUsage && <ProtocolFootprint usage={result.protocolUsage} />}
+
+      {/* Interactive what-if and next-tier planner */}
+      <WhatIfSimulator key={result.generatedAt} result={result} />
+
+      {/* Trend over previous checks */}
+      <ScoreHistory result={result} />
+
       {/* Suggestions */}
       <div className="mb-8">
-        <h3 className="text-sm font-bold text-gray-800 mb-3 uppercase tracking-wide">To Improve Your Score</h3>
-        <ul className="space-y-3">
+        <h3 className="text-sm font-bold text-gray-800 mb-3 uppercase tracking-wide">{t('result.improve')}</h3>
+        <ul className="space-y-3" lang={result.locale}>
           {result.suggestions.map((suggestion, idx) => (
             <li key={idx} className="flex items-start text-sm text-gray-600 bg-white p-3 rounded-lg border border-gray-100 shadow-sm transition-transform hover:scale-[1.01]">
               <span className="flex-shrink-0 w-6 h-6 bg-green-100 text-green-600 rounded-full flex items-center justify-center mr-3 -mt-0.5 font-bold text-xs">
@@ -243,13 +406,19 @@ export const ResultCard: React.FC<ResultCardProps> = ({ result, onReset }) => {
 
       <div className="text-center border-t border-gray-100 pt-6">
         <p className="text-xs text-gray-400 mb-4 max-w-xs mx-auto leading-relaxed">
-          Disclaimer: This is a simulation using public on-chain data. Estimates for volume and active days are statistically derived from transaction patterns. Not financial advice.
+          {t('result.disclaimer', { source: t(measured ? 'result.disclaimerMeasured' : 'result.disclaimerModeled') })}
         </p>
+        <button
+          onClick={handleShare}
+          className="w-full py-3 px-4 mb-3 bg-purple-600 hover:bg-purple-700 text-white font-medium rounded-lg transition-colors shadow-lg shadow-purple-500/30"
+        >
+          {t('result.share')}
+        </button>
         <button
           onClick={onReset}
           className="w-full py-3 px-4 bg-gray-900 hover:bg-gray-800 text-white font-medium rounded-lg transition-colors shadow-lg shadow-gray-200"
         >
-          Check Another Wallet
+          {t('result.checkAnother')}
         </button>
       </div>
     </div>
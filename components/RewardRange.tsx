@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { AllocationCurve, EstimationResult, ScenarioSettings } from '../types';
+import { getScoringModel } from '../services/scoringModels';
+import { rewardCurveFor } from '../services/scoringUtils';
+import { ALLOCATION_CURVES, DEFAULT_SCENARIO_SETTINGS, computeRewardScenarios } from '../services/rewardScenarios';
+import { useI18n } from './LocaleProvider';
+
+interface RewardRangeProps {
+  result: EstimationResult;
+}
+
+const POOL_OPTIONS = [250_000_000, 500_000_000, 1_000_000_000, 2_000_000_000];
+const FDV_OPTIONS = [1_000_000_000, 5_000_000_000, 10_000_000_000, 25_000_000_000];
+
+/**
+ * Bear / base / bull instead of one precise number: pool size, curve shape and
+ * token valuation are all unknown, so the honest answer is a range.
+ */
+export const RewardRange: React.FC<RewardRangeProps> = ({ result }) => {
+  // Compact notation (1.5B, 250M) keeps a range on one line
+  const { t, compact, compactUsd, usd } = useI18n();
+  const [settings, setSettings] = useState<ScenarioSettings>(result.rewardScenarios?.settings ?? DEFAULT_SCENARIO_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const curve = rewardCurveFor(getScoringModel(result.scoringModel.id));
+  const { bear, base, bull } = useMemo(
+    () => computeRewardScenarios(result.activityScore, curve, settings),
+    [result.activityScore, curve, settings]
+  );
+  // The same base case at the ends of the score interval, when stats were estimated
+  const band = result.uncertainty?.finalScore;
+  const baseBand = useMemo(
+    () => band && band.high > band.low
+      ? [computeRewardScenarios(band.low, curve, settings).base.tokens, computeRewardScenarios(band.high, curve, settings).base.tokens]
+      : null,
+    [band, curve, settings]
+  );
+  const update = (patch: Partial<ScenarioSettings>) => setSettings({ ...settings, ...patch });
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 font-semibold uppercase tracking-wider mb-1">{t('rewards.title')}</p>
+      <div className="text-3xl font-extrabold text-blue-600 tracking-tight">
+        {compact(bear.tokens)}–{compact(bull.tokens)} <span className="text-lg text-blue-400 font-medium">BASE</span>
+      </div>
+      <p className="text-sm font-semibold text-gray-700 mt-1">
+        {compactUsd(bear.usd)}–{compactUsd(bull.usd)}
+        <span className="text-xs font-normal text-gray-400"> · {t('rewards.baseCase', { tokens: base.tokens, usd: compactUsd(base.usd) })}</span>
+      </p>
+      {baseBand && baseBand[1] > baseBand[0] && (
+        <p className="text-xs text-amber-700 mt-1">
+          {t('rewards.statsBand', { low: baseBand[0], high: baseBand[1] })}
+        </p>
+      )}
+      <p className="text-xs text-gray-400 mt-2 leading-snug">
+        {t('rewards.scenarios', {
+          pool: compact(settings.poolSize),
+          bearFdv: compactUsd(bear.fdvUsd),
+          bullPool: compact(bull.poolSize),
+          bullFdv: compactUsd(bull.fdvUsd),
+        })}
+      </p>
+      <button onClick={() => setShowSettings(!showSettings)} className="text-xs text-blue-600 font-medium hover:text-blue-700 mt-2">
+        {showSettings ? t('rewards.hideSettings') : t('rewards.showSettings')}
+      </button>
+
+      {showSettings && (
+        <div className="mt-3 space-y-2 text-left">
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            {t('rewards.poolSize')}
+            <select
+              value={settings.poolSize}
+              onChange={(e) => update({ poolSize: Number(e.target.value) })}
+              className="ml-2 border border-gray-200 rounded px-2 py-1 text-gray-700"
+            >
+              {POOL_OPTIONS.map((p) => <option key={p} value={p}>{t('rewards.poolOption', { amount: compact(p) })}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            {t('rewards.curve')}
+            <select
+              value={settings.curve}
+              onChange={(e) => update({ curve: e.target.value as AllocationCurve })}
+              className="ml-2 border border-gray-200 rounded px-2 py-1 text-gray-700"
+            >
+              {ALLOCATION_CURVES.map((c) => <option key={c} value={c}>{t(`curve.${c}`)}</option>)}
+            </select>
+          </label>
+          <p className="text-[11px] text-gray-400">{t(`curve.${settings.curve}.description`)}</p>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            {t('rewards.fdv')}
+            <select
+              value={settings.fdvUsd}
+              onChange={(e) => update({ fdvUsd: Number(e.target.value) })}
+              className="ml-2 border border-gray-200 rounded px-2 py-1 text-gray-700"
+            >
+              {FDV_OPTIONS.map((f) => <option key={f} value={f}>{compactUsd(f)}</option>)}
+            </select>
+          </label>
+          <p className="text-[11px] text-gray-400">
+            {t('rewards.supply', {
+              supply: compact(settings.totalSupply),
+              price: usd(settings.fdvUsd / settings.totalSupply, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+            })}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,24 @@
 import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
+import { Interval } from '../types';
+import { useI18n } from './LocaleProvider';
 
 interface ScoreGaugeProps {
   score: number; // 0 to 1
+  band?: Interval; // where the score could be if estimated stats are off
 }
 
-export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score }) => {
+export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score, band }) => {
+  const { t } = useI18n();
+  const low = Math.min(band?.low ?? score, score);
+  const high = Math.max(band?.high ?? score, score);
+  const uncertain = high - low >= 0.01;
+  // Solid up to the low bound, fading across the band, grey beyond it
   const data = [
-    { name: 'Score', value: score },
-    { name: 'Remainder', value: 1 - score },
+    { name: 'Low', value: low },
+    { name: 'Below', value: score - low },
+    { name: 'Above', value: high - score },
+    { name: 'Remainder', value: 1 - high },
   ];
 
   const getColor = (s: number) => {
@@ -18,7 +28,8 @@ export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score }) => {
   };
 
   const activeColor = getColor(score);
-  const COLORS = [activeColor, '#F3F4F6'];
+  const OPACITY = [1, 0.6, 0.25, 1];
+  const COLORS = [activeColor, activeColor, activeColor, '#F3F4F6'];
 
   return (
     <div className="relative h-40 w-40 mx-auto">
@@ -37,7 +48,7 @@ export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score }) => {
             stroke="none"
           >
             {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              <Cell key={`cell-${index}`} fill={COLORS[index]} fillOpacity={OPACITY[index]} />
             ))}
           </Pie>
         </PieChart>
@@ -46,7 +57,13 @@ export const ScoreGauge: React.FC<ScoreGaugeProps> = ({ score }) => {
         <span className="text-3xl font-bold text-gray-900 block">
           {Math.round(score * 100)}
         </span>
-        <span className="text-xs text-gray-400 font-medium uppercase tracking-wider">Score</span>
+        {uncertain ? (
+          <span className="text-[10px] text-amber-600 font-medium block" title={t('gauge.rangeTitle')}>
+            {t('gauge.range', { low: Math.round(low * 100), high: Math.round(high * 100) })}
+          </span>
+        ) : (
+          <span className="text-xs text-gray-400 font-medium uppercase tracking-wider">{t('gauge.score')}</span>
+        )}
       </div>
     </div>
   );
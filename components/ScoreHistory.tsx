@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { EstimationResult, ScoreSnapshot } from '../types';
+import { getScoreHistory } from '../services/scoreHistory';
+import { SCORE_COMPONENTS } from '../services/scoringModels';
+import { DEFAULT_CHAIN } from '../services/chains';
+import { useI18n } from './LocaleProvider';
+
+interface ScoreHistoryProps {
+  result: EstimationResult;
+}
+
+const COMPONENT_COLORS = ['#60A5FA', '#34D399', '#A78BFA', '#FBBF24', '#F472B6'];
+
+const SHORT_DATE: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+
+const Delta = ({ label, value, unit = false }: { label: string; value: number; unit?: boolean }) => {
+  const { t, number } = useI18n();
+  const color = value > 0 ? 'text-green-600' : value < 0 ? 'text-red-500' : 'text-gray-400';
+  const formatted = number(value, { signDisplay: 'exceptZero' });
+  return (
+    <div className="flex items-center justify-between text-xs py-1">
+      <span className="text-gray-500">{label}</span>
+      <span className={`font-semibold ${color}`}>{unit ? t('history.base', { value: formatted }) : formatted}</span>
+    </div>
+  );
+};
+
+export const ScoreHistory: React.FC<ScoreHistoryProps> = ({ result }) => {
+  const { t, date } = useI18n();
+  const [snapshots, setSnapshots] = useState<ScoreSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getScoreHistory(result.addresses).then((all) => {
+      // Scores from different models or chains are not comparable, so chart only the current pair
+      if (!cancelled) {
+        setSnapshots(all.filter((s) => s.scoringModel.id === result.scoringModel.id && (s.chain ?? DEFAULT_CHAIN.id) === result.chain));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [result]);
+
+  if (!snapshots) return null;
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+        <h3 className="text-sm font-bold text-gray-800 mb-2 uppercase tracking-wide">{t('history.title')}</h3>
+        <p className="text-xs text-gray-400">{t('history.first')}</p>
+      </div>
+    );
+  }
+
+  const data = snapshots.map((s) => ({
+    date: date(s.generatedAt, SHORT_DATE),
+    score: Math.round(s.activityScore * 100),
+    rewards: s.estimatedRewards,
+    ...Object.fromEntries(SCORE_COMPONENTS.map((key) => [key, Math.round(s.scoreBreakdown[key] * 100)])),
+  }));
+
+  const latest = snapshots[snapshots.length - 1];
+  const previous = snapshots[snapshots.length - 2];
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">{t('history.title')}</h3>
+        <span className="text-xs text-gray-400">{t('history.checks', { count: snapshots.length })}</span>
+      </div>
+
+      <div className="h-56 -ml-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+            <YAxis yAxisId="score" domain={[0, 100]} tick={{ fontSize: 10 }} width={32} />
+            <YAxis yAxisId="rewards" orientation="right" tick={{ fontSize: 10 }} width={48} />
+            <Tooltip contentStyle={{ fontSize: 12 }} />
+            <Legend wrapperStyle={{ fontSize: 10 }} />
+            <Line yAxisId="score" type="monotone" dataKey="score" name={t('history.score')} stroke="#2563EB" strokeWidth={2} dot={false} />
+            {SCORE_COMPONENTS.map((key, i) => (
+              <Line key={key} yAxisId="score" type="monotone" dataKey={key} name={t(`component.${key}`)} stroke={COMPONENT_COLORS[i]} strokeWidth={1} dot={false} />
+            ))}
+            <Line yAxisId="rewards" type="monotone" dataKey="rewards" name={t('history.rewards')} stroke="#111827" strokeDasharray="4 2" dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 border-t border-gray-50 pt-3">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">
+          {t('history.since', { date: date(previous.generatedAt, SHORT_DATE) })}
+        </p>
+        <Delta label={t('history.score')} value={Math.round((latest.activityScore - previous.activityScore) * 100)} />
+        <Delta label={t('history.rewards')} value={latest.estimatedRewards - previous.estimatedRewards} unit />
+        {SCORE_COMPONENTS.map((key) => (
+          <Delta key={key} label={t(`component.${key}`)} value={Math.round((latest.scoreBreakdown[key] - previous.scoreBreakdown[key]) * 100)} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { EstimationResult } from '../types';
+import { getScoringModel } from '../services/scoringModels';
+import { SimStats, marginalGains, planNextTier, simulate } from '../services/tierPlanner';
+import { COMPONENT_STATS } from '../services/uncertainty';
+import { I18n } from '../services/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface WhatIfSimulatorProps {
+  result: EstimationResult;
+}
+
+// Labels come from the stat.<key> catalog entries
+interface SliderDef {
+  key: keyof SimStats;
+  max: (seed: number) => number;
+  log?: boolean; // volume spans orders of magnitude
+  format: (v: number, i18n: I18n) => string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: 'txCount', max: (v) => Math.max(2000, v * 2), format: (v, { number }) => number(v) },
+  { key: 'activeDays', max: (v) => Math.max(730, v * 2), format: (v, { number }) => number(v) },
+  { key: 'protocols', max: (v) => Math.max(20, v * 2), format: (v) => String(v) },
+  { key: 'volumeUSD', max: () => 7, log: true, format: (v, { usd }) => usd(v) },
+  { key: 'recencyDays', max: () => 180, format: (v, { t }) => t('sim.days', { count: v }) },
+];
+
+const toSlider = (def: SliderDef, value: number) => (def.log ? Math.log10(value + 1) : value);
+const fromSlider = (def: SliderDef, position: number) =>
+  def.log ? Math.round(Math.pow(10, position) - 1) : Math.round(position);
+
+const seedFrom = (result: EstimationResult): SimStats => ({
+  txCount: result.stats.txCount,
+  activeDays: result.stats.activeDays,
+  protocols: result.stats.protocols,
+  volumeUSD: result.stats.volumeUSD,
+  recencyDays: result.stats.recencyDays,
+});
+
+export const WhatIfSimulator: React.FC<WhatIfSimulatorProps> = ({ result }) => {
+  const i18n = useI18n();
+  const { t, number } = i18n;
+  const model = getScoringModel(result.scoringModel.id);
+  const seed = useMemo(() => seedFrom(result), [result]);
+  const [stats, setStats] = useState<SimStats>(seed);
+  const [open, setOpen] = useState(false);
+  const risk = result.sybilRisk?.score ?? 0;
+
+  const sim = useMemo(() => simulate(stats, model, risk), [stats, model, risk]);
+  const plan = useMemo(() => planNextTier(stats, model, risk), [stats, model, risk]);
+  const gains = useMemo(() => marginalGains(stats, model, risk), [stats, model, risk]);
+
+  const scoreDelta = Math.round((sim.scores.finalScore - result.activityScore) * 100);
+  const rewardDelta = sim.rewards - result.estimatedRewards;
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full mb-8 py-3 px-4 border border-dashed border-blue-300 text-blue-600 font-medium rounded-xl hover:bg-blue-50 transition-colors"
+      >
+        {t('sim.open')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5 mb-8">
+      <div className="flex items-baseline justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">{t('sim.title')}</h3>
+        <button onClick={() => setStats(seed)} className="text-xs text-blue-600 hover:text-blue-700">{t('sim.reset')}</button>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {SLIDERS.map((def) => (
+          <div key={def.key}>
+            <div className="flex justify-between text-xs mb-1">
+              <label htmlFor={`sim-${def.key}`} className="text-gray-600 font-medium">{t(`stat.${def.key}`)}</label>
+              <span className="text-gray-900 font-semibold">{def.format(stats[def.key], i18n)}</span>
+            </div>
+            <input
+              id={`sim-${def.key}`}
+              type="range"
+              min={0}
+              max={def.max(seed[def.key])}
+              step={def.log ? 0.01 : 1}
+              value={toSlider(def, stats[def.key])}
+              onChange={(e) => setStats({ ...stats, [def.key]: fromSlider(def, Number(e.target.value)) })}
+              className="w-full accent-blue-600"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="bg-gray-50 rounded-lg p-3 text-center">
+          <div className="text-xs text-gray-500 uppercase font-semibold tracking-wider">{t('sim.score')}</div>
+          <div className="text-lg font-bold text-gray-900">
+            {Math.round(sim.scores.finalScore * 100)}
+            {scoreDelta !== 0 && <span className={`text-xs ml-1 ${scoreDelta > 0 ? 'text-green-600' : 'text-red-500'}`}>{scoreDelta > 0 ? '+' : ''}{scoreDelta}</span>}
+          </div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3 text-center">
+          <div className="text-xs text-gray-500 uppercase font-semibold tracking-wider">{t('sim.rewards')}</div>
+          <div className="text-lg font-bold text-blue-600">
+            {number(sim.rewards)}
+            {rewardDelta !== 0 && <span className={`text-xs ml-1 ${rewardDelta > 0 ? 'text-green-600' : 'text-red-500'}`}>{number(rewardDelta, { signDisplay: 'exceptZero' })}</span>}
+          </div>
+        </div>
+      </div>
+
+      {/* Path to next tier */}
+      <div className="border-t border-gray-50 pt-3 mb-4">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('sim.pathTitle')}</p>
+        {!plan && <p className="text-sm text-gray-600">{t('sim.topTier')}</p>}
+        {plan && (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              <strong>{t('sim.reach', { score: Math.round(plan.targetScore * 100), rewards: plan.targetRewards })}</strong>
+              {plan.reachable ? t('sim.reachWith') : t('sim.reachClosest')}
+            </p>
+            <ul className="space-y-1">
+              {plan.changes.map((c) => (
+                <li key={c.stat} className="flex justify-between text-xs text-gray-600">
+                  <span>{t(`stat.${c.stat}`)}</span>
+                  <span className="font-semibold text-gray-900">
+                    {number(c.from)} → {number(c.to)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      {/* Marginal gains */}
+      <div className="border-t border-gray-50 pt-3">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{t('sim.nextStep')}</p>
+        <ul className="space-y-1">
+          {gains.map((g) => (
+            <li key={g.component} className="flex justify-between text-xs text-gray-600">
+              <span>{t(`stat.${COMPONENT_STATS[g.component]}`)}: {number(g.from)} → {number(g.to)}</span>
+              <span className={g.rewardGain > 0 ? 'text-green-600 font-semibold' : 'text-gray-400'}>
+                {t('sim.gain', {
+                  points: number(g.scoreGain * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+                  rewards: g.rewardGain,
+                })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
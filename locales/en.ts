@@ -0,0 +1,275 @@
+// Source catalog: every key lives here, other locales must translate all of them.
+// {name} is interpolated; objects hold plural forms chosen by {count}.
+const en = {
+  'layout.credit': 'Developed by cryptobulla',
+  'layout.language': 'Language',
+
+  'app.title': 'Estimate your Base Rewards',
+  'app.subtitle': 'Paste your wallet, Basename or ENS name to see your activity score.',
+  'app.viewerWallets': "@{username}'s wallets",
+  'app.yourWallets': 'Your Farcaster wallets',
+  'app.walletKind.verified': 'verified',
+  'app.walletKind.custody': 'custody',
+  'app.estimateAll': 'Estimate all {count} as a bundle',
+  'app.orEnterAny': 'or enter any wallet',
+  'app.walletLabel': 'Wallet Address {index}',
+  'app.placeholder': '0x... or name.base.eth',
+  'app.removeWallet': 'Remove wallet {index}',
+  'app.addWallet': '+ Add another wallet',
+  'app.chain': 'Chain',
+  'app.superchainHint': 'Combines activity on every mainnet above, plus a per-chain breakdown.',
+  'app.model': 'Scoring Model',
+  'app.modelOption': '{name} (v{version})',
+  'model.base-default.description': 'Balanced model favouring raw transaction count.',
+  'model.arbitrum-style.description': 'Rewards longevity and value moved over raw tx spam.',
+  'model.optimism-style.description': 'Rewards protocol diversity and recent, repeat usage.',
+  'app.resolving': 'Checking addresses...',
+  'app.checkBundle': 'Check Bundle of {count}',
+  'app.checkOne': 'Check My Estimate',
+  'app.loading': 'Checking your {chain} activity...',
+
+  'resolve.malformed': 'Malformed address: expected 0x followed by 40 hex characters.',
+  'resolve.checksum': 'Checksum mismatch: this address likely has a typo.',
+  'resolve.unrecognized': 'Enter a 0x address, a name.base.eth Basename or an ENS name.',
+  'resolve.invalidName': '"{input}" is not a valid name.',
+  'resolve.noAddress': 'No address is set for {input}.',
+  'resolve.lookupFailed': 'Could not resolve {input} right now.',
+
+  'error.source.rpc': 'The chain RPC endpoints',
+  'error.source.txHistory': 'The block explorer',
+  'error.source.prices': 'The price feeds',
+  'error.source.tokens': 'The token balance lookup',
+  'error.source.nfts': 'The NFT lookup',
+  'error.source.unknown': 'The estimator',
+  'error.timeout.title': 'The network is slow',
+  'error.timeout.detail': '{who} took too long to answer, even after retrying every endpoint.',
+  'error.rateLimited.title': 'Too many requests',
+  'error.rateLimited.detail': '{who} asked us to slow down. Wait a minute and try again.',
+  'error.unavailable.title': 'Data source unavailable',
+  'error.unavailable.detail': '{who} could not be reached, so there is no data to score.',
+  'error.badResponse.title': 'Unreadable data',
+  'error.badResponse.detail': '{who} answered with data we could not read.',
+  'error.network.title': 'You appear to be offline',
+  'error.network.detail': 'We could not reach the estimator. Check your connection.',
+  'error.invalidInput.title': 'Check the wallet',
+  'error.invalidInput.detail': 'The estimator rejected this request.',
+  'error.server.title': 'Something went wrong',
+  'error.server.detail': "We couldn't estimate your rewards right now.",
+  'error.retry': 'Retry',
+  'error.startOver': 'Start Over',
+
+  'gauge.score': 'Score',
+  'gauge.range': '{low}–{high} · estimated',
+  'gauge.rangeTitle': 'Range from estimated stats',
+
+  'rewards.title': 'Simulated Rewards',
+  'rewards.baseCase': 'base case {tokens} ({usd})',
+  'rewards.statsBand': 'Estimated stats put the base case anywhere from {low} to {high}.',
+  'rewards.scenarios': 'Bear halves the {pool} pool at a {bearFdv} FDV; bull is a {bullPool} pool at {bullFdv}.',
+  'rewards.showSettings': 'Scenario settings',
+  'rewards.hideSettings': 'Hide scenario settings',
+  'rewards.poolSize': 'Pool size',
+  'rewards.poolOption': '{amount} tokens',
+  'rewards.curve': 'Allocation curve',
+  'rewards.fdv': 'Token FDV',
+  'rewards.supply': 'Hypothetical {supply} supply, so {price} a token in the base case.',
+
+  'curve.linear': 'Linear',
+  'curve.linear.description': "The model's curve, interpolated between tiers.",
+  'curve.tiered': 'Tiered',
+  'curve.tiered.description': 'Only completed tiers pay out, like criteria-based drops.',
+  'curve.quadratic': 'Quadratic',
+  'curve.quadratic.description': 'Smooth curve: share grows with the square of the score, up to the top tier.',
+  'curve.capped': 'Capped',
+  'curve.capped.description': 'Per-wallet cap at the 0.75 tier, like Arbitrum.',
+
+  'component.txScore': 'Transaction Volume',
+  'component.activeDaysScore': 'Active Days',
+  'component.protocolScore': 'Protocol Diversity',
+  'component.volumeScore': 'Value Moved',
+  'component.recencyScore': 'Recency',
+
+  'stat.txCount': 'Transactions',
+  'stat.activeDays': 'Active Days',
+  'stat.protocols': 'Protocols',
+  'stat.volumeUSD': 'Volume',
+  'stat.recencyDays': 'Days Since Last Tx',
+
+  'category.dex': 'DEX / Swaps',
+  'category.lending': 'Lending',
+  'category.bridge': 'Bridges',
+  'category.nft': 'NFTs',
+  'category.social': 'Social & Identity',
+
+
+  'result.bundleTitle': 'Bundle Analysis',
+  'result.walletTitle': 'Wallet Analysis',
+  'result.liveData': 'Simulation based on live {chain} data',
+  'result.estimated': 'estimated',
+  'result.weight': 'Weight: {weight}',
+  'result.walletLine': { one: '{count} tx ({share}) · {volume}', other: '{count} txs ({share}) · {volume}' },
+  'result.chainLine': '{txs} txs · {days} days · {volume}',
+  'result.alone': '{rewards} alone',
+  'result.byChain': 'By Chain',
+  'result.byChainNote': 'The Superchain score merges active days and protocols across chains. Each row shows that chain scored on its own.',
+  'result.contributions': 'Wallet Contributions',
+  'result.contributionsNote': 'Combined score merges active days and protocols across {count} wallets. Each row shows that wallet scored on its own.',
+  'result.assessment': 'Assessment',
+  'result.via': 'via {provider}',
+  'result.balance': 'Balance',
+  'result.txCount': 'Tx Count',
+  'result.txCountTip': 'Raw transaction count from {chain} RPC',
+  'result.volume': 'Est. Volume',
+  'result.volumeMeasured': 'Measured: {method}',
+  'volume.prices': 'Historical USD prices',
+  'volume.pricesPartial': {
+    one: 'Historical USD prices ({unpriced} of {count} transfer unpriced)',
+    other: 'Historical USD prices ({unpriced} of {count} transfers unpriced)',
+  },
+  'volume.tier.casual': 'Casual (~$15/op)',
+  'volume.tier.regular': 'Regular (~$42/tx)',
+  'volume.tier.active': 'Active (~$100/tx)',
+  'volume.tier.whale': 'Whale (~$500/tx)',
+  'volume.walletSum': 'Sum of {count} wallets',
+  'volume.chainSum': 'Sum across {count} chains',
+  'result.volumeTipMeasured': 'Sum of value sent in your transactions, priced in USD at the time',
+  'result.volumeTipModeled': 'Estimated from transaction count and portfolio value tier',
+  'result.activeDays': 'Active Days (Life)',
+  'result.activeDaysMeasured': 'Exact UTC days with meaningful txs',
+  'result.activeDaysModeled': 'Est. Power Law Model',
+  'result.activeDaysTipMeasured': 'Unique UTC days with at least one meaningful transaction',
+  'result.activeDaysTipModeled': 'Estimated activity lifespan based on transaction count',
+  'result.protocols': 'Protocols',
+  'result.protocolsMeasured': 'Distinct protocols used',
+  'result.protocolsModeled': 'Est. from Diversity',
+  'result.chain': 'Chain',
+  'result.chainsCombined': '{count} chains combined',
+  'result.breakdown': 'Score Breakdown',
+  'result.modelVersion': '{name} v{version}',
+  'result.improve': 'To Improve Your Score',
+  'result.disclaimer': 'Disclaimer: This is a simulation using public on-chain data. {source} Not financial advice.',
+  'result.disclaimerMeasured': 'Activity stats are measured from your transaction history.',
+  'result.disclaimerModeled': 'Transaction history was unavailable, so volume and active days are statistically derived from transaction patterns.',
+  'result.share': 'Share on Farcaster',
+  'result.checkAnother': 'Check Another Wallet',
+  'result.shareBundle': 'My {count}-wallet {chain} score',
+  'result.shareWallet': 'My {chain} activity score',
+  'result.shareText': '{subject} is {score}/100, worth ~{rewards} simulated BASE. Check yours:',
+
+  'footprint.title': 'Protocol Footprint',
+  'footprint.noneYet': 'None yet — try {examples}',
+  'footprint.unlisted': {
+    one: 'Plus {count} other contract not in the registry (often a token), not counted as a protocol.',
+    other: 'Plus {count} other contracts not in the registry (often tokens), not counted as protocols.',
+  },
+
+  'sybil.high': 'High Sybil Risk ({score})',
+  'sybil.medium': 'Moderate Sybil Risk ({score})',
+  'sybil.intro': 'Real airdrops filter farming patterns. This activity looks partly automated:',
+  'sybil.penalty': 'This model removed {points} points from your score for it.',
+  'sybil.noPenalty': 'This model applies no penalty, but a real distribution might.',
+  'sybil.metronomic': 'Transactions are evenly spaced ({gaps} gaps vary by only {spread}%).',
+  'sybil.selfTransfers': '{loops} of {count} transactions are self-sends or dust transfers.',
+  'sybil.singleProtocol': '{share}% of {count} contract calls hit a single contract.',
+  'sybil.fundingCluster': 'First funded by {funder}, which seeded {count} other wallets.',
+
+  'quality.title': 'Partial data',
+  'quality.rpc': 'Some chain reads failed.',
+  'quality.txHistory': 'Transaction history is unavailable on at least one chain, so those activity stats are modeled from the transaction count.',
+  'quality.txHistoryPartial': 'Only part of the transaction history could be read on at least one chain, so some activity stats are filled in from the transaction count.',
+  'quality.prices': 'Some transfers had no USD price, so value moved is understated.',
+  'quality.tokens': 'Token balances could not be read; holdings show ETH only.',
+  'quality.nfts': 'NFT holdings could not be loaded.',
+
+  'portfolio.title': 'Portfolio',
+  'portfolio.empty': 'No balances in tracked tokens.',
+  'portfolio.nfts': 'NFTs',
+  'portfolio.noteNfts': "Tracked Base tokens at today's prices; NFTs are listed but not valued.",
+  'portfolio.noteNoNfts': "Tracked Base tokens at today's prices; NFT holdings were unavailable.",
+
+  'sim.open': 'What if? Simulate changes & plan your next tier',
+  'sim.title': 'What-If Simulator',
+  'sim.reset': 'Reset',
+  'sim.score': 'Score',
+  'sim.rewards': 'Rewards',
+  'sim.days': '{count}d',
+  'sim.pathTitle': 'Path to Next Tier',
+  'sim.topTier': 'You are already in the top tier.',
+  'sim.reach': 'Reach {score} (~{rewards} BASE)',
+  'sim.reachWith': ' with:',
+  'sim.reachClosest': ' — every lever saturates first; the closest mix is:',
+  'sim.nextStep': 'Next Step Is Worth',
+  'sim.gain': '+{points} pts · +{rewards} BASE',
+
+  'history.title': 'History',
+  'history.first': 'This is your first check with this model. Come back later to see your trend.',
+  'history.checks': { one: '{count} check', other: '{count} checks' },
+  'history.since': 'Since {date}',
+  'history.score': 'Score',
+  'history.rewards': 'Rewards',
+  'history.base': '{value} BASE',
+
+  'account.title': 'My wallet',
+  'account.connect': 'Connect wallet',
+  'account.connecting': 'Connecting…',
+  'account.noWallet': 'No wallet found. Open this in a Farcaster or Base client, or install a browser wallet.',
+  'account.check': 'Check',
+  'account.signIn': 'Sign in to save history',
+  'account.signingIn': 'Confirm in your wallet…',
+  'account.signInHint': 'Signing a message proves this wallet is yours. It is free and sends no transaction.',
+  'account.signedIn': 'Signed in · history saved',
+  'account.signOut': 'Sign out',
+  'account.scoreAlerts': 'Notify me when my score moves',
+  'account.alertsNeedClient': 'Alerts arrive as Farcaster notifications; open the app in a Farcaster or Base client to turn them on.',
+  'account.failed': 'Something went wrong: {error}',
+
+  'alert.title': 'Your score moved',
+  'alert.body': 'Score {from} → {to} ({delta}). Tap to see what changed.',
+
+  'og.title': '{chain} Rewards Estimate · {wallet}',
+  'og.bundle': '{count}-wallet bundle',
+  'og.score': 'SCORE',
+  'og.footer': 'Simulated rewards · {model} model',
+  'og.placeholder': 'Open the app to see this score',
+  'share.button': 'Check your score',
+  'share.open': 'Open result',
+
+  'calendar.title': 'Daily Activity',
+  'calendar.since': 'Since {date}',
+  'calendar.cell': { one: '{count} meaningful tx on {date}', other: '{count} meaningful txs on {date}' },
+  'calendar.idle': 'No meaningful txs on {date}',
+  'calendar.less': 'Less',
+  'calendar.more': 'More',
+  'calendar.gapLegend': 'Gap costing recency',
+  'calendar.weekly': 'Weekly Streak',
+  'calendar.monthly': 'Monthly Streak',
+  'calendar.weeks': { one: '{count} week', other: '{count} weeks' },
+  'calendar.months': { one: '{count} month', other: '{count} months' },
+  'calendar.longest': 'Longest: {value}',
+  'calendar.gapsTitle': 'Gaps That Cost Recency',
+  'calendar.noGaps': { one: 'No gap longer than {count} day, so recency never slipped.', other: 'No gap longer than {count} days, so recency never slipped.' },
+  'calendar.gap': { one: '{count} idle day · {from} – {to}', other: '{count} idle days · {from} – {to}' },
+  'calendar.gapOpen': 'ongoing',
+  'calendar.gapRecency': 'recency fell to {score}',
+
+  'narrative.wallet': 'Your wallet',
+  'narrative.bundle': 'Your {count}-wallet bundle',
+  'narrative.maxed': '{subject} maxes out every component of the {model} model.',
+  'narrative.summary': '{subject} scores {score}, led by {strongest}; {weakest} costs you the most ({points} points).',
+  'narrative.tierRoute': 'You are {points} points from the {tier} tier (~{reward} tokens): {action}.',
+  'narrative.tierSpread': 'You are {points} points from the {tier} tier (~{reward} tokens); it takes gains across several components.',
+  'narrative.componentTip': '{label}: {action}.',
+  'narrative.untouched': "You haven't used {category} on Base yet; {examples} would add a new category.",
+  'narrative.modeled': 'Stats were estimated because tx history was unavailable; check again later for measured numbers.',
+  'narrative.steady': 'Keep a steady weekly rhythm of activity to hold your score.',
+  'narrative.or': '{first} or {second}',
+  'narrative.protocolIdea': '{protocol} ({category})',
+  'narrative.action.txScore': { one: 'make about {count} more transaction', other: 'make about {count} more transactions' },
+  'narrative.action.activeDaysScore': { one: 'be active on {count} more distinct day', other: 'be active on {count} more distinct days' },
+  'narrative.action.protocolScore': { one: 'try {count} new protocol', other: 'try {count} new protocols' },
+  'narrative.action.protocolScoreIdeas': { one: 'try {count} new protocol such as {ideas}', other: 'try {count} new protocols such as {ideas}' },
+  'narrative.action.volumeScore': 'move about {usd} more in value',
+  'narrative.action.recencyScore': { one: 'make a transaction within the next {count} day', other: 'make a transaction within the next {count} days' },
+};
+
+export default en;
@@ -0,0 +1,275 @@
+import type { Catalog } from "../services/i18n";
+
+const es: Catalog = {
+  'layout.credit': 'Desarrollado por cryptobulla',
+  'layout.language': 'Idioma',
+
+  'app.title': 'Calcula tus recompensas de Base',
+  'app.subtitle': 'Pega tu wallet, Basename o nombre ENS para ver tu puntuación de actividad.',
+  'app.viewerWallets': 'Wallets de @{username}',
+  'app.yourWallets': 'Tus wallets de Farcaster',
+  'app.walletKind.verified': 'verificada',
+  'app.walletKind.custody': 'custodia',
+  'app.estimateAll': 'Calcular las {count} como un conjunto',
+  'app.orEnterAny': 'o introduce cualquier wallet',
+  'app.walletLabel': 'Dirección de wallet {index}',
+  'app.placeholder': '0x... o nombre.base.eth',
+  'app.removeWallet': 'Quitar wallet {index}',
+  'app.addWallet': '+ Añadir otra wallet',
+  'app.chain': 'Red',
+  'app.superchainHint': 'Combina la actividad de todas las mainnets anteriores, con un desglose por red.',
+  'app.model': 'Modelo de puntuación',
+  'app.modelOption': '{name} (v{version})',
+  'model.base-default.description': 'Modelo equilibrado que favorece el número bruto de transacciones.',
+  'model.arbitrum-style.description': 'Premia la antigüedad y el valor movido por encima del spam de transacciones.',
+  'model.optimism-style.description': 'Premia la diversidad de protocolos y el uso reciente y repetido.',
+  'app.resolving': 'Comprobando direcciones...',
+  'app.checkBundle': 'Calcular conjunto de {count}',
+  'app.checkOne': 'Calcular mi estimación',
+  'app.loading': 'Revisando tu actividad en {chain}...',
+
+  'resolve.malformed': 'Dirección mal formada: se esperaba 0x seguido de 40 caracteres hexadecimales.',
+  'resolve.checksum': 'El checksum no coincide: probablemente hay una errata en la dirección.',
+  'resolve.unrecognized': 'Introduce una dirección 0x, un Basename nombre.base.eth o un nombre ENS.',
+  'resolve.invalidName': '"{input}" no es un nombre válido.',
+  'resolve.noAddress': '{input} no tiene ninguna dirección configurada.',
+  'resolve.lookupFailed': 'No se pudo resolver {input} en este momento.',
+
+  'error.source.rpc': 'Los endpoints RPC de la red',
+  'error.source.txHistory': 'El explorador de bloques',
+  'error.source.prices': 'Las fuentes de precios',
+  'error.source.tokens': 'La consulta de saldos de tokens',
+  'error.source.nfts': 'La consulta de NFTs',
+  'error.source.unknown': 'El estimador',
+  'error.timeout.title': 'La red va lenta',
+  'error.timeout.detail': '{who} tardó demasiado en responder, incluso tras reintentar con cada endpoint.',
+  'error.rateLimited.title': 'Demasiadas solicitudes',
+  'error.rateLimited.detail': '{who} nos pidió que fuéramos más despacio. Espera un minuto y vuelve a intentarlo.',
+  'error.unavailable.title': 'Fuente de datos no disponible',
+  'error.unavailable.detail': '{who} no respondió, así que no hay datos que puntuar.',
+  'error.badResponse.title': 'Datos ilegibles',
+  'error.badResponse.detail': '{who} respondió con datos que no pudimos leer.',
+  'error.network.title': 'Parece que no tienes conexión',
+  'error.network.detail': 'No pudimos contactar con el estimador. Revisa tu conexión.',
+  'error.invalidInput.title': 'Revisa la wallet',
+  'error.invalidInput.detail': 'El estimador rechazó esta solicitud.',
+  'error.server.title': 'Algo salió mal',
+  'error.server.detail': 'No pudimos calcular tus recompensas en este momento.',
+  'error.retry': 'Reintentar',
+  'error.startOver': 'Empezar de nuevo',
+
+  'gauge.score': 'Puntuación',
+  'gauge.range': '{low}–{high} · estimado',
+  'gauge.rangeTitle': 'Rango a partir de estadísticas estimadas',
+
+  'rewards.title': 'Recompensas simuladas',
+  'rewards.baseCase': 'caso base {tokens} ({usd})',
+  'rewards.statsBand': 'Con estadísticas estimadas, el caso base puede ir de {low} a {high}.',
+  'rewards.scenarios': 'El bajista reduce a la mitad el fondo de {pool} con un FDV de {bearFdv}; el alcista es un fondo de {bullPool} con {bullFdv}.',
+  'rewards.showSettings': 'Ajustes del escenario',
+  'rewards.hideSettings': 'Ocultar ajustes del escenario',
+  'rewards.poolSize': 'Tamaño del fondo',
+  'rewards.poolOption': '{amount} tokens',
+  'rewards.curve': 'Curva de reparto',
+  'rewards.fdv': 'FDV del token',
+  'rewards.supply': 'Suministro hipotético de {supply}, es decir, {price} por token en el caso base.',
+
+  'curve.linear': 'Lineal',
+  'curve.linear.description': 'La curva del modelo, interpolada entre niveles.',
+  'curve.tiered': 'Por niveles',
+  'curve.tiered.description': 'Solo pagan los niveles completados, como en los airdrops por criterios.',
+  'curve.quadratic': 'Cuadrática',
+  'curve.quadratic.description': 'Curva suave: la parte crece con el cuadrado de la puntuación, hasta el nivel superior.',
+  'curve.capped': 'Con tope',
+  'curve.capped.description': 'Tope por wallet en el nivel 0,75, como Arbitrum.',
+
+  'component.txScore': 'Volumen de transacciones',
+  'component.activeDaysScore': 'Días activos',
+  'component.protocolScore': 'Diversidad de protocolos',
+  'component.volumeScore': 'Valor movido',
+  'component.recencyScore': 'Actividad reciente',
+
+  'stat.txCount': 'Transacciones',
+  'stat.activeDays': 'Días activos',
+  'stat.protocols': 'Protocolos',
+  'stat.volumeUSD': 'Volumen',
+  'stat.recencyDays': 'Días desde la última tx',
+
+  'category.dex': 'DEX / Swaps',
+  'category.lending': 'Préstamos',
+  'category.bridge': 'Puentes',
+  'category.nft': 'NFTs',
+  'category.social': 'Social e identidad',
+
+
+  'result.bundleTitle': 'Análisis del conjunto',
+  'result.walletTitle': 'Análisis de la wallet',
+  'result.liveData': 'Simulación basada en datos en vivo de {chain}',
+  'result.estimated': 'estimado',
+  'result.weight': 'Peso: {weight}',
+  'result.walletLine': { one: '{count} tx ({share}) · {volume}', other: '{count} txs ({share}) · {volume}' },
+  'result.chainLine': '{txs} txs · {days} días · {volume}',
+  'result.alone': '{rewards} por sí sola',
+  'result.byChain': 'Por red',
+  'result.byChainNote': 'La puntuación de la Superchain combina días activos y protocolos de todas las redes. Cada fila muestra esa red puntuada por separado.',
+  'result.contributions': 'Aporte de cada wallet',
+  'result.contributionsNote': 'La puntuación combinada une días activos y protocolos de {count} wallets. Cada fila muestra esa wallet puntuada por separado.',
+  'result.assessment': 'Valoración',
+  'result.via': 'vía {provider}',
+  'result.balance': 'Saldo',
+  'result.txCount': 'Nº de txs',
+  'result.txCountTip': 'Número bruto de transacciones según el RPC de {chain}',
+  'result.volume': 'Volumen est.',
+  'result.volumeMeasured': 'Medido: {method}',
+  'volume.prices': 'Precios históricos en USD',
+  'volume.pricesPartial': {
+    one: 'Precios históricos en USD ({unpriced} de {count} transferencia sin precio)',
+    other: 'Precios históricos en USD ({unpriced} de {count} transferencias sin precio)',
+  },
+  'volume.tier.casual': 'Ocasional (~15 US$/op.)',
+  'volume.tier.regular': 'Habitual (~42 US$/tx)',
+  'volume.tier.active': 'Activo (~100 US$/tx)',
+  'volume.tier.whale': 'Ballena (~500 US$/tx)',
+  'volume.walletSum': 'Suma de {count} wallets',
+  'volume.chainSum': 'Suma de {count} redes',
+  'result.volumeTipMeasured': 'Suma del valor enviado en tus transacciones, en USD al precio de cada momento',
+  'result.volumeTipModeled': 'Estimado a partir del número de transacciones y del nivel de valor de la cartera',
+  'result.activeDays': 'Días activos (total)',
+  'result.activeDaysMeasured': 'Días UTC exactos con txs relevantes',
+  'result.activeDaysModeled': 'Modelo de ley de potencias est.',
+  'result.activeDaysTipMeasured': 'Días UTC distintos con al menos una transacción relevante',
+  'result.activeDaysTipModeled': 'Vida de actividad estimada a partir del número de transacciones',
+  'result.protocols': 'Protocolos',
+  'result.protocolsMeasured': 'Protocolos distintos usados',
+  'result.protocolsModeled': 'Est. a partir de la diversidad',
+  'result.chain': 'Red',
+  'result.chainsCombined': '{count} redes combinadas',
+  'result.breakdown': 'Desglose de la puntuación',
+  'result.modelVersion': '{name} v{version}',
+  'result.improve': 'Para mejorar tu puntuación',
+  'result.disclaimer': 'Aviso: esto es una simulación con datos públicos on-chain. {source} No es asesoramiento financiero.',
+  'result.disclaimerMeasured': 'Las estadísticas de actividad se miden a partir de tu historial de transacciones.',
+  'result.disclaimerModeled': 'El historial de transacciones no estaba disponible, así que el volumen y los días activos se derivan estadísticamente de los patrones de transacciones.',
+  'result.share': 'Compartir en Farcaster',
+  'result.checkAnother': 'Revisar otra wallet',
+  'result.shareBundle': 'Mi puntuación de {count} wallets en {chain}',
+  'result.shareWallet': 'Mi puntuación de actividad en {chain}',
+  'result.shareText': '{subject} es {score}/100, unos {rewards} BASE simulados. Consulta la tuya:',
+
+  'footprint.title': 'Huella en protocolos',
+  'footprint.noneYet': 'Ninguno aún: prueba {examples}',
+  'footprint.unlisted': {
+    one: 'Además, {count} contrato más fuera del registro (a menudo un token), que no cuenta como protocolo.',
+    other: 'Además, {count} contratos más fuera del registro (a menudo tokens), que no cuentan como protocolos.',
+  },
+
+  'sybil.high': 'Riesgo Sybil alto ({score})',
+  'sybil.medium': 'Riesgo Sybil moderado ({score})',
+  'sybil.intro': 'Los airdrops reales filtran patrones de farming. Esta actividad parece en parte automatizada:',
+  'sybil.penalty': 'Este modelo te quitó {points} puntos por ello.',
+  'sybil.noPenalty': 'Este modelo no aplica penalización, pero un reparto real podría hacerlo.',
+  'sybil.metronomic': 'Las transacciones están espaciadas de forma regular ({gaps} intervalos varían solo un {spread}%).',
+  'sybil.selfTransfers': '{loops} de {count} transacciones son envíos a uno mismo o transferencias de polvo.',
+  'sybil.singleProtocol': 'El {share}% de {count} llamadas a contratos van a un único contrato.',
+  'sybil.fundingCluster': 'Financiada primero por {funder}, que fondeó otras {count} wallets.',
+
+  'quality.title': 'Datos parciales',
+  'quality.rpc': 'Algunas lecturas de la red fallaron.',
+  'quality.txHistory': 'El historial de transacciones no está disponible en al menos una red, así que esas estadísticas se modelan a partir del número de transacciones.',
+  'quality.txHistoryPartial': 'Solo se pudo leer parte del historial de transacciones en al menos una red, así que algunas estadísticas se completan a partir del número de transacciones.',
+  'quality.prices': 'Algunas transferencias no tenían precio en USD, así que el valor movido está infravalorado.',
+  'quality.tokens': 'No se pudieron leer los saldos de tokens; solo se muestra ETH.',
+  'quality.nfts': 'No se pudieron cargar los NFTs.',
+
+  'portfolio.title': 'Cartera',
+  'portfolio.empty': 'Sin saldos en los tokens seguidos.',
+  'portfolio.nfts': 'NFTs',
+  'portfolio.noteNfts': 'Tokens de Base seguidos a precios de hoy; los NFTs se listan pero no se valoran.',
+  'portfolio.noteNoNfts': 'Tokens de Base seguidos a precios de hoy; los NFTs no estaban disponibles.',
+
+  'sim.open': '¿Y si…? Simula cambios y planifica tu próximo nivel',
+  'sim.title': 'Simulador',
+  'sim.reset': 'Restablecer',
+  'sim.score': 'Puntuación',
+  'sim.rewards': 'Recompensas',
+  'sim.days': '{count} d',
+  'sim.pathTitle': 'Camino al siguiente nivel',
+  'sim.topTier': 'Ya estás en el nivel más alto.',
+  'sim.reach': 'Alcanza {score} (~{rewards} BASE)',
+  'sim.reachWith': ' con:',
+  'sim.reachClosest': ': cada palanca se satura antes; la combinación más cercana es:',
+  'sim.nextStep': 'Lo que vale el siguiente paso',
+  'sim.gain': '+{points} pts · +{rewards} BASE',
+
+  'history.title': 'Historial',
+  'history.first': 'Es tu primera consulta con este modelo. Vuelve más tarde para ver tu tendencia.',
+  'history.checks': { one: '{count} consulta', other: '{count} consultas' },
+  'history.since': 'Desde el {date}',
+  'history.score': 'Puntuación',
+  'history.rewards': 'Recompensas',
+  'history.base': '{value} BASE',
+
+  'account.title': 'Mi wallet',
+  'account.connect': 'Conectar wallet',
+  'account.connecting': 'Conectando…',
+  'account.noWallet': 'No se encontró ninguna wallet. Ábrelo en un cliente de Farcaster o Base, o instala una wallet de navegador.',
+  'account.check': 'Consultar',
+  'account.signIn': 'Inicia sesión para guardar el historial',
+  'account.signingIn': 'Confirma en tu wallet…',
+  'account.signInHint': 'Firmar un mensaje demuestra que esta wallet es tuya. Es gratis y no envía ninguna transacción.',
+  'account.signedIn': 'Sesión iniciada · historial guardado',
+  'account.signOut': 'Cerrar sesión',
+  'account.scoreAlerts': 'Avísame cuando cambie mi puntuación',
+  'account.alertsNeedClient': 'Los avisos llegan como notificaciones de Farcaster; abre la app en un cliente de Farcaster o Base para activarlos.',
+  'account.failed': 'Algo salió mal: {error}',
+
+  'alert.title': 'Tu puntuación cambió',
+  'alert.body': 'Puntuación {from} → {to} ({delta}). Toca para ver qué cambió.',
+
+  'og.title': 'Estimación de recompensas en {chain} · {wallet}',
+  'og.bundle': 'Conjunto de {count} wallets',
+  'og.score': 'PUNTUACIÓN',
+  'og.footer': 'Recompensas simuladas · modelo {model}',
+  'og.placeholder': 'Abre la app para ver esta puntuación',
+  'share.button': 'Consulta tu puntuación',
+  'share.open': 'Abrir resultado',
+
+  'calendar.title': 'Actividad diaria',
+  'calendar.since': 'Desde el {date}',
+  'calendar.cell': { one: '{count} transacción relevante el {date}', other: '{count} transacciones relevantes el {date}' },
+  'calendar.idle': 'Sin transacciones relevantes el {date}',
+  'calendar.less': 'Menos',
+  'calendar.more': 'Más',
+  'calendar.gapLegend': 'Pausa que resta actividad reciente',
+  'calendar.weekly': 'Racha semanal',
+  'calendar.monthly': 'Racha mensual',
+  'calendar.weeks': { one: '{count} semana', other: '{count} semanas' },
+  'calendar.months': { one: '{count} mes', other: '{count} meses' },
+  'calendar.longest': 'Máxima: {value}',
+  'calendar.gapsTitle': 'Pausas que restan actividad reciente',
+  'calendar.noGaps': { one: 'Ninguna pausa de más de {count} día, así que la actividad reciente nunca bajó.', other: 'Ninguna pausa de más de {count} días, así que la actividad reciente nunca bajó.' },
+  'calendar.gap': { one: '{count} día inactivo · {from} – {to}', other: '{count} días inactivos · {from} – {to}' },
+  'calendar.gapOpen': 'en curso',
+  'calendar.gapRecency': 'actividad reciente bajó a {score}',
+
+  'narrative.wallet': 'Tu wallet',
+  'narrative.bundle': 'Tu conjunto de {count} wallets',
+  'narrative.maxed': '{subject} alcanza el máximo en todos los componentes del modelo {model}.',
+  'narrative.summary': '{subject} obtiene {score}, impulsada por {strongest}; {weakest} es lo que más te resta ({points} puntos).',
+  'narrative.tierRoute': 'Estás a {points} puntos del nivel {tier} (~{reward} tokens): {action}.',
+  'narrative.tierSpread': 'Estás a {points} puntos del nivel {tier} (~{reward} tokens); hace falta mejorar varios componentes.',
+  'narrative.componentTip': '{label}: {action}.',
+  'narrative.untouched': 'Aún no has usado {category} en Base; {examples} añadiría una categoría nueva.',
+  'narrative.modeled': 'Las estadísticas se estimaron porque el historial no estaba disponible; vuelve más tarde para ver cifras medidas.',
+  'narrative.steady': 'Mantén un ritmo semanal constante de actividad para conservar tu puntuación.',
+  'narrative.or': '{first} o {second}',
+  'narrative.protocolIdea': '{protocol} ({category})',
+  'narrative.action.txScore': { one: 'haz {count} transacción más', other: 'haz unas {count} transacciones más' },
+  'narrative.action.activeDaysScore': { one: 'mantente activo {count} día distinto más', other: 'mantente activo {count} días distintos más' },
+  'narrative.action.protocolScore': { one: 'prueba {count} protocolo nuevo', other: 'prueba {count} protocolos nuevos' },
+  'narrative.action.protocolScoreIdeas': { one: 'prueba {count} protocolo nuevo, como {ideas}', other: 'prueba {count} protocolos nuevos, como {ideas}' },
+  'narrative.action.volumeScore': 'mueve unos {usd} más en valor',
+  'narrative.action.recencyScore': { one: 'haz una transacción en el próximo día', other: 'haz una transacción en los próximos {count} días' },
+};
+
+export default es;
@@ -0,0 +1,275 @@
+import type { Catalog } from "../services/i18n";
+
+const pt: Catalog = {
+  'layout.credit': 'Desenvolvido por cryptobulla',
+  'layout.language': 'Idioma',
+
+  'app.title': 'Estime suas recompensas na Base',
+  'app.subtitle': 'Cole sua carteira, Basename ou nome ENS para ver sua pontuação de atividade.',
+  'app.viewerWallets': 'Carteiras de @{username}',
+  'app.yourWallets': 'Suas carteiras do Farcaster',
+  'app.walletKind.verified': 'verificada',
+  'app.walletKind.custody': 'custódia',
+  'app.estimateAll': 'Estimar as {count} como um conjunto',
+  'app.orEnterAny': 'ou informe qualquer carteira',
+  'app.walletLabel': 'Endereço da carteira {index}',
+  'app.placeholder': '0x... ou nome.base.eth',
+  'app.removeWallet': 'Remover carteira {index}',
+  'app.addWallet': '+ Adicionar outra carteira',
+  'app.chain': 'Rede',
+  'app.superchainHint': 'Combina a atividade de todas as mainnets acima, com um detalhamento por rede.',
+  'app.model': 'Modelo de pontuação',
+  'app.modelOption': '{name} (v{version})',
+  'model.base-default.description': 'Modelo equilibrado que favorece o número bruto de transações.',
+  'model.arbitrum-style.description': 'Recompensa a longevidade e o valor movimentado acima do spam de transações.',
+  'model.optimism-style.description': 'Recompensa a diversidade de protocolos e o uso recente e recorrente.',
+  'app.resolving': 'Verificando endereços...',
+  'app.checkBundle': 'Verificar conjunto de {count}',
+  'app.checkOne': 'Ver minha estimativa',
+  'app.loading': 'Verificando sua atividade na {chain}...',
+
+  'resolve.malformed': 'Endereço malformado: esperado 0x seguido de 40 caracteres hexadecimais.',
+  'resolve.checksum': 'Checksum não confere: provavelmente há um erro de digitação no endereço.',
+  'resolve.unrecognized': 'Informe um endereço 0x, um Basename nome.base.eth ou um nome ENS.',
+  'resolve.invalidName': '"{input}" não é um nome válido.',
+  'resolve.noAddress': 'Nenhum endereço está definido para {input}.',
+  'resolve.lookupFailed': 'Não foi possível resolver {input} agora.',
+
+  'error.source.rpc': 'Os endpoints RPC da rede',
+  'error.source.txHistory': 'O explorador de blocos',
+  'error.source.prices': 'As fontes de preço',
+  'error.source.tokens': 'A consulta de saldos de tokens',
+  'error.source.nfts': 'A consulta de NFTs',
+  'error.source.unknown': 'O estimador',
+  'error.timeout.title': 'A rede está lenta',
+  'error.timeout.detail': '{who} demorou demais para responder, mesmo após tentar novamente em cada endpoint.',
+  'error.rateLimited.title': 'Muitas solicitações',
+  'error.rateLimited.detail': '{who} pediu para irmos mais devagar. Aguarde um minuto e tente de novo.',
+  'error.unavailable.title': 'Fonte de dados indisponível',
+  'error.unavailable.detail': '{who} não respondeu, então não há dados para pontuar.',
+  'error.badResponse.title': 'Dados ilegíveis',
+  'error.badResponse.detail': '{who} respondeu com dados que não conseguimos ler.',
+  'error.network.title': 'Parece que você está offline',
+  'error.network.detail': 'Não conseguimos acessar o estimador. Verifique sua conexão.',
+  'error.invalidInput.title': 'Confira a carteira',
+  'error.invalidInput.detail': 'O estimador recusou esta solicitação.',
+  'error.server.title': 'Algo deu errado',
+  'error.server.detail': 'Não conseguimos estimar suas recompensas agora.',
+  'error.retry': 'Tentar novamente',
+  'error.startOver': 'Recomeçar',
+
+  'gauge.score': 'Pontuação',
+  'gauge.range': '{low}–{high} · estimado',
+  'gauge.rangeTitle': 'Faixa a partir de estatísticas estimadas',
+
+  'rewards.title': 'Recompensas simuladas',
+  'rewards.baseCase': 'cenário base {tokens} ({usd})',
+  'rewards.statsBand': 'Com estatísticas estimadas, o cenário base pode ir de {low} a {high}.',
+  'rewards.scenarios': 'O pessimista corta pela metade o pool de {pool} com FDV de {bearFdv}; o otimista é um pool de {bullPool} com {bullFdv}.',
+  'rewards.showSettings': 'Configurar cenários',
+  'rewards.hideSettings': 'Ocultar configurações',
+  'rewards.poolSize': 'Tamanho do pool',
+  'rewards.poolOption': '{amount} tokens',
+  'rewards.curve': 'Curva de distribuição',
+  'rewards.fdv': 'FDV do token',
+  'rewards.supply': 'Oferta hipotética de {supply}, ou seja, {price} por token no cenário base.',
+
+  'curve.linear': 'Linear',
+  'curve.linear.description': 'A curva do modelo, interpolada entre os níveis.',
+  'curve.tiered': 'Por níveis',
+  'curve.tiered.description': 'Só os níveis completos pagam, como em airdrops por critérios.',
+  'curve.quadratic': 'Quadrática',
+  'curve.quadratic.description': 'Curva suave: a fatia cresce com o quadrado da pontuação, até o nível máximo.',
+  'curve.capped': 'Com teto',
+  'curve.capped.description': 'Teto por carteira no nível 0,75, como na Arbitrum.',
+
+  'component.txScore': 'Volume de transações',
+  'component.activeDaysScore': 'Dias ativos',
+  'component.protocolScore': 'Diversidade de protocolos',
+  'component.volumeScore': 'Valor movimentado',
+  'component.recencyScore': 'Atividade recente',
+
+  'stat.txCount': 'Transações',
+  'stat.activeDays': 'Dias ativos',
+  'stat.protocols': 'Protocolos',
+  'stat.volumeUSD': 'Volume',
+  'stat.recencyDays': 'Dias desde a última tx',
+
+  'category.dex': 'DEX / Swaps',
+  'category.lending': 'Empréstimos',
+  'category.bridge': 'Pontes',
+  'category.nft': 'NFTs',
+  'category.social': 'Social e identidade',
+
+
+  'result.bundleTitle': 'Análise do conjunto',
+  'result.walletTitle': 'Análise da carteira',
+  'result.liveData': 'Simulação com dados ao vivo da {chain}',
+  'result.estimated': 'estimado',
+  'result.weight': 'Peso: {weight}',
+  'result.walletLine': { one: '{count} tx ({share}) · {volume}', other: '{count} txs ({share}) · {volume}' },
+  'result.chainLine': '{txs} txs · {days} dias · {volume}',
+  'result.alone': '{rewards} sozinha',
+  'result.byChain': 'Por rede',
+  'result.byChainNote': 'A pontuação da Superchain junta dias ativos e protocolos de todas as redes. Cada linha mostra a pontuação daquela rede sozinha.',
+  'result.contributions': 'Contribuição das carteiras',
+  'result.contributionsNote': 'A pontuação combinada junta dias ativos e protocolos de {count} carteiras. Cada linha mostra a pontuação daquela carteira sozinha.',
+  'result.assessment': 'Avaliação',
+  'result.via': 'via {provider}',
+  'result.balance': 'Saldo',
+  'result.txCount': 'Nº de txs',
+  'result.txCountTip': 'Contagem bruta de transações pelo RPC da {chain}',
+  'result.volume': 'Volume est.',
+  'result.volumeMeasured': 'Medido: {method}',
+  'volume.prices': 'Preços históricos em USD',
+  'volume.pricesPartial': {
+    one: 'Preços históricos em USD ({unpriced} de {count} transferência sem preço)',
+    other: 'Preços históricos em USD ({unpriced} de {count} transferências sem preço)',
+  },
+  'volume.tier.casual': 'Casual (~US$ 15/op.)',
+  'volume.tier.regular': 'Regular (~US$ 42/tx)',
+  'volume.tier.active': 'Ativo (~US$ 100/tx)',
+  'volume.tier.whale': 'Baleia (~US$ 500/tx)',
+  'volume.walletSum': 'Soma de {count} carteiras',
+  'volume.chainSum': 'Soma de {count} redes',
+  'result.volumeTipMeasured': 'Soma do valor enviado nas suas transações, em USD pelo preço da época',
+  'result.volumeTipModeled': 'Estimado pela contagem de transações e pela faixa de valor da carteira',
+  'result.activeDays': 'Dias ativos (total)',
+  'result.activeDaysMeasured': 'Dias UTC exatos com txs relevantes',
+  'result.activeDaysModeled': 'Modelo de lei de potência est.',
+  'result.activeDaysTipMeasured': 'Dias UTC distintos com pelo menos uma transação relevante',
+  'result.activeDaysTipModeled': 'Tempo de atividade estimado pela contagem de transações',
+  'result.protocols': 'Protocolos',
+  'result.protocolsMeasured': 'Protocolos distintos usados',
+  'result.protocolsModeled': 'Est. pela diversidade',
+  'result.chain': 'Rede',
+  'result.chainsCombined': '{count} redes combinadas',
+  'result.breakdown': 'Detalhamento da pontuação',
+  'result.modelVersion': '{name} v{version}',
+  'result.improve': 'Para melhorar sua pontuação',
+  'result.disclaimer': 'Aviso: esta é uma simulação com dados públicos on-chain. {source} Não é recomendação financeira.',
+  'result.disclaimerMeasured': 'As estatísticas de atividade são medidas a partir do seu histórico de transações.',
+  'result.disclaimerModeled': 'O histórico de transações estava indisponível, então o volume e os dias ativos são derivados estatisticamente dos padrões de transação.',
+  'result.share': 'Compartilhar no Farcaster',
+  'result.checkAnother': 'Verificar outra carteira',
+  'result.shareBundle': 'Minha pontuação de {count} carteiras na {chain}',
+  'result.shareWallet': 'Minha pontuação de atividade na {chain}',
+  'result.shareText': '{subject} é {score}/100, cerca de {rewards} BASE simulados. Veja a sua:',
+
+  'footprint.title': 'Presença em protocolos',
+  'footprint.noneYet': 'Nenhum ainda — experimente {examples}',
+  'footprint.unlisted': {
+    one: 'Mais {count} contrato fora do registro (geralmente um token), que não conta como protocolo.',
+    other: 'Mais {count} contratos fora do registro (geralmente tokens), que não contam como protocolos.',
+  },
+
+  'sybil.high': 'Risco Sybil alto ({score})',
+  'sybil.medium': 'Risco Sybil moderado ({score})',
+  'sybil.intro': 'Airdrops reais filtram padrões de farming. Esta atividade parece em parte automatizada:',
+  'sybil.penalty': 'Este modelo tirou {points} pontos da sua pontuação por isso.',
+  'sybil.noPenalty': 'Este modelo não aplica penalidade, mas uma distribuição real pode aplicar.',
+  'sybil.metronomic': 'As transações são espaçadas de forma regular ({gaps} intervalos variam só {spread}%).',
+  'sybil.selfTransfers': '{loops} de {count} transações são envios para si mesmo ou transferências de poeira.',
+  'sybil.singleProtocol': '{share}% de {count} chamadas de contrato vão para um único contrato.',
+  'sybil.fundingCluster': 'Financiada primeiro por {funder}, que abasteceu outras {count} carteiras.',
+
+  'quality.title': 'Dados parciais',
+  'quality.rpc': 'Algumas leituras da rede falharam.',
+  'quality.txHistory': 'O histórico de transações está indisponível em pelo menos uma rede, então essas estatísticas são modeladas pela contagem de transações.',
+  'quality.txHistoryPartial': 'Só foi possível ler parte do histórico de transações em pelo menos uma rede, então algumas estatísticas são completadas pela contagem de transações.',
+  'quality.prices': 'Algumas transferências não tinham preço em USD, então o valor movimentado está subestimado.',
+  'quality.tokens': 'Não foi possível ler os saldos de tokens; só ETH é exibido.',
+  'quality.nfts': 'Não foi possível carregar os NFTs.',
+
+  'portfolio.title': 'Portfólio',
+  'portfolio.empty': 'Sem saldo nos tokens acompanhados.',
+  'portfolio.nfts': 'NFTs',
+  'portfolio.noteNfts': 'Tokens da Base acompanhados a preços de hoje; NFTs são listados, mas não avaliados.',
+  'portfolio.noteNoNfts': 'Tokens da Base acompanhados a preços de hoje; os NFTs estavam indisponíveis.',
+
+  'sim.open': 'E se? Simule mudanças e planeje seu próximo nível',
+  'sim.title': 'Simulador',
+  'sim.reset': 'Redefinir',
+  'sim.score': 'Pontuação',
+  'sim.rewards': 'Recompensas',
+  'sim.days': '{count} d',
+  'sim.pathTitle': 'Caminho para o próximo nível',
+  'sim.topTier': 'Você já está no nível máximo.',
+  'sim.reach': 'Chegue a {score} (~{rewards} BASE)',
+  'sim.reachWith': ' com:',
+  'sim.reachClosest': ' — todas as alavancas saturam antes; a combinação mais próxima é:',
+  'sim.nextStep': 'Quanto vale o próximo passo',
+  'sim.gain': '+{points} pts · +{rewards} BASE',
+
+  'history.title': 'Histórico',
+  'history.first': 'Esta é sua primeira consulta com este modelo. Volte depois para ver sua tendência.',
+  'history.checks': { one: '{count} consulta', other: '{count} consultas' },
+  'history.since': 'Desde {date}',
+  'history.score': 'Pontuação',
+  'history.rewards': 'Recompensas',
+  'history.base': '{value} BASE',
+
+  'account.title': 'Minha carteira',
+  'account.connect': 'Conectar carteira',
+  'account.connecting': 'Conectando…',
+  'account.noWallet': 'Nenhuma carteira encontrada. Abra isto em um cliente Farcaster ou Base, ou instale uma carteira de navegador.',
+  'account.check': 'Consultar',
+  'account.signIn': 'Entre para salvar o histórico',
+  'account.signingIn': 'Confirme na sua carteira…',
+  'account.signInHint': 'Assinar uma mensagem prova que esta carteira é sua. É grátis e não envia nenhuma transação.',
+  'account.signedIn': 'Conectado · histórico salvo',
+  'account.signOut': 'Sair',
+  'account.scoreAlerts': 'Avise-me quando minha pontuação mudar',
+  'account.alertsNeedClient': 'Os alertas chegam como notificações do Farcaster; abra o app em um cliente Farcaster ou Base para ativá-los.',
+  'account.failed': 'Algo deu errado: {error}',
+
+  'alert.title': 'Sua pontuação mudou',
+  'alert.body': 'Pontuação {from} → {to} ({delta}). Toque para ver o que mudou.',
+
+  'og.title': 'Estimativa de recompensas na {chain} · {wallet}',
+  'og.bundle': 'Conjunto de {count} carteiras',
+  'og.score': 'PONTUAÇÃO',
+  'og.footer': 'Recompensas simuladas · modelo {model}',
+  'og.placeholder': 'Abra o app para ver esta pontuação',
+  'share.button': 'Veja sua pontuação',
+  'share.open': 'Abrir resultado',
+
+  'calendar.title': 'Atividade diária',
+  'calendar.since': 'Desde {date}',
+  'calendar.cell': { one: '{count} transação relevante em {date}', other: '{count} transações relevantes em {date}' },
+  'calendar.idle': 'Nenhuma transação relevante em {date}',
+  'calendar.less': 'Menos',
+  'calendar.more': 'Mais',
+  'calendar.gapLegend': 'Pausa que reduz a atividade recente',
+  'calendar.weekly': 'Sequência semanal',
+  'calendar.monthly': 'Sequência mensal',
+  'calendar.weeks': { one: '{count} semana', other: '{count} semanas' },
+  'calendar.months': { one: '{count} mês', other: '{count} meses' },
+  'calendar.longest': 'Maior: {value}',
+  'calendar.gapsTitle': 'Pausas que reduzem a atividade recente',
+  'calendar.noGaps': { one: 'Nenhuma pausa maior que {count} dia, então a atividade recente nunca caiu.', other: 'Nenhuma pausa maior que {count} dias, então a atividade recente nunca caiu.' },
+  'calendar.gap': { one: '{count} dia inativo · {from} – {to}', other: '{count} dias inativos · {from} – {to}' },
+  'calendar.gapOpen': 'em andamento',
+  'calendar.gapRecency': 'atividade recente caiu para {score}',
+
+  'narrative.wallet': 'Sua carteira',
+  'narrative.bundle': 'Seu conjunto de {count} carteiras',
+  'narrative.maxed': '{subject} atinge o máximo em todos os componentes do modelo {model}.',
+  'narrative.summary': '{subject} marca {score}, puxada por {strongest}; {weakest} é o que mais pesa contra você ({points} pontos).',
+  'narrative.tierRoute': 'Você está a {points} pontos do nível {tier} (~{reward} tokens): {action}.',
+  'narrative.tierSpread': 'Você está a {points} pontos do nível {tier} (~{reward} tokens); é preciso melhorar vários componentes.',
+  'narrative.componentTip': '{label}: {action}.',
+  'narrative.untouched': 'Você ainda não usou {category} na Base; {examples} adicionaria uma nova categoria.',
+  'narrative.modeled': 'As estatísticas foram estimadas porque o histórico estava indisponível; volte depois para ver números medidos.',
+  'narrative.steady': 'Mantenha um ritmo semanal constante de atividade para segurar sua pontuação.',
+  'narrative.or': '{first} ou {second}',
+  'narrative.protocolIdea': '{protocol} ({category})',
+  'narrative.action.txScore': { one: 'faça mais {count} transação', other: 'faça cerca de {count} transações a mais' },
+  'narrative.action.activeDaysScore': { one: 'fique ativo em mais {count} dia diferente', other: 'fique ativo em mais {count} dias diferentes' },
+  'narrative.action.protocolScore': { one: 'experimente {count} protocolo novo', other: 'experimente {count} protocolos novos' },
+  'narrative.action.protocolScoreIdeas': { one: 'experimente {count} protocolo novo, como {ideas}', other: 'experimente {count} protocolos novos, como {ideas}' },
+  'narrative.action.volumeScore': 'movimente cerca de {usd} a mais em valor',
+  'narrative.action.recencyScore': { one: 'faça uma transação até amanhã', other: 'faça uma transação nos próximos {count} dias' },
+};
+
+export default pt;
@@ -0,0 +1,269 @@
+import type { Catalog } from "../services/i18n";
+
+const zh: Catalog = {
+  'layout.credit': '由 cryptobulla 开发',
+  'layout.language': '语言',
+
+  'app.title': '估算你的 Base 奖励',
+  'app.subtitle': '粘贴你的钱包地址、Basename 或 ENS 名称，查看你的活跃度评分。',
+  'app.viewerWallets': '@{username} 的钱包',
+  'app.yourWallets': '你的 Farcaster 钱包',
+  'app.walletKind.verified': '已验证',
+  'app.walletKind.custody': '托管',
+  'app.estimateAll': '将全部 {count} 个钱包合并估算',
+  'app.orEnterAny': '或输入任意钱包',
+  'app.walletLabel': '钱包地址 {index}',
+  'app.placeholder': '0x... 或 name.base.eth',
+  'app.removeWallet': '移除钱包 {index}',
+  'app.addWallet': '+ 添加另一个钱包',
+  'app.chain': '链',
+  'app.superchainHint': '合并上述所有主网的活动，并按链分别列出。',
+  'app.model': '评分模型',
+  'app.modelOption': '{name}（v{version}）',
+  'model.base-default.description': '均衡模型，偏重原始交易数量。',
+  'model.arbitrum-style.description': '奖励长期活跃和转移的价值，而非刷交易数量。',
+  'model.optimism-style.description': '奖励协议多样性以及近期的重复使用。',
+  'app.resolving': '正在检查地址...',
+  'app.checkBundle': '检查 {count} 个钱包组合',
+  'app.checkOne': '查看我的估算',
+  'app.loading': '正在检查你在 {chain} 上的活动...',
+
+  'resolve.malformed': '地址格式错误：应为 0x 后接 40 个十六进制字符。',
+  'resolve.checksum': '校验和不匹配：地址很可能有拼写错误。',
+  'resolve.unrecognized': '请输入 0x 地址、name.base.eth 形式的 Basename 或 ENS 名称。',
+  'resolve.invalidName': '“{input}”不是有效的名称。',
+  'resolve.noAddress': '{input} 没有设置地址。',
+  'resolve.lookupFailed': '暂时无法解析 {input}。',
+
+  'error.source.rpc': '链的 RPC 节点',
+  'error.source.txHistory': '区块浏览器',
+  'error.source.prices': '价格源',
+  'error.source.tokens': '代币余额查询',
+  'error.source.nfts': 'NFT 查询',
+  'error.source.unknown': '估算服务',
+  'error.timeout.title': '网络较慢',
+  'error.timeout.detail': '{who}响应超时，已重试所有节点。',
+  'error.rateLimited.title': '请求过多',
+  'error.rateLimited.detail': '{who}要求降低请求频率。请稍等一分钟再试。',
+  'error.unavailable.title': '数据源不可用',
+  'error.unavailable.detail': '无法连接{who}，因此没有可评分的数据。',
+  'error.badResponse.title': '数据无法读取',
+  'error.badResponse.detail': '{who}返回了无法读取的数据。',
+  'error.network.title': '你似乎处于离线状态',
+  'error.network.detail': '无法连接估算服务，请检查网络连接。',
+  'error.invalidInput.title': '请检查钱包',
+  'error.invalidInput.detail': '估算服务拒绝了此请求。',
+  'error.server.title': '出错了',
+  'error.server.detail': '目前无法估算你的奖励。',
+  'error.retry': '重试',
+  'error.startOver': '重新开始',
+
+  'gauge.score': '评分',
+  'gauge.range': '{low}–{high} · 估算',
+  'gauge.rangeTitle': '基于估算数据的范围',
+
+  'rewards.title': '模拟奖励',
+  'rewards.baseCase': '基准情形 {tokens}（{usd}）',
+  'rewards.statsBand': '由于数据为估算值，基准情形可能在 {low} 到 {high} 之间。',
+  'rewards.scenarios': '悲观情形将 {pool} 奖池减半，FDV 为 {bearFdv}；乐观情形奖池为 {bullPool}，FDV 为 {bullFdv}。',
+  'rewards.showSettings': '情景设置',
+  'rewards.hideSettings': '隐藏情景设置',
+  'rewards.poolSize': '奖池规模',
+  'rewards.poolOption': '{amount} 枚代币',
+  'rewards.curve': '分配曲线',
+  'rewards.fdv': '代币 FDV',
+  'rewards.supply': '假设总供应量为 {supply}，基准情形下每枚代币 {price}。',
+
+  'curve.linear': '线性',
+  'curve.linear.description': '模型自身的曲线，在各档之间插值。',
+  'curve.tiered': '分档',
+  'curve.tiered.description': '只有达成的档位才发放，类似按条件发放的空投。',
+  'curve.quadratic': '二次',
+  'curve.quadratic.description': '平滑曲线：份额随评分的平方增长，直至最高档。',
+  'curve.capped': '封顶',
+  'curve.capped.description': '每个钱包在 0.75 档封顶，类似 Arbitrum。',
+
+  'component.txScore': '交易数量',
+  'component.activeDaysScore': '活跃天数',
+  'component.protocolScore': '协议多样性',
+  'component.volumeScore': '转移价值',
+  'component.recencyScore': '近期活跃度',
+
+  'stat.txCount': '交易数',
+  'stat.activeDays': '活跃天数',
+  'stat.protocols': '协议数',
+  'stat.volumeUSD': '交易额',
+  'stat.recencyDays': '距上次交易天数',
+
+  'category.dex': 'DEX / 兑换',
+  'category.lending': '借贷',
+  'category.bridge': '跨链桥',
+  'category.nft': 'NFT',
+  'category.social': '社交与身份',
+
+
+  'result.bundleTitle': '组合分析',
+  'result.walletTitle': '钱包分析',
+  'result.liveData': '基于 {chain} 实时数据的模拟',
+  'result.estimated': '估算',
+  'result.weight': '权重：{weight}',
+  'result.walletLine': { other: '{count} 笔交易（{share}）· {volume}' },
+  'result.chainLine': '{txs} 笔交易 · {days} 天 · {volume}',
+  'result.alone': '单独计算 {rewards}',
+  'result.byChain': '按链',
+  'result.byChainNote': 'Superchain 评分合并了各链的活跃天数和协议。每一行是该链单独计算的评分。',
+  'result.contributions': '各钱包贡献',
+  'result.contributionsNote': '组合评分合并了 {count} 个钱包的活跃天数和协议。每一行是该钱包单独计算的评分。',
+  'result.assessment': '评估',
+  'result.via': '来自 {provider}',
+  'result.balance': '余额',
+  'result.txCount': '交易数',
+  'result.txCountTip': '来自 {chain} RPC 的原始交易数',
+  'result.volume': '估算交易额',
+  'result.volumeMeasured': '实测：{method}',
+  'volume.prices': '历史美元价格',
+  'volume.pricesPartial': { other: '历史美元价格（{count} 笔转账中有 {unpriced} 笔无价格）' },
+  'volume.tier.casual': '轻度（约 $15/次）',
+  'volume.tier.regular': '常规（约 $42/笔）',
+  'volume.tier.active': '活跃（约 $100/笔）',
+  'volume.tier.whale': '巨鲸（约 $500/笔）',
+  'volume.walletSum': '{count} 个钱包合计',
+  'volume.chainSum': '{count} 条链合计',
+  'result.volumeTipMeasured': '你的交易发送价值之和，按当时的美元价格计算',
+  'result.volumeTipModeled': '根据交易数和资产规模档位估算',
+  'result.activeDays': '活跃天数（累计）',
+  'result.activeDaysMeasured': '有有效交易的 UTC 天数',
+  'result.activeDaysModeled': '幂律模型估算',
+  'result.activeDaysTipMeasured': '至少有一笔有效交易的不同 UTC 日期数',
+  'result.activeDaysTipModeled': '根据交易数估算的活跃时长',
+  'result.protocols': '协议',
+  'result.protocolsMeasured': '使用过的不同协议',
+  'result.protocolsModeled': '根据多样性估算',
+  'result.chain': '链',
+  'result.chainsCombined': '合并 {count} 条链',
+  'result.breakdown': '评分明细',
+  'result.modelVersion': '{name} v{version}',
+  'result.improve': '如何提高评分',
+  'result.disclaimer': '免责声明：这是基于公开链上数据的模拟。{source}不构成投资建议。',
+  'result.disclaimerMeasured': '活跃度数据来自你的交易历史实测。',
+  'result.disclaimerModeled': '交易历史不可用，因此交易额和活跃天数是根据交易模式统计推算的。',
+  'result.share': '分享到 Farcaster',
+  'result.checkAnother': '查看其他钱包',
+  'result.shareBundle': '我的 {count} 钱包 {chain} 评分',
+  'result.shareWallet': '我的 {chain} 活跃度评分',
+  'result.shareText': '{subject}是 {score}/100，约值 {rewards} 枚模拟 BASE。查查你的：',
+
+  'footprint.title': '协议足迹',
+  'footprint.noneYet': '尚未使用，试试 {examples}',
+  'footprint.unlisted': { other: '另有 {count} 个未收录的合约（多为代币合约），不计为协议。' },
+
+  'sybil.high': '女巫风险高（{score}）',
+  'sybil.medium': '女巫风险中等（{score}）',
+  'sybil.intro': '真实空投会过滤刷量模式。此活动看起来部分是自动化的：',
+  'sybil.penalty': '此模型因此从你的评分中扣除了 {points} 分。',
+  'sybil.noPenalty': '此模型不做扣分，但真实发放可能会。',
+  'sybil.metronomic': '交易间隔非常均匀（{gaps} 个间隔的波动仅为 {spread}%）。',
+  'sybil.selfTransfers': '{count} 笔交易中有 {loops} 笔是自转账或粉尘转账。',
+  'sybil.singleProtocol': '{count} 次合约调用中有 {share}% 指向同一个合约。',
+  'sybil.fundingCluster': '首笔资金来自 {funder}，该地址还为另外 {count} 个钱包注资。',
+
+  'quality.title': '数据不完整',
+  'quality.rpc': '部分链上读取失败。',
+  'quality.txHistory': '至少一条链上的交易历史不可用，因此相关活跃度数据是根据交易数推算的。',
+  'quality.txHistoryPartial': '至少一条链上只读取到部分交易历史，因此部分活跃度数据根据交易数补全。',
+  'quality.prices': '部分转账没有美元价格，因此转移价值被低估。',
+  'quality.tokens': '无法读取代币余额；持仓仅显示 ETH。',
+  'quality.nfts': '无法加载 NFT 持仓。',
+
+  'portfolio.title': '资产组合',
+  'portfolio.empty': '跟踪的代币中没有余额。',
+  'portfolio.nfts': 'NFT',
+  'portfolio.noteNfts': '按今日价格计算跟踪的 Base 代币；NFT 仅列出，不计价。',
+  'portfolio.noteNoNfts': '按今日价格计算跟踪的 Base 代币；NFT 持仓不可用。',
+
+  'sim.open': '假如？模拟变化并规划下一档',
+  'sim.title': '假设模拟器',
+  'sim.reset': '重置',
+  'sim.score': '评分',
+  'sim.rewards': '奖励',
+  'sim.days': '{count} 天',
+  'sim.pathTitle': '通往下一档的路径',
+  'sim.topTier': '你已经在最高档。',
+  'sim.reach': '达到 {score}（约 {rewards} BASE）',
+  'sim.reachWith': '，需要：',
+  'sim.reachClosest': '——各项都会先达到上限；最接近的组合是：',
+  'sim.nextStep': '下一步的价值',
+  'sim.gain': '+{points} 分 · +{rewards} BASE',
+
+  'history.title': '历史',
+  'history.first': '这是你第一次使用此模型查询。稍后再来查看趋势。',
+  'history.checks': { other: '{count} 次查询' },
+  'history.since': '自 {date} 以来',
+  'history.score': '评分',
+  'history.rewards': '奖励',
+  'history.base': '{value} BASE',
+
+  'account.title': '我的钱包',
+  'account.connect': '连接钱包',
+  'account.connecting': '连接中…',
+  'account.noWallet': '未找到钱包。请在 Farcaster 或 Base 客户端中打开，或安装浏览器钱包。',
+  'account.check': '查询',
+  'account.signIn': '登录以保存历史',
+  'account.signingIn': '请在钱包中确认…',
+  'account.signInHint': '签署一条消息即可证明此钱包属于你。免费，且不会发送任何交易。',
+  'account.signedIn': '已登录 · 历史已保存',
+  'account.signOut': '退出登录',
+  'account.scoreAlerts': '评分变化时通知我',
+  'account.alertsNeedClient': '提醒以 Farcaster 通知的形式送达；请在 Farcaster 或 Base 客户端中打开应用以开启。',
+  'account.failed': '出错了：{error}',
+
+  'alert.title': '你的评分有变化',
+  'alert.body': '评分 {from} → {to}（{delta}）。点按查看变化。',
+
+  'og.title': '{chain} 奖励估算 · {wallet}',
+  'og.bundle': '{count} 钱包组合',
+  'og.score': '评分',
+  'og.footer': '模拟奖励 · {model} 模型',
+  'og.placeholder': '打开应用查看此评分',
+  'share.button': '查看你的评分',
+  'share.open': '打开结果',
+
+  'calendar.title': '每日活动',
+  'calendar.since': '自 {date} 起',
+  'calendar.cell': { other: '{date}：{count} 笔有效交易' },
+  'calendar.idle': '{date}：无有效交易',
+  'calendar.less': '少',
+  'calendar.more': '多',
+  'calendar.gapLegend': '影响近期活跃度的空档',
+  'calendar.weekly': '连续活跃周数',
+  'calendar.monthly': '连续活跃月数',
+  'calendar.weeks': { other: '{count} 周' },
+  'calendar.months': { other: '{count} 个月' },
+  'calendar.longest': '最长：{value}',
+  'calendar.gapsTitle': '影响近期活跃度的空档',
+  'calendar.noGaps': { other: '没有超过 {count} 天的空档，近期活跃度从未下降。' },
+  'calendar.gap': { other: '空闲 {count} 天 · {from} – {to}' },
+  'calendar.gapOpen': '进行中',
+  'calendar.gapRecency': '近期活跃度降至 {score}',
+
+  'narrative.wallet': '你的钱包',
+  'narrative.bundle': '你的 {count} 钱包组合',
+  'narrative.maxed': '{subject}在 {model} 模型的每一项上都达到了满分。',
+  'narrative.summary': '{subject}得分 {score}，{strongest}表现最好；{weakest}拖累最大（{points} 分）。',
+  'narrative.tierRoute': '你距离 {tier} 档还差 {points} 分（约 {reward} 枚代币）：{action}。',
+  'narrative.tierSpread': '你距离 {tier} 档还差 {points} 分（约 {reward} 枚代币）；需要多个方面同时提升。',
+  'narrative.componentTip': '{label}：{action}。',
+  'narrative.untouched': '你还没有在 Base 上使用过{category}；试试 {examples} 可以增加一个新类别。',
+  'narrative.modeled': '由于交易历史不可用，数据为估算值；稍后再查即可看到实测数据。',
+  'narrative.steady': '保持每周稳定的活跃节奏，守住你的评分。',
+  'narrative.or': '{first} 或 {second}',
+  'narrative.protocolIdea': '{protocol}（{category}）',
+  'narrative.action.txScore': { other: '再进行约 {count} 笔交易' },
+  'narrative.action.activeDaysScore': { other: '再在 {count} 个不同的日子保持活跃' },
+  'narrative.action.protocolScore': { other: '尝试 {count} 个新协议' },
+  'narrative.action.protocolScoreIdeas': { other: '尝试 {count} 个新协议，例如 {ideas}' },
+  'narrative.action.volumeScore': '再转移约 {usd} 的价值',
+  'narrative.action.recencyScore': { other: '在接下来的 {count} 天内进行一笔交易' },
+};
+
+export default zh;
@@ -0,0 +1,213 @@
+/**
+ * Estimate many wallets in one run, on the same pipeline as /api/estimate.
+ *
+ *   npm run batch -- wallets.txt [--format csv|jsonl] [--out results.csv] [--model base-default]
+ *                    [--chain base] [--concurrency 3] [--retries 2] [--no-narrative] [--lang en]
+ *
+ * Reads one wallet per line (0x address, Basename or ENS name; # comments allowed)
+ * from the file, or from stdin when the file is omitted or "-". Rows are written in
+ * input order as soon as they are ready; failures become rows with an error.
+ */
+import { createWriteStream, readFileSync } from "node:fs";
+import { Writable } from "node:stream";
+import { resolveWalletInput } from "../services/addressResolver";
+import { getRewardEstimate } from "../services/geminiService";
+import { DEFAULT_SCORING_MODEL, getScoringModel } from "../services/scoringModels";
+import { normalizeChainId } from "../services/chains";
+import { normalizeLocale, resolveLocale } from "../services/i18n";
+import { EstimationResult } from "../types";
+
+type Format = "csv" | "jsonl";
+
+function parseArgs(argv: string[]) {
+  const opts = {
+    input: "-",
+    format: "" as Format | "",
+    out: "",
+    model: DEFAULT_SCORING_MODEL.id,
+    chain: "base",
+    concurrency: 3,
+    retries: 2,
+    narrative: true,
+    lang: "en",
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--format") opts.format = argv[++i] as Format;
+    else if (arg === "--out") opts.out = argv[++i];
+    else if (arg === "--model") opts.model = argv[++i];
+    else if (arg === "--chain") opts.chain = argv[++i];
+    else if (arg === "--concurrency") opts.concurrency = Math.max(1, Number(argv[++i]) || 1);
+    else if (arg === "--retries") opts.retries = Math.max(0, Number(argv[++i]) || 0);
+    else if (arg === "--no-narrative") opts.narrative = false;
+    else if (arg === "--lang") opts.lang = argv[++i];
+    else opts.input = arg;
+  }
+  // Format follows the output file's extension unless given
+  const format: Format = opts.format || (opts.out.endsWith(".csv") ? "csv" : "jsonl");
+  if (format !== "csv" && format !== "jsonl") {
+    console.error(`Unknown format "${opts.format}": use csv or jsonl`);
+    process.exit(1);
+  }
+  return { ...opts, format };
+}
+
+interface Row {
+  input: string;
+  address: string | null;
+  name: string | null;
+  error: string | null;
+  result: EstimationResult | null;
+}
+
+const CSV_COLUMNS: [string, (row: Row) => string | number | null | undefined][] = [
+  ["input", (r) => r.input],
+  ["address", (r) => r.address],
+  ["name", (r) => r.name],
+  ["error", (r) => r.error],
+  ["chain", (r) => r.result?.chain],
+  ["model", (r) => r.result && `${r.result.scoringModel.id}@${r.result.scoringModel.version}`],
+  ["activityScore", (r) => r.result?.activityScore],
+  ["scoreLow", (r) => r.result?.uncertainty.finalScore.low],
+  ["scoreHigh", (r) => r.result?.uncertainty.finalScore.high],
+  ["estimatedRewards", (r) => r.result?.estimatedRewards],
+  ["rewardsBear", (r) => r.result?.rewardScenarios.bear.tokens],
+  ["rewardsBull", (r) => r.result?.rewardScenarios.bull.tokens],
+  ["usdBear", (r) => r.result?.rewardScenarios.bear.usd],
+  ["usdBase", (r) => r.result?.rewardScenarios.base.usd],
+  ["usdBull", (r) => r.result?.rewardScenarios.bull.usd],
+  ["txCount", (r) => r.result?.stats.txCount],
+  ["activeDays", (r) => r.result?.stats.activeDays],
+  ["protocols", (r) => r.result?.stats.protocols],
+  ["volumeUSD", (r) => r.result?.stats.volumeUSD],
+  ["recencyDays", (r) => r.result?.stats.recencyDays],
+  ["balance", (r) => r.result?.stats.balance],
+  ["statsSource", (r) => r.result?.stats.statsSource],
+  ["txScore", (r) => r.result?.scoreBreakdown.txScore],
+  ["activeDaysScore", (r) => r.result?.scoreBreakdown.activeDaysScore],
+  ["protocolScore", (r) => r.result?.scoreBreakdown.protocolScore],
+  ["volumeScore", (r) => r.result?.scoreBreakdown.volumeScore],
+  ["recencyScore", (r) => r.result?.scoreBreakdown.recencyScore],
+  ["sybilPenalty", (r) => r.result?.scoreBreakdown.sybilPenalty],
+  ["finalScore", (r) => r.result?.scoreBreakdown.finalScore],
+  ["sybilRisk", (r) => r.result?.sybilRisk?.score],
+];
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatRow = (row: Row, format: Format) => {
+  if (format === "csv") return CSV_COLUMNS.map(([, get]) => csvCell(get(row))).join(",");
+  const r = row.result;
+  return JSON.stringify({
+    input: row.input,
+    address: row.address,
+    name: row.name,
+    error: row.error,
+    ...(r && {
+      chain: r.chain,
+      scoringModel: r.scoringModel,
+      activityScore: r.activityScore,
+      estimatedRewards: r.estimatedRewards,
+      rewardScenarios: r.rewardScenarios,
+      stats: r.stats,
+      scoreBreakdown: r.scoreBreakdown,
+      sybilRisk: r.sybilRisk,
+      explanation: r.explanation,
+      suggestions: r.suggestions,
+      narrativeProvider: r.narrativeProvider,
+    }),
+  });
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Transient RPC/explorer failures are the common case; back off 1s, 2s, 4s...
+// `softError` picks out results that report a transient failure instead of throwing.
+async function withRetry<T>(
+  retries: number,
+  label: string,
+  fn: () => Promise<T>,
+  softError: (value: T) => string | null = () => null
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let reason: unknown;
+    try {
+      const value = await fn();
+      reason = softError(value);
+      if (reason === null || attempt >= retries) return value;
+    } catch (e) {
+      if (attempt >= retries) throw e;
+      reason = e instanceof Error ? e.message : e;
+    }
+    console.error(`${label}: attempt ${attempt + 1} failed, retrying`, reason);
+    await sleep(1000 * 2 ** attempt);
+  }
+}
+
+async function estimateOne(input: string, opts: ReturnType<typeof parseArgs>): Promise<Row> {
+  // Name lookups report outages as a result, not an exception
+  const resolved = await withRetry(opts.retries, input, () => resolveWalletInput(input),
+    (r) => (!r.ok && r.reason === "lookupFailed" ? r.error : null));
+  if (!resolved.ok) return { input, address: null, name: null, error: resolved.error, result: null };
+  try {
+    const result = await withRetry(opts.retries, input, () =>
+      getRewardEstimate(resolved.address, getScoringModel(opts.model), { narrative: opts.narrative, chain: opts.chain, locale: resolveLocale([opts.lang]) })
+    );
+    return { input, address: resolved.address, name: resolved.name ?? result.names[resolved.address] ?? null, error: null, result };
+  } catch (e) {
+    return { input, address: resolved.address, name: resolved.name, error: e instanceof Error ? e.message : String(e), result: null };
+  }
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (getScoringModel(opts.model).id !== opts.model) console.error(`Unknown model "${opts.model}", using ${getScoringModel(opts.model).id}`);
+  if (normalizeChainId(opts.chain) !== opts.chain) console.error(`Unknown chain "${opts.chain}", using ${normalizeChainId(opts.chain)}`);
+  if (!normalizeLocale(opts.lang)) console.error(`Unknown language "${opts.lang}", using English`);
+
+  const text = readFileSync(opts.input === "-" ? 0 : opts.input, "utf8");
+  const inputs = text.split(/\r?\n/).map((l) => l.replace(/#.*/, "").trim()).filter(Boolean);
+  if (inputs.length === 0) {
+    console.error("No wallets to estimate.");
+    process.exit(1);
+  }
+
+  const out: Writable = opts.out ? createWriteStream(opts.out) : process.stdout;
+  if (opts.format === "csv") out.write(`${CSV_COLUMNS.map(([name]) => name).join(",")}\n`);
+
+  // Finished rows wait here until every earlier row is written, so output keeps input order
+  const done = new Map<number, Row>();
+  let written = 0;
+  let failed = 0;
+  const flush = () => {
+    while (done.has(written)) {
+      out.write(`${formatRow(done.get(written)!, opts.format)}\n`);
+      done.delete(written++);
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++;
+      const row = await estimateOne(inputs[index], opts);
+      if (row.error) failed++;
+      done.set(index, row);
+      flush();
+      console.error(`${written}/${inputs.length} written${row.error ? ` (${row.input}: ${row.error})` : ""}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(opts.concurrency, inputs.length) }, worker));
+
+  if (out !== process.stdout) await new Promise<void>((resolve) => out.end(resolve));
+  console.error(`Done: ${inputs.length - failed} estimated, ${failed} failed`);
+  if (failed === inputs.length) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+/**
+ * Backtest a scoring model against past airdrop allocations, and optionally fit a new preset.
+ *
+ *   npm run calibrate -- dataset.json [--model base-default|preset.json] [--fit] [--out preset.ts|preset.json] [--iterations 2000] [--seed 1]
+ *
+ * The dataset is a CalibrationDataset (services/calibration.ts):
+ *   {
+ *     "airdrops": { "arbitrum": { "pool": 1162000000, "chainDays": 650 } },
+ *     "wallets": [
+ *       { "address": "0x…", "airdrop": "arbitrum", "allocation": 1250,
+ *         "stats": { "txCount": 310, "activeDays": 42, "protocols": 9, "volumeUSD": 18400, "recencyDays": 3 },
+ *         "portfolioUsd": 5200 }
+ *     ]
+ *   }
+ * `portfolioUsd` is optional; wallets that have it also backtest the modeled-stats estimator.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { CalibrationDataset, CalibrationReport, evaluateModel, fitModel } from "../services/calibration";
+import { SCORING_MODELS, getScoringModel } from "../services/scoringModels";
+import { ScoringModel } from "../types";
+
+function parseArgs(argv: string[]) {
+  const opts = { input: "", model: SCORING_MODELS[0].id, fit: false, out: "", iterations: 2000, seed: 1 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--model") opts.model = argv[++i];
+    else if (arg === "--fit") opts.fit = true;
+    else if (arg === "--out") opts.out = argv[++i];
+    else if (arg === "--iterations") opts.iterations = Number(argv[++i]) || opts.iterations;
+    else if (arg === "--seed") opts.seed = Number(argv[++i]) || opts.seed;
+    else opts.input = arg;
+  }
+  if (!opts.input) {
+    console.error("Usage: npm run calibrate -- <dataset.json> [--model id|preset.json] [--fit] [--out preset.ts|preset.json] [--iterations n] [--seed n]");
+    process.exit(1);
+  }
+  return opts;
+}
+
+function printReport(title: string, report: CalibrationReport) {
+  console.log(`\n== ${title} ==`);
+  console.log(`Wallets: ${report.wallets}`);
+  console.log(`Reward MAE: ${report.rewardMae.toLocaleString("en-US")} simulated tokens`);
+  console.log(`Rank correlation (Spearman): ${report.rankCorrelation}`);
+  for (const a of report.perAirdrop) {
+    console.log(`  ${a.airdrop}: ${a.wallets} wallets, MAE ${a.rewardMae.toLocaleString("en-US")}, Spearman ${a.rankCorrelation}`);
+  }
+
+  console.log(`Tier confusion (rows: actual, columns: predicted), accuracy ${(report.tierAccuracy * 100).toFixed(1)}%`);
+  const labels = report.tiers.map((t) => t.toFixed(2).padStart(6));
+  console.log(`        ${labels.join("")}`);
+  report.confusion.forEach((row, i) => console.log(`${labels[i]}  ${row.map((n) => String(n).padStart(6)).join("")}`));
+
+  if (report.estimator) {
+    const e = report.estimator;
+    console.log(`Modeled-stats estimator (${e.wallets} wallets): active days MAE ${e.activeDaysMae}, protocols MAE ${e.protocolsMae}, ` +
+      `recency MAE ${e.recencyMae} days, volume off by ${e.volumeLogMae} orders of magnitude on average`);
+  }
+}
+
+// Same shape as the presets in services/scoringModels.ts, so it can be pasted in
+const toPresetSource = (model: ScoringModel) => {
+  const name = model.id.replace(/[^a-z0-9]+/gi, "_").toUpperCase();
+  return `import { ScoringModel } from "../types";\n\nexport const ${name}_MODEL: ScoringModel = ${JSON.stringify(model, null, 2)};\n`;
+};
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const dataset: CalibrationDataset = JSON.parse(await readFile(opts.input, "utf8"));
+  // A JSON preset from an earlier --fit can be backtested on held-out wallets
+  const base: ScoringModel = opts.model.endsWith(".json")
+    ? JSON.parse(await readFile(opts.model, "utf8"))
+    : getScoringModel(opts.model);
+  if (!opts.model.endsWith(".json") && base.id !== opts.model) console.error(`Unknown model "${opts.model}", using ${base.id}`);
+
+  printReport(`${base.name} v${base.version}`, evaluateModel(dataset, base));
+  if (!opts.fit) return;
+
+  const fitted = fitModel(dataset, base, { iterations: opts.iterations, seed: opts.seed });
+  // In-sample numbers: fit on part of the data with --out preset.json, then backtest the rest with --model preset.json
+  printReport(`${fitted.name} (in-sample)`, evaluateModel(dataset, fitted));
+
+  const source = opts.out.endsWith(".json") ? `${JSON.stringify(fitted, null, 2)}\n` : toPresetSource(fitted);
+  if (opts.out) {
+    await writeFile(opts.out, source);
+    console.log(`\nWrote preset to ${opts.out}`);
+  } else {
+    console.log(`\n${source}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+import { ActivityCalendar, ActivityGap, RawTx, ScoringModel, Streak } from "../types";
+import { computeScores } from "./scoringUtils";
+import { computeDailyTxCountsFromTxs, utcDateString } from "./txStats";
+
+const DAY_SECONDS = 86_400;
+// Past the top few, gaps are just noise in the list
+const MAX_GAPS = 5;
+
+// Days since the Unix epoch, so consecutive days differ by 1
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000 / DAY_SECONDS);
+const dateOf = (day: number) => utcDateString(day * DAY_SECONDS);
+
+// Day 0 (1970-01-01) was a Thursday; shifting by 3 makes weeks start on Monday
+const weekOf = (day: number) => Math.floor((day + 3) / 7);
+const monthOf = (day: number) => {
+  const d = new Date(day * DAY_SECONDS * 1000);
+  return d.getUTCFullYear() * 12 + d.getUTCMonth();
+};
+
+const streakOf = (periods: Set<number>, current: number): Streak => {
+  let longest = 0;
+  let run = 0;
+  let previous = NaN;
+  for (const period of [...periods].sort((a, b) => a - b)) {
+    run = period === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = period;
+  }
+  // The current period still has time to become active
+  let cursor = periods.has(current) ? current : current - 1;
+  let count = 0;
+  while (periods.has(cursor--)) count++;
+  return { current: count, longest };
+};
+
+// Recency only, through the model's own curve
+const recencyAfter = (idleDays: number, model: ScoringModel) =>
+  computeScores(0, 0, 0, 0, idleDays, model).recencyScore;
+
+/**
+ * Daily meaningful-tx counts since the first active day, with weekly/monthly
+ * streaks and the idle spells that outlasted the model's recency grace window.
+ * Undefined when there is no meaningful activity to draw.
+ */
+export const buildActivityCalendar = (
+  rawTxs: RawTx[],
+  model: ScoringModel,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): ActivityCalendar | undefined => {
+  const days = computeDailyTxCountsFromTxs(rawTxs);
+  const active = Object.keys(days).map(dayNumber).sort((a, b) => a - b);
+  if (active.length === 0) return undefined;
+  const today = Math.floor(nowSeconds / DAY_SECONDS);
+  const grace = model.curves.recencyGraceDays;
+
+  const gaps: ActivityGap[] = [];
+  const addGap = (lastActive: number, idleUntil: number, open: boolean) => {
+    const idle = idleUntil - lastActive;
+    if (idle <= grace) return;
+    gaps.push({ from: dateOf(lastActive + 1), to: dateOf(idleUntil), days: idle, recencyScore: recencyAfter(idle, model), open });
+  };
+  for (let i = 1; i < active.length; i++) addGap(active[i - 1], active[i] - 1, false);
+  addGap(active[active.length - 1], today, true);
+  gaps.sort((a, b) => Number(b.open) - Number(a.open) || b.days - a.days);
+
+  return {
+    firstDay: dateOf(active[0]),
+    today: dateOf(today),
+    days,
+    streaks: {
+      weekly: streakOf(new Set(active.map(weekOf)), weekOf(today)),
+      monthly: streakOf(new Set(active.map(monthOf)), monthOf(today)),
+    },
+    gaps: gaps.slice(0, MAX_GAPS),
+  };
+};
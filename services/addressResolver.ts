@@ -0,0 +1,114 @@
+import { Contract, JsonRpcProvider, ZeroAddress, ensNormalize, getAddress, namehash } from "ethers";
+import { DEFAULT_CHAIN } from "./chains";
+import { getRpcProvider } from "./rpcProvider";
+
+const MAINNET_RPC_URL = "https://ethereum-rpc.publicnode.com";
+
+// Basenames live in their own registry on Base, not in mainnet ENS
+const BASENAME_REGISTRY = "0xb94704422c2a1e396835a571837aa5ae53285a95";
+const BASENAME_L2_RESOLVER = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD";
+// ENSIP-11 coin type for Base (0x80000000 | 8453), used for the reverse namespace
+const BASE_REVERSE_NAMESPACE = "80002105.reverse";
+
+const registryAbi = ["function resolver(bytes32 node) view returns (address)"];
+const resolverAbi = [
+  "function addr(bytes32 node) view returns (address)",
+  "function name(bytes32 node) view returns (string)",
+];
+
+// Why input could not be resolved; the UI words it per locale, `error` is the English text
+export type ResolveFailure = 'malformed' | 'checksum' | 'unrecognized' | 'invalidName' | 'noAddress' | 'lookupFailed';
+
+export type ResolvedWallet =
+  | { ok: true; input: string; address: string; name: string | null }
+  | { ok: false; input: string; reason: ResolveFailure; error: string };
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// Basenames share the Base provider with the rest of the pipeline; ENS needs L1.
+// A static network skips the eth_chainId probe ethers would otherwise send first.
+const baseProvider = () => getRpcProvider(DEFAULT_CHAIN);
+const mainnetProvider = new JsonRpcProvider(MAINNET_RPC_URL, 1, { staticNetwork: true });
+
+async function resolveBasename(name: string): Promise<string | null> {
+  const node = namehash(name);
+  const registry = new Contract(BASENAME_REGISTRY, registryAbi, baseProvider());
+  const resolverAddress: string = await registry.resolver(node);
+  if (resolverAddress === ZeroAddress) return null;
+
+  const resolver = new Contract(resolverAddress, resolverAbi, baseProvider());
+  const address: string = await resolver.addr(node);
+  return address === ZeroAddress ? null : address;
+}
+
+async function lookupBasename(address: string): Promise<string | null> {
+  const node = namehash(`${address.slice(2).toLowerCase()}.${BASE_REVERSE_NAMESPACE}`);
+  const resolver = new Contract(BASENAME_L2_RESOLVER, resolverAbi, baseProvider());
+  const name: string = await resolver.name(node);
+  if (!name) return null;
+
+  // A reverse record is only trustworthy if the name points back at the address
+  const forward = await resolveBasename(name);
+  return forward && forward.toLowerCase() === address.toLowerCase() ? name : null;
+}
+
+/**
+ * Reverse-resolve an address to its primary Basename, falling back to ENS.
+ * Never throws: a missing name is not an error.
+ */
+export const lookupName = async (address: string): Promise<string | null> => {
+  try {
+    const basename = await lookupBasename(address);
+    if (basename) return basename;
+  } catch (e) {
+    console.error("Basename reverse lookup failed", e);
+  }
+  try {
+    return await mainnetProvider.lookupAddress(address);
+  } catch (e) {
+    console.error("ENS reverse lookup failed", e);
+    return null;
+  }
+};
+
+/**
+ * Turn user input (0x address, name.base.eth or ENS name) into a checksummed address.
+ * Errors are returned, not thrown, so the form can show them next to the right field.
+ */
+export const resolveWalletInput = async (raw: string): Promise<ResolvedWallet> => {
+  const input = raw.trim();
+
+  if (input.startsWith("0x") || input.startsWith("0X")) {
+    if (!HEX_ADDRESS.test(input)) {
+      return { ok: false, input, reason: 'malformed', error: "Malformed address: expected 0x followed by 40 hex characters." };
+    }
+    try {
+      return { ok: true, input, address: getAddress(input), name: null };
+    } catch {
+      // Mixed-case input carries an EIP-55 checksum; a mismatch almost always means a typo
+      return { ok: false, input, reason: 'checksum', error: "Checksum mismatch: this address likely has a typo." };
+    }
+  }
+
+  if (!input.includes(".")) {
+    return { ok: false, input, reason: 'unrecognized', error: "Enter a 0x address, a name.base.eth Basename or an ENS name." };
+  }
+
+  let name: string;
+  try {
+    name = ensNormalize(input);
+  } catch {
+    return { ok: false, input, reason: 'invalidName', error: `"${input}" is not a valid name.` };
+  }
+
+  try {
+    const address = name.endsWith(".base.eth")
+      ? await resolveBasename(name)
+      : await mainnetProvider.resolveName(name);
+    if (!address) return { ok: false, input, reason: 'noAddress', error: `No address is set for ${name}.` };
+    return { ok: true, input, address: getAddress(address), name };
+  } catch (e) {
+    console.error("Name resolution failed", e);
+    return { ok: false, input, reason: 'lookupFailed', error: `Could not resolve ${name} right now.` };
+  }
+};
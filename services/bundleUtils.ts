@@ -0,0 +1,87 @@
+import { DataIssue, Portfolio, RawTx, SybilRisk, VolumeMethod, WalletStats } from "../types";
+import { mergePortfolios } from "./portfolio";
+import { mergeIssues } from "./dataErrors";
+import { mergeIntervals } from "./uncertainty";
+import { HistoryCoverage } from "./txHistory";
+import {
+  computeActiveDaysFromTxs,
+  computeProtocolsFromTxs,
+  computeRecencyDaysFromTxs,
+  computeVolumeFromTxs,
+} from "./txStats";
+
+export interface WalletData {
+  address: string;
+  name: string | null;
+  stats: WalletStats;
+  rawTxs?: RawTx[];
+  coverage?: HistoryCoverage; // of rawTxs; a merge is full only when every part is
+  portfolio: Portfolio;
+  sybilRisk: SybilRisk | null;
+  issues: DataIssue[]; // sources that failed while collecting this wallet
+}
+
+// The parts of a wallet's data that can be combined: across wallets, across chains, or both
+export type MergeableData = Omit<WalletData, 'address' | 'name'>;
+
+// A transfer between two bundled wallets shows up in both histories. EIP-155 signs the
+// chain id into every tx, so a hash alone identifies it across chains too.
+const uniqueTxs = (txs: RawTx[]) => {
+  const seen = new Set<string>();
+  return txs.filter((tx) => {
+    const key = tx.hash.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Combine several wallets into one bundle.
+ * With full history we merge the underlying sets (a day active on two wallets counts once,
+ * a protocol used from two wallets counts once). Modeled wallets have no sets to merge,
+ * so we take the largest wallet's figure as a conservative lower bound.
+ */
+export const mergeWalletData = (
+  wallets: MergeableData[],
+  volumeMethod: VolumeMethod = { key: 'walletSum', count: wallets.length }
+): MergeableData => {
+  const allMeasured = wallets.every((w) => w.stats.statsSource === 'measured' && w.rawTxs);
+  const rawTxs = allMeasured ? uniqueTxs(wallets.flatMap((w) => w.rawTxs ?? [])) : undefined;
+  const sum = (pick: (s: WalletStats) => number) => wallets.reduce((acc, w) => acc + pick(w.stats), 0);
+  const max = (pick: (s: WalletStats) => number) => Math.max(...wallets.map((w) => pick(w.stats)));
+
+  const merged = {
+    txCount: sum((s) => s.txCount),
+    activeDays: rawTxs ? computeActiveDaysFromTxs(rawTxs) : max((s) => s.activeDays),
+    volumeUSD: rawTxs ? Math.round(computeVolumeFromTxs(rawTxs)) : sum((s) => s.volumeUSD),
+    protocols: rawTxs ? computeProtocolsFromTxs(rawTxs) : max((s) => s.protocols),
+    recencyDays: rawTxs
+      ? computeRecencyDaysFromTxs(rawTxs)
+      : Math.min(...wallets.map((w) => w.stats.recencyDays)),
+  };
+
+  const stats: WalletStats = {
+    ...merged,
+    balance: sum((s) => parseFloat(s.balance)).toFixed(4),
+    volumeMethod,
+    statsSource: allMeasured ? 'measured' : 'modeled',
+    historySource: allMeasured ? 'bundle' : null,
+    // Union-type stats are exact only when recomputed from the merged history
+    intervals: mergeIntervals(wallets.map((w) => w.stats.intervals), merged, allMeasured),
+  };
+
+  // Bot patterns don't average out: the riskiest wallet speaks for the bundle
+  const sybilRisk = wallets
+    .map((w) => w.sybilRisk)
+    .reduce<SybilRisk | null>((worst, r) => (r && (!worst || r.score > worst.score) ? r : worst), null);
+
+  return {
+    stats,
+    rawTxs,
+    coverage: rawTxs ? wallets.find((w) => w.coverage !== 'full')?.coverage ?? 'full' : undefined,
+    portfolio: mergePortfolios(wallets.map((w) => w.portfolio)),
+    sybilRisk,
+    issues: mergeIssues(wallets.flatMap((w) => w.issues)),
+  };
+};
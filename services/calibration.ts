@@ -0,0 +1,240 @@
+import { RewardCurvePoint, ScoreComponent, ScoringModel } from "../types";
+import { POOL_SIZE, computeScores, mapScoreToRewards, rewardCurveFor } from "./scoringUtils";
+import { SimStats } from "./tierPlanner";
+import { deriveStats } from "./geminiService";
+
+// A wallet from a past airdrop: what it had done by the snapshot, and what it received
+export interface CalibrationWallet {
+  address: string;
+  airdrop: string; // key into CalibrationDataset.airdrops
+  allocation: number; // tokens received
+  stats: SimStats; // measured at the airdrop snapshot
+  portfolioUsd?: number; // holdings at the snapshot; enables backtesting deriveStats
+  sybilRisk?: number; // 0..1, when known
+}
+
+export interface CalibrationDataset {
+  // pool: tokens distributed to wallets; chainDays: chain age at the snapshot
+  airdrops: Record<string, { pool: number; chainDays: number }>;
+  wallets: CalibrationWallet[];
+}
+
+export interface CalibrationReport {
+  wallets: number;
+  rewardMae: number; // simulated tokens, after normalising each airdrop to POOL_SIZE
+  rankCorrelation: number; // Spearman, predicted vs actual share of pool
+  perAirdrop: { airdrop: string; wallets: number; rewardMae: number; rankCorrelation: number }[];
+  tiers: number[]; // reward-curve breakpoint scores, the confusion matrix's labels
+  confusion: number[][]; // [actual tier][predicted tier]
+  tierAccuracy: number;
+  // deriveStats against measured stats; null when no wallet has portfolioUsd
+  estimator: { wallets: number; activeDaysMae: number; protocolsMae: number; recencyMae: number; volumeLogMae: number } | null;
+}
+
+const COMPONENTS: ScoreComponent[] = ['txScore', 'activeDaysScore', 'protocolScore', 'volumeScore', 'recencyScore'];
+
+const mean = (values: number[]) => values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+// Ranks with ties averaged, as Spearman needs
+function ranks(values: number[]) {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    for (let k = i; k <= j; k++) out[order[k][1]] = (i + j) / 2;
+    i = j + 1;
+  }
+  return out;
+}
+
+export const spearman = (a: number[], b: number[]) => {
+  if (a.length < 2) return 0;
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const ma = mean(ra);
+  const mb = mean(rb);
+  let cov = 0, va = 0, vb = 0;
+  for (let i = 0; i < ra.length; i++) {
+    cov += (ra[i] - ma) * (rb[i] - mb);
+    va += (ra[i] - ma) ** 2;
+    vb += (rb[i] - mb) ** 2;
+  }
+  return va === 0 || vb === 0 ? 0 : cov / Math.sqrt(va * vb);
+};
+
+// What each wallet received, in simulated tokens of our POOL_SIZE pool
+const actualRewards = (dataset: CalibrationDataset) =>
+  dataset.wallets.map((w) => {
+    const airdrop = dataset.airdrops[w.airdrop];
+    if (!airdrop) throw new Error(`Wallet ${w.address} references unknown airdrop "${w.airdrop}"`);
+    return (w.allocation / airdrop.pool) * POOL_SIZE;
+  });
+
+const finalScores = (dataset: CalibrationDataset, model: ScoringModel) =>
+  dataset.wallets.map(({ stats, sybilRisk }) =>
+    computeScores(stats.txCount, stats.activeDays, stats.protocols, stats.volumeUSD, stats.recencyDays, model, sybilRisk).finalScore
+  );
+
+// Highest breakpoint at or below the value
+const tierIndex = (thresholds: number[], value: number) => {
+  let tier = 0;
+  thresholds.forEach((t, i) => { if (value >= t) tier = i; });
+  return tier;
+};
+
+function estimatorErrors(dataset: CalibrationDataset): CalibrationReport['estimator'] {
+  const rows = dataset.wallets.filter((w) => w.portfolioUsd !== undefined);
+  if (rows.length === 0) return null;
+  const errors = rows.map((w) => {
+    const est = deriveStats(w.stats.txCount, w.portfolioUsd!, dataset.airdrops[w.airdrop].chainDays);
+    return {
+      activeDays: Math.abs(est.activeDays - w.stats.activeDays),
+      protocols: Math.abs(est.protocols - w.stats.protocols),
+      recency: Math.abs(est.recencyDays - w.stats.recencyDays),
+      // Volume spans six orders of magnitude; error in decades is the readable unit
+      volumeLog: Math.abs(Math.log10(est.volumeUSD + 1) - Math.log10(w.stats.volumeUSD + 1)),
+    };
+  });
+  return {
+    wallets: rows.length,
+    activeDaysMae: round(mean(errors.map((e) => e.activeDays)), 1),
+    protocolsMae: round(mean(errors.map((e) => e.protocols)), 1),
+    recencyMae: round(mean(errors.map((e) => e.recency)), 1),
+    volumeLogMae: round(mean(errors.map((e) => e.volumeLog)), 2),
+  };
+}
+
+/**
+ * Backtest a model: score every wallet from its snapshot stats, map to rewards
+ * with the model's curve and compare with what it actually received.
+ */
+export const evaluateModel = (dataset: CalibrationDataset, model: ScoringModel): CalibrationReport => {
+  const curve = rewardCurveFor(model);
+  const actual = actualRewards(dataset);
+  const scores = finalScores(dataset, model);
+  const predicted = scores.map((s) => mapScoreToRewards(s, curve));
+
+  const scoreTiers = curve.map((p) => p.score);
+  const rewardTiers = curve.map((p) => p.pct * POOL_SIZE);
+  const confusion = curve.map(() => curve.map(() => 0));
+  scores.forEach((s, i) => confusion[tierIndex(rewardTiers, actual[i])][tierIndex(scoreTiers, s)]++);
+
+  const perAirdrop = Object.keys(dataset.airdrops).flatMap((airdrop) => {
+    const idx = dataset.wallets.flatMap((w, i) => (w.airdrop === airdrop ? [i] : []));
+    if (idx.length === 0) return [];
+    return [{
+      airdrop,
+      wallets: idx.length,
+      rewardMae: Math.round(mean(idx.map((i) => Math.abs(predicted[i] - actual[i])))),
+      rankCorrelation: round(spearman(idx.map((i) => predicted[i]), idx.map((i) => actual[i])), 3),
+    }];
+  });
+
+  return {
+    wallets: dataset.wallets.length,
+    rewardMae: Math.round(mean(predicted.map((p, i) => Math.abs(p - actual[i])))),
+    rankCorrelation: round(spearman(predicted, actual), 3),
+    perAirdrop,
+    tiers: scoreTiers,
+    confusion,
+    tierAccuracy: round(confusion.reduce((sum, row, i) => sum + row[i], 0) / Math.max(dataset.wallets.length, 1), 3),
+    estimator: estimatorErrors(dataset),
+  };
+};
+
+// Seeded PRNG so a fit is reproducible from its seed
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Weights decide the ordering, so fit them for rank correlation: move a slice of
+ * weight from one component to another and keep the move when Spearman improves.
+ */
+function fitWeights(dataset: CalibrationDataset, model: ScoringModel, iterations: number, random: () => number) {
+  const actual = actualRewards(dataset);
+  let weights = { ...model.weights };
+  let best = spearman(finalScores(dataset, { ...model, weights }), actual);
+  for (let i = 0; i < iterations; i++) {
+    const from = COMPONENTS[Math.floor(random() * COMPONENTS.length)];
+    const to = COMPONENTS[Math.floor(random() * COMPONENTS.length)];
+    const step = Math.min(weights[from], 0.01 + random() * 0.09);
+    if (from === to || step <= 0) continue;
+    const candidate = { ...weights, [from]: weights[from] - step, [to]: weights[to] + step };
+    const fit = spearman(finalScores(dataset, { ...model, weights: candidate }), actual);
+    if (fit > best) {
+      best = fit;
+      weights = candidate;
+    }
+  }
+  return weights;
+}
+
+/**
+ * With scores fixed, fit each breakpoint's share of the pool for reward MAE.
+ * Coordinate descent in multiplicative steps, keeping the curve non-decreasing.
+ */
+function fitBreakpoints(scores: number[], actual: number[], start: RewardCurvePoint[]) {
+  const curve = start.map((p) => ({ ...p }));
+  const mae = () => mean(scores.map((s, i) => Math.abs(mapScoreToRewards(s, curve) - actual[i])));
+  let best = mae();
+  for (let pass = 0; pass < 50; pass++) {
+    let improved = false;
+    for (let i = 1; i < curve.length; i++) {
+      for (const factor of [0.5, 0.8, 0.95, 1.05, 1.25, 2]) {
+        const previous = curve[i].pct;
+        const next = previous * factor;
+        if (next < curve[i - 1].pct || (i + 1 < curve.length && next > curve[i + 1].pct)) continue;
+        curve[i].pct = next;
+        const fit = mae();
+        if (fit < best) {
+          best = fit;
+          improved = true;
+        } else {
+          curve[i].pct = previous;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return curve.map((p) => ({ score: p.score, pct: parseFloat(p.pct.toPrecision(3)) }));
+}
+
+// Two-decimal weights that still sum to exactly 1: the rounding remainder goes to the largest
+function roundWeights(weights: Record<ScoreComponent, number>) {
+  const rounded = Object.fromEntries(COMPONENTS.map((c) => [c, round(weights[c], 2)])) as Record<ScoreComponent, number>;
+  const largest = COMPONENTS.reduce((a, b) => (rounded[a] >= rounded[b] ? a : b));
+  rounded[largest] = round(rounded[largest] + 1 - COMPONENTS.reduce((sum, c) => sum + rounded[c], 0), 2);
+  return rounded;
+}
+
+/**
+ * Fit weights, then reward breakpoints, starting from `base`. Curves and the
+ * sybil penalty are kept; the result is a new preset ready for scoringModels.ts.
+ */
+export const fitModel = (
+  dataset: CalibrationDataset,
+  base: ScoringModel,
+  { iterations = 2000, seed = 1, id = `${base.id}-calibrated` }: { iterations?: number; seed?: number; id?: string } = {}
+): ScoringModel => {
+  if (dataset.wallets.length < 2) throw new Error("Calibration needs at least two wallets");
+  const weights = roundWeights(fitWeights(dataset, base, iterations, mulberry32(seed)));
+  const fitted = { ...base, weights };
+  const rewardCurve = fitBreakpoints(finalScores(dataset, fitted), actualRewards(dataset), rewardCurveFor(base));
+  return {
+    ...fitted,
+    id,
+    version: '1.0.0',
+    name: `${base.name} (calibrated)`,
+    description: `Fitted to ${dataset.wallets.length} wallets from ${Object.keys(dataset.airdrops).join(', ')}.`,
+    rewardCurve,
+  };
+};
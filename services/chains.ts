@@ -0,0 +1,88 @@
+export interface ChainConfig {
+  id: string;
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  fallbackRpcUrls?: string[]; // public endpoints tried when rpcUrl fails
+  explorerApiUrl: string; // Etherscan-compatible Blockscout API
+  launchedAt: string; // UTC date public mainnet (or testnet) opened
+  testnet?: boolean;
+}
+
+// OP Stack chains share one tx format and 2s blocks, so every pipeline stage works unchanged
+export const CHAINS: ChainConfig[] = [
+  {
+    id: 'base',
+    chainId: 8453,
+    name: 'Base',
+    rpcUrl: 'https://mainnet.base.org',
+    fallbackRpcUrls: ['https://base-rpc.publicnode.com', 'https://base.llamarpc.com'],
+    explorerApiUrl: 'https://base.blockscout.com/api',
+    launchedAt: '2023-08-09',
+  },
+  {
+    id: 'optimism',
+    chainId: 10,
+    name: 'OP Mainnet',
+    rpcUrl: 'https://mainnet.optimism.io',
+    fallbackRpcUrls: ['https://optimism-rpc.publicnode.com', 'https://optimism.llamarpc.com'],
+    explorerApiUrl: 'https://optimism.blockscout.com/api',
+    launchedAt: '2021-12-16',
+  },
+  {
+    id: 'zora',
+    chainId: 7777777,
+    name: 'Zora',
+    rpcUrl: 'https://rpc.zora.energy',
+    fallbackRpcUrls: ['https://zora.drpc.org'],
+    explorerApiUrl: 'https://explorer.zora.energy/api',
+    launchedAt: '2023-06-21',
+  },
+  {
+    id: 'mode',
+    chainId: 34443,
+    name: 'Mode',
+    rpcUrl: 'https://mainnet.mode.network',
+    fallbackRpcUrls: ['https://mode.drpc.org'],
+    explorerApiUrl: 'https://explorer.mode.network/api',
+    launchedAt: '2024-01-31',
+  },
+  {
+    id: 'base-sepolia',
+    chainId: 84532,
+    name: 'Base Sepolia',
+    rpcUrl: 'https://sepolia.base.org',
+    fallbackRpcUrls: ['https://base-sepolia-rpc.publicnode.com'],
+    explorerApiUrl: 'https://base-sepolia.blockscout.com/api',
+    launchedAt: '2023-09-26',
+    testnet: true,
+  },
+];
+
+export const DEFAULT_CHAIN = CHAINS[0];
+
+// Pseudo-chain: every mainnet above estimated together
+export const SUPERCHAIN = { id: 'superchain', name: 'Superchain' } as const;
+
+export const SUPERCHAIN_CHAINS = CHAINS.filter((c) => !c.testnet);
+
+// Options for the chain selector, Superchain last
+export const CHAIN_OPTIONS: { id: string; name: string }[] = [...CHAINS, SUPERCHAIN];
+
+export const getChain = (id: string): ChainConfig =>
+  CHAINS.find((c) => c.id === id) ?? DEFAULT_CHAIN;
+
+// Chains an estimate for `id` covers: one chain, or all mainnets for the Superchain view
+export const chainsFor = (id: string): ChainConfig[] =>
+  id === SUPERCHAIN.id ? SUPERCHAIN_CHAINS : [getChain(id)];
+
+export const chainName = (id: string) =>
+  id === SUPERCHAIN.id ? SUPERCHAIN.name : getChain(id).name;
+
+// Whole days the chain has existed: the ceiling for anyone's active days on it
+export const chainAgeDays = (chain: ChainConfig, nowMs = Date.now()) =>
+  Math.max(1, Math.floor((nowMs - Date.parse(`${chain.launchedAt}T00:00:00Z`)) / 86_400_000));
+
+// Canonical id for a query value; unknown ids fall back to Base like unknown models do
+export const normalizeChainId = (id: string) =>
+  id === SUPERCHAIN.id ? SUPERCHAIN.id : getChain(id).id;
@@ -0,0 +1,39 @@
+import { DataErrorKind, DataIssue, DataSource } from "../types";
+
+/**
+ * A data source failed in a way the caller can explain: which source, and whether
+ * it timed out, was rate limited, was down or answered with garbage.
+ */
+export class DataSourceError extends Error {
+  constructor(message: string, readonly kind: DataErrorKind, readonly source: DataSource) {
+    super(message);
+    this.name = "DataSourceError";
+  }
+}
+
+// Best guess at the kind of an arbitrary fetch/ethers failure
+export const classifyError = (e: unknown): DataErrorKind => {
+  if (e instanceof DataSourceError) return e.kind;
+  const name = e instanceof Error ? e.name : "";
+  const message = e instanceof Error ? e.message : String(e);
+  if (name === "TimeoutError" || name === "AbortError" || /timeout|timed out/i.test(message)) return "timeout";
+  if (/\b429\b|rate limit|too many requests/i.test(message)) return "rateLimited";
+  if (/\b5\d\d\b|fetch failed|ECONNRE|ENOTFOUND|network/i.test(message)) return "unavailable";
+  return "badResponse";
+};
+
+export const toDataIssue = (source: DataSource, e: unknown, message: string): DataIssue => ({
+  source,
+  kind: classifyError(e),
+  message,
+});
+
+// Same source and kind reported by several wallets or chains reads as one issue
+export const mergeIssues = (issues: DataIssue[]): DataIssue[] => {
+  const seen = new Map<string, DataIssue>();
+  for (const issue of issues) {
+    const key = `${issue.source}:${issue.kind}:${issue.message}`;
+    if (!seen.has(key)) seen.set(key, issue);
+  }
+  return [...seen.values()];
+};
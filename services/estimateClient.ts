@@ -0,0 +1,43 @@
+import { DataErrorKind, DataSource, EstimationResult, Locale } from "../types";
+import { ownerHeaders } from "./walletAuth";
+
+export type EstimateErrorKind = DataErrorKind | 'network' | 'invalidInput' | 'server';
+
+// Why an estimate failed, in terms the error screen can explain
+export class EstimateError extends Error {
+  constructor(message: string, readonly kind: EstimateErrorKind, readonly source: DataSource | null = null) {
+    super(message);
+    this.name = "EstimateError";
+  }
+}
+
+/**
+ * Browser-side entry point: asks /api/estimate to run the pipeline
+ * so no API key is ever bundled into the client. Checks of the signed-in
+ * wallet carry its session so the server saves them to its history.
+ */
+export const fetchRewardEstimate = async (
+  addresses: string[],
+  modelId: string,
+  chainId: string,
+  locale: Locale
+): Promise<EstimationResult> => {
+  const params = new URLSearchParams({ model: modelId, chain: chainId, lang: locale });
+  for (const address of addresses) params.append("address", address);
+
+  let res: Response;
+  try {
+    res = await fetch(`/api/estimate?${params}`, { headers: ownerHeaders(addresses) });
+  } catch (e) {
+    throw new EstimateError(e instanceof Error ? e.message : String(e), 'network');
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const message = body?.error ?? `Estimate failed: HTTP ${res.status}`;
+    if (res.status === 503 && body?.kind) throw new EstimateError(message, body.kind, body.source ?? null);
+    if (res.status === 429) throw new EstimateError(message, 'rateLimited');
+    if (res.status === 400) throw new EstimateError(message, 'invalidInput');
+    throw new EstimateError(message, 'server');
+  }
+  return res.json();
+};
@@ -0,0 +1,120 @@
+import { sdk } from "@farcaster/frame-sdk";
+import { getAddress } from "ethers";
+
+// Public Farcaster hub HTTP API (read-only)
+const HUB_URL = "https://hub.pinata.cloud";
+
+export interface Viewer {
+  fid: number;
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+}
+
+export interface ViewerWallet {
+  address: string; // checksummed
+  kind: 'verified' | 'custody';
+}
+
+/**
+ * The user viewing the mini app, or null outside a Farcaster/Base client
+ * (e.g. plain browser dev mode).
+ */
+export const getViewer = async (): Promise<Viewer | null> => {
+  try {
+    if (!(await sdk.isInMiniApp())) return null;
+    const context = await sdk.context;
+    return context?.user ?? null;
+  } catch (e) {
+    console.warn("Farcaster context unavailable", e);
+    return null;
+  }
+};
+
+async function fetchVerifiedAddresses(fid: number): Promise<string[]> {
+  const res = await fetch(`${HUB_URL}/v1/verificationsByFid?fid=${fid}`);
+  if (!res.ok) throw new Error(`Hub verifications failed: HTTP ${res.status}`);
+  const body = await res.json();
+  const addresses: string[] = [];
+  for (const message of body.messages ?? []) {
+    const verification = message?.data?.verificationAddAddressBody;
+    // Solana verifications share this endpoint; only EVM addresses can hold Base activity
+    if (verification?.protocol === "PROTOCOL_ETHEREUM" && verification.address) {
+      addresses.push(verification.address);
+    }
+  }
+  return addresses;
+}
+
+async function fetchCustodyAddress(fid: number): Promise<string | null> {
+  const res = await fetch(`${HUB_URL}/v1/onChainIdRegistryEventByFid?fid=${fid}`);
+  if (!res.ok) throw new Error(`Hub custody lookup failed: HTTP ${res.status}`);
+  const body = await res.json();
+  return body?.idRegisterEventBody?.to ?? null;
+}
+
+// Verified addresses first, then the custody address if it is not already listed
+const toWallets = (verified: string[], custody: string | null): ViewerWallet[] => {
+  const wallets: ViewerWallet[] = [];
+  const seen = new Set<string>();
+  const add = (address: string, kind: ViewerWallet['kind']) => {
+    try {
+      const checksummed = getAddress(address);
+      if (seen.has(checksummed)) return;
+      seen.add(checksummed);
+      wallets.push({ address: checksummed, kind });
+    } catch {
+      // ignore malformed hub data
+    }
+  };
+  verified.forEach((a) => add(a, 'verified'));
+  if (custody) add(custody, 'custody');
+  return wallets;
+};
+
+/**
+ * The fid's wallets for display. Either lookup failing just shortens the list.
+ */
+export const getViewerWallets = async (fid: number): Promise<ViewerWallet[]> => {
+  const [verified, custody] = await Promise.allSettled([
+    fetchVerifiedAddresses(fid),
+    fetchCustodyAddress(fid),
+  ]);
+  if (verified.status === "rejected") console.error("Verified address lookup failed", verified.reason);
+  if (custody.status === "rejected") console.error("Custody address lookup failed", custody.reason);
+  return toWallets(
+    verified.status === "fulfilled" ? verified.value : [],
+    custody.status === "fulfilled" ? custody.value : null
+  );
+};
+
+/**
+ * The fid's complete wallet list, for ownership checks: a failed lookup is
+ * `ok: false` rather than a short list that would read as "not this fid's wallet".
+ */
+export const lookupFidWallets = async (fid: number): Promise<{ ok: true; wallets: ViewerWallet[] } | { ok: false; error: unknown }> => {
+  try {
+    const [verified, custody] = await Promise.all([fetchVerifiedAddresses(fid), fetchCustodyAddress(fid)]);
+    return { ok: true, wallets: toWallets(verified, custody) };
+  } catch (error) {
+    return { ok: false, error };
+  }
+};
+
+/**
+ * Open the cast composer with an embed attached. Inside a client this uses the
+ * native composer; in a plain browser it falls back to the web compose page.
+ */
+export const composeCast = async (text: string, embedUrl: string): Promise<void> => {
+  try {
+    if (await sdk.isInMiniApp()) {
+      await sdk.actions.composeCast({ text, embeds: [embedUrl] });
+      return;
+    }
+  } catch (e) {
+    console.warn("Native cast composer unavailable", e);
+  }
+  const params = new URLSearchParams({ text });
+  params.append("embeds[]", embedUrl);
+  window.open(`https://farcaster.xyz/~/compose?${params}`, "_blank", "noopener");
+};
@@ -1,65 +1,148 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { JsonRpcProvider, formatEther } from "ethers";
-import { EstimationResult } from "../types";
-import { computeScores, mapScoreToRewards } from "./scoringUtils";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const RPC_URL = "https://mainnet.base.org";
-
-// We use AI only for the text generation now, inputs are pre-calculated
-const responseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    explanation: {
-      type: Type.STRING,
-      description: "A friendly, short analysis of the user's score.",
-    },
-    suggestions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "3 specific, actionable suggestions for Base ecosystem.",
-    },
-  },
-  required: ["explanation", "suggestions"],
-};
+import { formatEther } from "ethers";
+import { ChainResult, DataIssue, EstimationResult, Locale, RawTx, ScoringModel, StatInterval, StatKey, SybilRisk, VolumeMethod, VolumeTier, WalletStats } from "../types";
+import { computeScores, mapScoreToRewards, rewardCurveFor } from "./scoringUtils";
+import { computeRewardScenarios } from "./rewardScenarios";
+import { measuredIntervals, modeledIntervals, propagateUncertainty } from "./uncertainty";
+import { DEFAULT_SCORING_MODEL } from "./scoringModels";
+import { WalletData, mergeWalletData } from "./bundleUtils";
+import { ChainConfig, DEFAULT_CHAIN, chainAgeDays, chainsFor, normalizeChainId } from "./chains";
+import { getRpcProvider } from "./rpcProvider";
+import { DataSourceError, classifyError, toDataIssue } from "./dataErrors";
+import { lookupName } from "./addressResolver";
+import {
+  NarrativeProvider,
+  createGeminiProvider,
+  createOpenAICompatibleProvider,
+  generateNarrative,
+} from "./narrativeProviders";
+import { DEFAULT_LOCALE } from "./i18n";
+import { fetchPortfolio } from "./portfolio";
+import { assessSybilRisk, fetchFundingCluster } from "./sybilRisk";
+import { TxHistorySource, createExplorerSource, createRpcScannerSource, fetchTxHistory } from "./txHistory";
+import {
+  PriceOracle,
+  createChainlinkSource,
+  createDefiLlamaSource,
+  createFilePriceCache,
+  createPoolTwapSource,
+  createPriceOracle,
+  priceTransactions,
+  stablecoinSource,
+} from "./priceOracle";
+import {
+  computeActiveDaysFromTxs,
+  isMeaningfulTx,
+  computeProtocolsFromTxs,
+  computeProtocolUsageFromTxs,
+  computeRecencyDaysFromTxs,
+  computeVolumeFromTxs,
+} from "./txStats";
+import { buildActivityCalendar } from "./activityCalendar";
+
+// Indexer first, raw RPC log scan if the indexer is down
+const historySourcesByChain = new Map<string, TxHistorySource[]>();
+function historySources(chain: ChainConfig): TxHistorySource[] {
+  let sources = historySourcesByChain.get(chain.id);
+  if (!sources) {
+    sources = [
+      createExplorerSource({ baseUrl: chain.explorerApiUrl }),
+      createRpcScannerSource({ provider: getRpcProvider(chain) }),
+    ];
+    historySourcesByChain.set(chain.id, sources);
+  }
+  return sources;
+}
+
+// Cheapest answer first; the HTTP source covers anything older than the pools' TWAP window
+let priceOracle: PriceOracle | null = null;
+function getPriceOracle(): PriceOracle {
+  return (priceOracle ??= createPriceOracle({
+    sources: [
+      stablecoinSource,
+      // Prices come from Base feeds and pools whichever chain is being estimated
+      createChainlinkSource({ provider: getRpcProvider(DEFAULT_CHAIN) }),
+      createPoolTwapSource({ provider: getRpcProvider(DEFAULT_CHAIN) }),
+      createDefiLlamaSource(),
+    ],
+    cache: createFilePriceCache(process.env.PRICE_CACHE_PATH || ".data/prices.json"),
+  }));
+}
+
+/**
+ * NARRATIVE_PROVIDER picks the text engine: "gemini" (default when API_KEY is set),
+ * "openai" for a local OpenAI-compatible server, or "rules" for fully offline.
+ * The rule-based engine is always the final fallback.
+ */
+function getNarrativeProviders(): NarrativeProvider[] {
+  const choice = process.env.NARRATIVE_PROVIDER || (process.env.API_KEY ? "gemini" : "rules");
+  if (choice === "gemini" && process.env.API_KEY) {
+    return [createGeminiProvider({ apiKey: process.env.API_KEY })];
+  }
+  if (choice === "openai" && process.env.LLM_MODEL) {
+    return [createOpenAICompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL || undefined,
+      model: process.env.LLM_MODEL,
+      apiKey: process.env.LLM_API_KEY || undefined,
+    })];
+  }
+  return [];
+}
 
-async function getOnChainData(address: string) {
+/**
+ * Balance and nonce are the floor every estimate stands on, so failing to read them
+ * fails the estimate: a zero from an outage would look like a confident empty wallet.
+ */
+async function getOnChainData(address: string, chain: ChainConfig) {
   try {
-    const provider = new JsonRpcProvider(RPC_URL);
+    const provider = getRpcProvider(chain);
     // Parallel fetch for speed
     const [balanceWei, txCount] = await Promise.all([
       provider.getBalance(address),
       provider.getTransactionCount(address)
     ]);
-    
+
     return {
       balance: parseFloat(formatEther(balanceWei)),
       txCount,
-      error: null
     };
   } catch (e) {
     console.error("RPC Error", e);
-    return { balance: 0, txCount: 0, error: "Could not fetch on-chain data" };
+    throw new DataSourceError(`Could not read balance and transaction count from ${chain.name}.`, classifyError(e), "rpc");
   }
 }
 
+// Measured stats straight from the wallet's own transactions
+async function measureStats(rawTxs: RawTx[]) {
+  // Attach historical prices so computeVolumeFromTxs values each transfer when it happened
+  const { priced, unpriced } = await priceTransactions(rawTxs, getPriceOracle());
+
+  return {
+    priced,
+    unpriced,
+    activeDays: computeActiveDaysFromTxs(rawTxs),
+    volumeUSD: Math.round(computeVolumeFromTxs(rawTxs)),
+    volumeMethod: { key: 'prices', unpriced, transfers: priced + unpriced } satisfies VolumeMethod,
+    protocols: computeProtocolsFromTxs(rawTxs),
+    recencyDays: computeRecencyDaysFromTxs(rawTxs),
+  };
+}
+
 // Robust statistical derivation of 'Meaningful Activity'
-function deriveStats(rawTxCount: number, balance: number) {
+// Exported for the calibration harness, which backtests it against measured stats
+export function deriveStats(rawTxCount: number, portfolioUsd: number, chainDays: number) {
   // 1. Noise Filtering
   // We assume ~80% of txs are meaningful (swaps, mints, sends) vs approvals/failed.
   const meaningfulTxCount = Math.floor(rawTxCount * 0.8);
 
   // 2. Active Days: Saturation Model (Asymptotic)
-  // Base Mainnet launched Aug 2023 (~560 days ago).
+  // Nobody can be active on more days than the chain has existed (chainDays).
   // We use an inverted exponential decay to model saturation towards this physical limit.
   // Formula: MaxDays * (1 - e^(-k * Txs))
-  // Tuned: 1200 txs -> 431 days (matches user profile).
-  // Tuned: 5000 txs -> 558 days (approaches network age limit).
-  const MAX_BASE_DAYS = 560;
+  // Tuned on Base at 560 days: 1200 txs -> 431 days, 5000 txs -> 558 days.
   const SATURATION_K = 0.0012; 
   let estimatedActiveDays = 0;
   if (rawTxCount > 0) {
-    estimatedActiveDays = Math.round(MAX_BASE_DAYS * (1 - Math.exp(-rawTxCount * SATURATION_K)));
+    estimatedActiveDays = Math.round(chainDays * (1 - Math.exp(-rawTxCount * SATURATION_K)));
   }
 
   // 3. Volume: Activity-Based Baseline + Wealth Multiplier
@@ -67,24 +150,25 @@ function deriveStats(rawTxCount: number, balance: number) {
   // New model: High Tx Count implies usage ($42/tx avg) even if balance is low.
   
   let baseOpValue = 15; // Default for low activity (<50 txs)
-  let tierLabel = "Casual (~$15/op)";
+  let tier: VolumeTier = 'casual';
 
   if (rawTxCount >= 50) {
     // Active users (swaps, bridging, minting) tend to average ~$42 per raw tx (~$52 per meaningful tx)
     // 1200 txs * $41.5 ≈ $49,800
     baseOpValue = 41.5;
-    tierLabel = "Regular (~$42/tx)";
+    tier = 'regular';
   }
 
-  // Wealth Multiplier: If they hold significant assets, average value skyrockets
+  // Wealth Multiplier: If they hold significant assets, average value skyrockets.
+  // Uses the whole portfolio (stables, LSTs, ...), not just ETH; thresholds were 0.5 / 5 ETH at ~$3k.
   let wealthMultiplier = 1;
-  if (balance > 0.5) {
+  if (portfolioUsd > 1_500) {
     wealthMultiplier = 2.5; // ~$100/tx
-    tierLabel = "Active (~$100/tx)";
+    tier = 'active';
   }
-  if (balance > 5.0) {
+  if (portfolioUsd > 15_000) {
     wealthMultiplier = 12; // ~$500/tx
-    tierLabel = "Whale (~$500/tx)";
+    tier = 'whale';
   }
 
   // Calculate Volume using RAW count for the baseline to capture all activity
@@ -101,95 +185,232 @@ function deriveStats(rawTxCount: number, balance: number) {
   return {
     activeDays: estimatedActiveDays,
     volumeUSD: Math.round(estimatedVolumeUSD),
-    volumeMethod: `${tierLabel}`,
+    volumeMethod: { key: 'tier', tier } satisfies VolumeMethod,
     protocols: estimatedProtocols,
     recencyDays
   };
 }
 
-export const getRewardEstimate = async (walletAddress: string): Promise<EstimationResult> => {
-  // 1. Fetch Real Data (The Hard Truth)
-  const realData = await getOnChainData(walletAddress);
+type StatValues = Pick<WalletStats, 'activeDays' | 'volumeUSD' | 'volumeMethod' | 'protocols' | 'recencyDays'>;
+
+/**
+ * A partial history only bounds days, protocols and volume from below, so where the
+ * model (from the full transaction count) says more, the model wins. Recency is exact
+ * whenever the window held a meaningful tx. `usedModel` says whether any value was modeled.
+ */
+function blendPartialHistory(measured: StatValues, modeled: StatValues, sawRecentTx: boolean) {
+  const stats: StatValues = {
+    activeDays: Math.max(measured.activeDays, modeled.activeDays),
+    volumeUSD: Math.max(measured.volumeUSD, modeled.volumeUSD),
+    volumeMethod: modeled.volumeUSD > measured.volumeUSD ? modeled.volumeMethod : measured.volumeMethod,
+    protocols: Math.max(measured.protocols, modeled.protocols),
+    recencyDays: sawRecentTx ? measured.recencyDays : modeled.recencyDays,
+  };
+  const usedModel = !sawRecentTx
+    || stats.activeDays > measured.activeDays
+    || stats.volumeUSD > measured.volumeUSD
+    || stats.protocols > measured.protocols;
+  return { stats, usedModel };
+}
+
+// 1 + 2. Fetch real data and measure (or model) one wallet's stats on one chain
+// Only the balance/nonce read is fatal; any other failed source becomes a flagged issue
+async function collectWalletData(address: string, chain: ChainConfig): Promise<Omit<WalletData, 'name'>> {
+  const issues: DataIssue[] = [];
+  const [{ realData, portfolio }, history, funding] = await Promise.all([
+    getOnChainData(address, chain).then(async (realData) => {
+      const holdings = await fetchPortfolio(address, realData.balance, {
+        provider: getRpcProvider(chain),
+        explorerApiUrl: chain.explorerApiUrl,
+        oracle: getPriceOracle(),
+        // The curated token list holds Base contract addresses
+        trackTokens: chain.id === DEFAULT_CHAIN.id,
+      });
+      issues.push(...holdings.issues);
+      return { realData, portfolio: holdings.portfolio };
+    }),
+    fetchTxHistory(address, historySources(chain)).catch((e) => {
+      issues.push(toDataIssue("txHistory", e, `Transaction history on ${chain.name} is unavailable, so activity stats are modeled from the transaction count.`));
+      return null;
+    }),
+    fetchFundingCluster(address, chain.explorerApiUrl),
+  ]);
+
+  let derivedStats: StatValues;
+  let intervals: Record<StatKey, StatInterval>;
+  let statsSource: WalletStats['statsSource'] = history ? "measured" : "modeled";
+  const modeled = deriveStats(realData.txCount, portfolio.totalUsd, chainAgeDays(chain));
+  const modeledRanges = modeledIntervals({ ...modeled, txCount: realData.txCount }, chainAgeDays(chain));
+  if (history) {
+    const measured = await measureStats(history.txs);
+    if (measured.unpriced > 0) {
+      issues.push({
+        source: "prices",
+        kind: "unavailable",
+        message: `${measured.unpriced} transfers on ${chain.name} had no USD price, so value moved is understated.`,
+      });
+    }
+    const partial = history.coverage !== "full";
+    intervals = measuredIntervals({ ...measured, txCount: realData.txCount }, {
+      priced: measured.priced,
+      unpriced: measured.unpriced,
+      modeled: partial ? modeledRanges : undefined,
+    });
+    derivedStats = measured;
+    if (partial) {
+      issues.push({
+        source: "txHistory",
+        kind: "partial",
+        message: history.coverage === "recent"
+          ? `Only recent token transfers on ${chain.name} could be scanned, so activity stats are partly modeled from the transaction count.`
+          : `Transaction history on ${chain.name} was cut off at the explorer's page limit, so older activity is partly modeled.`,
+      });
+      const blend = blendPartialHistory(measured, modeled, history.txs.some((tx) => isMeaningfulTx(tx)));
+      derivedStats = blend.stats;
+      if (blend.usedModel) statsSource = "modeled";
+      // A modeled recency has the model's spread, not the measurement's
+      if (blend.stats.recencyDays !== measured.recencyDays) intervals.recencyDays = modeledRanges.recencyDays;
+    }
+  } else {
+    derivedStats = modeled;
+    intervals = modeledRanges;
+  }
 
-  // 2. Derive Stats (The Statistical Models)
-  const derivedStats = deriveStats(realData.txCount, realData.balance);
+  return {
+    address,
+    rawTxs: history?.txs,
+    coverage: history?.coverage,
+    portfolio,
+    sybilRisk: history ? assessSybilRisk(history.txs, funding) : null,
+    issues,
+    stats: {
+      balance: realData.balance.toFixed(4),
+      txCount: realData.txCount,
+      activeDays: derivedStats.activeDays,
+      volumeUSD: derivedStats.volumeUSD,
+      volumeMethod: derivedStats.volumeMethod,
+      protocols: derivedStats.protocols,
+      recencyDays: derivedStats.recencyDays,
+      statsSource,
+      historySource: history ? history.source : null,
+      intervals,
+    },
+  };
+}
 
-  // 3. Calculate Deterministic Scores (The Math)
+// 3. Calculate Deterministic Scores (The Math)
+function scoreStats(stats: WalletStats, model: ScoringModel, sybilRisk: SybilRisk | null) {
   const scores = computeScores(
-    realData.txCount,
-    derivedStats.activeDays,
-    derivedStats.protocols,
-    derivedStats.volumeUSD,
-    derivedStats.recencyDays
+    stats.txCount,
+    stats.activeDays,
+    stats.protocols,
+    stats.volumeUSD,
+    stats.recencyDays,
+    model,
+    sybilRisk?.score ?? 0
   );
+  return { scores, estimatedRewards: mapScoreToRewards(scores.finalScore, rewardCurveFor(model)) };
+}
 
-  const estimatedRewards = mapScoreToRewards(scores.finalScore);
+export interface EstimateOptions {
+  // false skips LLM providers and uses the deterministic rule-based text
+  narrative?: boolean;
+  // A chain id from services/chains, or "superchain" for every mainnet combined
+  chain?: string;
+  // Language of the explanation and suggestions
+  locale?: Locale;
+}
 
-  // 4. Generate Text (The Personality)
-  try {
-    const prompt = `
-      Context: Base Wallet Analysis (Simulation)
-      
-      User Stats:
-      - Txs: ${realData.txCount} (Score: ${scores.txScore}/1.0)
-      - Active Days: ~${derivedStats.activeDays} (Life) (Score: ${scores.activeDaysScore}/1.0)
-      - Est. Volume: ~$${derivedStats.volumeUSD} (Score: ${scores.volumeScore}/1.0)
-      - Protocols: ~${derivedStats.protocols} (Score: ${scores.protocolScore}/1.0)
-      - FINAL SCORE: ${scores.finalScore.toFixed(2)}
-      
-      Task: Write a friendly explanation (1 sentence) and 3 specific, simple suggestions to improve usage.
-      Tone: Helpful, objective.
-      - Mention "longevity" if active days score is high.
-      - Mention "volume" if volume score is low.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.7,
-      },
-    });
+/**
+ * Estimate one wallet, or several wallets as a bundle.
+ * Addresses must already be validated hex (see resolveWalletInput).
+ * For a bundle the top-level numbers describe the combined activity and
+ * `wallets` holds each address scored on its own.
+ */
+export const getRewardEstimate = async (
+  walletAddresses: string | string[],
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+  { narrative: useLlm = true, chain = DEFAULT_CHAIN.id, locale = DEFAULT_LOCALE }: EstimateOptions = {}
+): Promise<EstimationResult> => {
+  const addresses = Array.isArray(walletAddresses) ? walletAddresses : [walletAddresses];
+  const chainId = normalizeChainId(chain);
+  const chains = chainsFor(chainId);
 
-    const aiText = response.text ? JSON.parse(response.text) : { 
-      explanation: "Analysis complete based on your on-chain activity pattern.", 
-      suggestions: ["Maintain weekly activity", "Try Aerodrome or Moonwell", "Increase transaction volume"] 
-    };
+  // perChain[c][a]: address a measured on chain c
+  const [nameList, perChain] = await Promise.all([
+    Promise.all(addresses.map(lookupName)),
+    Promise.all(chains.map((c) => Promise.all(addresses.map((a) => collectWalletData(a, c))))),
+  ]);
+  const acrossChains: VolumeMethod | undefined = chains.length > 1 ? { key: 'chainSum', count: chains.length } : undefined;
 
-    return {
-      activityScore: scores.finalScore,
-      estimatedRewards,
-      stats: {
-        balance: realData.balance.toFixed(4),
-        txCount: realData.txCount,
-        activeDays: derivedStats.activeDays,
-        volumeUSD: derivedStats.volumeUSD,
-        volumeMethod: derivedStats.volumeMethod,
-        protocols: derivedStats.protocols,
-      },
-      scoreBreakdown: scores,
-      explanation: aiText.explanation,
-      suggestions: aiText.suggestions
-    };
+  // One entry per address, with its chains merged
+  const wallets: WalletData[] = addresses.map((address, i) => {
+    const own = perChain.map((c) => c[i]);
+    return { ...(own.length === 1 ? own[0] : mergeWalletData(own, acrossChains)), address, name: nameList[i] };
+  });
+  const everything = perChain.flat();
+  const combined = everything.length === 1 ? everything[0] : mergeWalletData(everything, acrossChains);
 
-  } catch (error) {
-    console.error("AI Generation Error", error);
-    return {
-      activityScore: scores.finalScore,
-      estimatedRewards,
-      stats: {
-        balance: realData.balance.toFixed(4),
-        txCount: realData.txCount,
-        activeDays: derivedStats.activeDays,
-        volumeUSD: derivedStats.volumeUSD,
-        volumeMethod: derivedStats.volumeMethod,
-        protocols: derivedStats.protocols,
-      },
-      scoreBreakdown: scores,
-      explanation: "We calculated your score based on your wallet activity pattern.",
-      suggestions: ["Interact with more protocols", "Increase transaction volume", "Maintain monthly activity"]
-    };
-  }
-};
\ No newline at end of file
+  const { scores, estimatedRewards } = scoreStats(combined.stats, model, combined.sybilRisk);
+  const protocolUsage = combined.rawTxs ? computeProtocolUsageFromTxs(combined.rawTxs) : undefined;
+
+  // 4. Generate Text (The Personality)
+  const narrative = await generateNarrative(
+    { stats: combined.stats, scores, model, walletCount: wallets.length, protocolUsage, locale },
+    useLlm ? getNarrativeProviders() : []
+  );
+
+  const names: Record<string, string> = {};
+  for (const w of wallets) if (w.name) names[w.address] = w.name;
+
+  return {
+    generatedAt: Date.now(),
+    addresses,
+    names,
+    activityScore: scores.finalScore,
+    estimatedRewards,
+    rewardScenarios: computeRewardScenarios(scores.finalScore, rewardCurveFor(model)),
+    stats: combined.stats,
+    protocolUsage,
+    // Idle gaps and streaks would be made up from a partial history
+    activity: combined.rawTxs && combined.coverage === "full" ? buildActivityCalendar(combined.rawTxs, model) : undefined,
+    portfolio: combined.portfolio,
+    sybilRisk: combined.sybilRisk,
+    chain: chainId,
+    chains: chains.length > 1
+      ? chains.map((c, i): ChainResult => {
+          const onChain = perChain[i].length === 1 ? perChain[i][0] : mergeWalletData(perChain[i]);
+          const own = scoreStats(onChain.stats, model, onChain.sybilRisk);
+          return {
+            chain: c.id,
+            activityScore: own.scores.finalScore,
+            estimatedRewards: own.estimatedRewards,
+            stats: onChain.stats,
+            scoreBreakdown: own.scores,
+          };
+        })
+      : undefined,
+    wallets: wallets.length > 1
+      ? wallets.map((w) => {
+          const own = scoreStats(w.stats, model, w.sybilRisk);
+          return {
+            address: w.address,
+            name: w.name,
+            activityScore: own.scores.finalScore,
+            estimatedRewards: own.estimatedRewards,
+            stats: w.stats,
+            scoreBreakdown: own.scores,
+            sybilRisk: w.sybilRisk,
+          };
+        })
+      : undefined,
+    scoreBreakdown: scores,
+    uncertainty: propagateUncertainty(combined.stats, model, combined.sybilRisk?.score ?? 0),
+    scoringModel: { id: model.id, version: model.version },
+    dataQuality: { complete: combined.issues.length === 0, issues: combined.issues },
+    explanation: narrative.explanation,
+    suggestions: narrative.suggestions,
+    narrativeProvider: narrative.provider,
+    locale,
+  };
+};
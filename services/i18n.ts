@@ -0,0 +1,98 @@
+import { Locale } from "../types";
+import en from "../locales/en";
+import es from "../locales/es";
+import pt from "../locales/pt";
+import zh from "../locales/zh";
+
+export type MessageKey = keyof typeof en;
+// A plain string, or plural forms picked by the `count` param
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+// For keys built at runtime, e.g. from a model id that may have no translation
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+export const LOCALES: { id: Locale; name: string; englishName: string; tag: string }[] = [
+  { id: 'en', name: 'English', englishName: 'English', tag: 'en-US' },
+  { id: 'es', name: 'Español', englishName: 'Spanish', tag: 'es' },
+  { id: 'pt', name: 'Português', englishName: 'Brazilian Portuguese', tag: 'pt-BR' },
+  { id: 'zh', name: '简体中文', englishName: 'Simplified Chinese', tag: 'zh-CN' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, pt, zh };
+
+// "pt-BR", "zh_Hans_CN", "ES" -> a supported locale, by primary language subtag
+export const normalizeLocale = (value: string | null | undefined): Locale | null => {
+  const primary = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find((l) => l.id === primary)?.id ?? null;
+};
+
+// First supported candidate in preference order, else English
+export const resolveLocale = (candidates: readonly (string | null | undefined)[]): Locale => {
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const localeTag = (locale: Locale) => LOCALES.find((l) => l.id === locale)?.tag ?? 'en-US';
+
+// Intl constructors are slow enough to matter inside list renders
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const numberFormat = (tag: string, options: Intl.NumberFormatOptions) => {
+  const key = `${tag}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(tag, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+export interface I18n {
+  locale: Locale;
+  tag: string; // BCP 47 tag for Intl and the lang attribute
+  t(key: MessageKey, params?: MessageParams): string;
+  number(value: number, options?: Intl.NumberFormatOptions): string;
+  usd(value: number, options?: Intl.NumberFormatOptions): string;
+  compact(value: number): string;
+  compactUsd(value: number): string;
+  percent(fraction: number): string;
+  date(ms: number, options?: Intl.DateTimeFormatOptions): string;
+}
+
+/**
+ * Messages and number formatting for one locale. Missing translations fall back
+ * to English; number params are formatted for the locale before interpolation.
+ */
+export const createI18n = (locale: Locale = DEFAULT_LOCALE): I18n => {
+  const tag = localeTag(locale);
+  const plurals = new Intl.PluralRules(tag);
+  const number = (value: number, options: Intl.NumberFormatOptions = {}) => numberFormat(tag, options).format(value);
+
+  return {
+    locale,
+    tag,
+    t(key, params = {}) {
+      const message = CATALOGS[locale][key] ?? en[key];
+      const template = typeof message === 'string'
+        ? message
+        : message[plurals.select(Number(params.count ?? 0))] ?? message.other;
+      return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = params[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? number(value) : value;
+      });
+    },
+    number,
+    usd: (value, options = {}) => number(value, { style: 'currency', currency: 'USD', maximumFractionDigits: 0, ...options }),
+    compact: (value) => number(value, { notation: 'compact', maximumFractionDigits: 1 }),
+    compactUsd: (value) => number(value, { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: 1 }),
+    percent: (fraction) => number(fraction, { style: 'percent', maximumFractionDigits: 0 }),
+    date: (ms, options) => new Date(ms).toLocaleDateString(tag, options),
+  };
+};
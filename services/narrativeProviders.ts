@@ -0,0 +1,294 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { Locale, ProtocolUsage, ScoreBreakdown, ScoreComponent, ScoringModel, WalletStats } from "../types";
+import { mapScoreToRewards, rewardCurveFor, statForComponentScore } from "./scoringUtils";
+import { SCORE_COMPONENTS } from "./scoringModels";
+import { PROTOCOL_CATEGORIES, protocolsInCategory } from "./protocolRegistry";
+import { I18n, LOCALES, createI18n } from "./i18n";
+
+export interface NarrativeInput {
+  stats: WalletStats;
+  scores: ScoreBreakdown;
+  model: ScoringModel;
+  walletCount: number;
+  protocolUsage?: ProtocolUsage; // only for measured stats
+  locale?: Locale; // English when absent
+}
+
+export interface Narrative {
+  explanation: string;
+  suggestions: string[];
+}
+
+// Anything that can turn computed scores into text
+export interface NarrativeProvider {
+  name: string;
+  generate(input: NarrativeInput): Promise<Narrative>;
+}
+
+// Registry categories the wallet has never touched, with example protocols for each
+const untouchedCategories = (usage: ProtocolUsage) => {
+  const used = new Set(usage.protocols.map((p) => p.category));
+  return PROTOCOL_CATEGORIES
+    .filter((c) => !used.has(c.key))
+    .map((c) => ({ ...c, examples: protocolsInCategory(c.key).slice(0, 2) }));
+};
+
+/* ---------- Shared prompt for LLM providers ---------- */
+
+const describeProtocols = (usage?: ProtocolUsage) => {
+  if (!usage) return "";
+  const used = usage.protocols.map((p) => `${p.protocol} (${p.category}, ${p.txCount} txs)`).join(", ") || "none recognised";
+  const missing = untouchedCategories(usage).map((c) => `${c.label}: e.g. ${c.examples.join(", ")}`).join("; ") || "none";
+  return `
+      - Protocols used: ${used}; plus ${usage.unlistedContracts} unlisted contracts (mostly tokens; not counted as protocols)
+      - Untouched categories: ${missing}`;
+};
+
+const languageName = (locale: Locale = 'en') => LOCALES.find((l) => l.id === locale)?.englishName ?? 'English';
+
+const buildPrompt = ({ stats, scores, model, walletCount, protocolUsage, locale }: NarrativeInput) => `
+      Context: Base Wallet Analysis (Simulation)${walletCount > 1 ? `, bundle of ${walletCount} wallets owned by one user` : ""}
+
+      User Stats:
+      - Txs: ${stats.txCount} (Score: ${scores.txScore}/1.0)
+      - Active Days: ~${stats.activeDays} (Life) (Score: ${scores.activeDaysScore}/1.0)
+      - Est. Volume: ~$${stats.volumeUSD} (Score: ${scores.volumeScore}/1.0)
+      - Protocols: ~${stats.protocols} (Score: ${scores.protocolScore}/1.0)${describeProtocols(protocolUsage)}
+      - Days Since Last Tx: ${stats.recencyDays} (Score: ${scores.recencyScore}/1.0)
+      - Stats are ${stats.statsSource} (${stats.statsSource === "measured" ? "from tx history" : "statistical estimate"})
+      - FINAL SCORE: ${scores.finalScore.toFixed(2)} (model: ${model.name} v${model.version})
+
+      Task: Write a friendly explanation (1 sentence) and 3 specific, simple suggestions to improve usage.
+      Tone: Helpful, objective.
+      Language: Write the explanation and suggestions in ${languageName(locale)}. Keep protocol names, token symbols and numbers as they are.
+      - Mention "longevity" if active days score is high.
+      - Mention "volume" if volume score is low.
+      - Only suggest protocols from the untouched categories above when they are listed; never recommend one the user already uses.
+    `;
+
+// LLM output is untrusted; reject anything that is not the shape we asked for
+const parseNarrative = (text: string | undefined): Narrative => {
+  if (!text) throw new Error("Empty narrative response");
+  const parsed = JSON.parse(text);
+  if (typeof parsed.explanation !== "string" || !Array.isArray(parsed.suggestions)) {
+    throw new Error("Malformed narrative response");
+  }
+  return { explanation: parsed.explanation, suggestions: parsed.suggestions.map(String).slice(0, 3) };
+};
+
+/* ---------- Gemini ---------- */
+
+// We use AI only for the text generation now, inputs are pre-calculated
+const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    explanation: {
+      type: Type.STRING,
+      description: "A friendly, short analysis of the user's score.",
+    },
+    suggestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "3 specific, actionable suggestions for Base ecosystem.",
+    },
+  },
+  required: ["explanation", "suggestions"],
+};
+
+export const createGeminiProvider = ({
+  apiKey,
+  model = "gemini-2.5-flash",
+}: { apiKey: string; model?: string }): NarrativeProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: "gemini",
+    async generate(input) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildPrompt(input),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: responseSchema,
+          temperature: 0.7,
+        },
+      });
+      return parseNarrative(response.text);
+    },
+  };
+};
+
+/* ---------- OpenAI-compatible (Ollama, LM Studio, vLLM, llama.cpp ...) ---------- */
+
+export const createOpenAICompatibleProvider = ({
+  baseUrl = "http://localhost:11434/v1",
+  model,
+  apiKey,
+}: { baseUrl?: string; model: string; apiKey?: string }): NarrativeProvider => ({
+  name: "openai-compatible",
+  async generate(input) {
+    const res = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.7,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: 'Reply only with JSON: {"explanation": string, "suggestions": string[3]}' },
+          { role: "user", content: buildPrompt(input) },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`LLM endpoint failed: HTTP ${res.status}`);
+    const body = await res.json();
+    return parseNarrative(body?.choices?.[0]?.message?.content);
+  },
+});
+
+/* ---------- Deterministic rule-based engine (offline) ---------- */
+
+const STAT_FOR: Record<ScoreComponent, keyof WalletStats> = {
+  txScore: 'txCount',
+  activeDaysScore: 'activeDays',
+  protocolScore: 'protocols',
+  volumeScore: 'volumeUSD',
+  recencyScore: 'recencyDays',
+};
+
+// Lower-case a label to run on inside a sentence
+const inline = (i18n: I18n, label: string) => label.toLocaleLowerCase(i18n.tag);
+
+const capitalize = (i18n: I18n, text: string) => text.charAt(0).toLocaleUpperCase(i18n.tag) + text.slice(1);
+
+// Concrete action that lifts one component to the target score
+function actionFor(i18n: I18n, component: ScoreComponent, target: number, stats: WalletStats, model: ScoringModel, usage?: ProtocolUsage): string {
+  const needed = statForComponentScore(component, target, model);
+  const current = Number(stats[STAT_FOR[component]]);
+  const delta = Math.max(needed - current, 1);
+  switch (component) {
+    case 'txScore':
+    case 'activeDaysScore':
+      return i18n.t(`narrative.action.${component}`, { count: delta });
+    case 'protocolScore': {
+      const missing = usage ? untouchedCategories(usage) : [];
+      if (missing.length === 0) return i18n.t('narrative.action.protocolScore', { count: delta });
+      const ideas = missing.slice(0, 2).map((c) =>
+        i18n.t('narrative.protocolIdea', { protocol: c.examples[0], category: inline(i18n, i18n.t(`category.${c.key}`)) })
+      );
+      return i18n.t('narrative.action.protocolScoreIdeas', { count: delta, ideas: either(i18n, ideas) });
+    }
+    case 'volumeScore':
+      return i18n.t('narrative.action.volumeScore', { usd: i18n.usd(delta) });
+    case 'recencyScore':
+      return i18n.t('narrative.action.recencyScore', { count: Math.max(needed, 0) });
+  }
+}
+
+// "a or b" in the narrative's language; lists here never exceed two items
+const either = (i18n: I18n, items: string[]) =>
+  items.length > 1 ? i18n.t('narrative.or', { first: items[0], second: items[1] }) : items[0];
+
+/**
+ * Explains a score from the breakdown alone: weakest component by weighted
+ * shortfall, and the cheapest single-component route to the next reward tier.
+ * Same input, same text.
+ */
+export const generateRuleBasedNarrative = ({ stats, scores, model, walletCount, protocolUsage, locale }: NarrativeInput): Narrative => {
+  const i18n = createI18n(locale);
+  const { t } = i18n;
+  const label = (component: ScoreComponent) => t(`component.${component}`);
+
+  // Points of final score lost to each component
+  const shortfalls = SCORE_COMPONENTS
+    .map((key) => ({ key, lost: model.weights[key] * (1 - scores[key]) }))
+    .sort((a, b) => b.lost - a.lost);
+  const strongest = [...SCORE_COMPONENTS].sort((a, b) => scores[b] - scores[a])[0];
+  const [weakest, secondWeakest] = shortfalls;
+
+  const subject = walletCount > 1 ? t('narrative.bundle', { count: walletCount }) : t('narrative.wallet');
+  const explanation = weakest.lost === 0
+    ? t('narrative.maxed', { subject, model: model.name })
+    : t('narrative.summary', {
+        subject,
+        score: i18n.number(scores.finalScore, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+        strongest: inline(i18n, label(strongest)),
+        weakest: inline(i18n, label(weakest.key)),
+        points: Math.round(weakest.lost * 100),
+      });
+
+  const suggestions: string[] = [];
+
+  const nextTier = rewardCurveFor(model).find((p) => p.score > scores.finalScore);
+  if (nextTier) {
+    const gap = nextTier.score - scores.finalScore;
+    // Cheapest route: the component whose remaining headroom covers the gap with the smallest score change
+    const route = SCORE_COMPONENTS
+      .filter((key) => model.weights[key] > 0)
+      .map((key) => ({ key, target: scores[key] + gap / model.weights[key] }))
+      .filter((r) => r.target <= 1)
+      .sort((a, b) => (a.target - scores[a.key]) - (b.target - scores[b.key]))[0];
+    const tier = {
+      points: Math.round(gap * 100),
+      tier: i18n.number(nextTier.score, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+      reward: mapScoreToRewards(nextTier.score, rewardCurveFor(model)),
+    };
+    suggestions.push(route
+      ? t('narrative.tierRoute', { ...tier, action: actionFor(i18n, route.key, route.target, stats, model, protocolUsage) })
+      : t('narrative.tierSpread', tier));
+  }
+
+  const componentTip = ({ key, lost }: { key: ScoreComponent; lost: number }) => {
+    if (lost === 0) return;
+    const action = actionFor(i18n, key, Math.min(scores[key] + 0.25, 1), stats, model, protocolUsage);
+    suggestions.push(t('narrative.componentTip', { label: label(key), action: capitalize(i18n, action) }));
+  };
+
+  componentTip(weakest);
+  // An untouched category is the most concrete tip we have, so it outranks the second-weakest component
+  const missing = protocolUsage ? untouchedCategories(protocolUsage) : [];
+  if (missing.length > 0 && weakest.key !== 'protocolScore') {
+    const [category] = missing;
+    suggestions.push(t('narrative.untouched', {
+      category: inline(i18n, t(`category.${category.key}`)),
+      examples: either(i18n, category.examples),
+    }));
+  }
+  componentTip(secondWeakest);
+
+  if (suggestions.length < 3 && stats.statsSource === 'modeled') {
+    suggestions.push(t('narrative.modeled'));
+  }
+  while (suggestions.length < 3) {
+    suggestions.push(t('narrative.steady'));
+  }
+
+  return { explanation, suggestions: suggestions.slice(0, 3) };
+};
+
+export const ruleBasedProvider: NarrativeProvider = {
+  name: "rules",
+  async generate(input) {
+    return generateRuleBasedNarrative(input);
+  },
+};
+
+/**
+ * Try providers in order; the rule-based engine always answers last,
+ * so a result never depends on a network call succeeding.
+ */
+export const generateNarrative = async (
+  input: NarrativeInput,
+  providers: NarrativeProvider[]
+): Promise<Narrative & { provider: string }> => {
+  for (const provider of providers) {
+    try {
+      return { ...(await provider.generate(input)), provider: provider.name };
+    } catch (e) {
+      console.error(`Narrative provider "${provider.name}" failed`, e);
+    }
+  }
+  return { ...generateRuleBasedNarrative(input), provider: ruleBasedProvider.name };
+};
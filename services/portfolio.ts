@@ -0,0 +1,129 @@
+import { Contract, Interface, Provider } from "ethers";
+import { DataIssue, NftHolding, Portfolio, TokenHolding } from "../types";
+import { toDataIssue } from "./dataErrors";
+import { PRICED_TOKENS, PriceOracle } from "./priceOracle";
+
+// Multicall3, deployed at the same address on every EVM chain
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const erc20 = new Interface(["function balanceOf(address) view returns (uint256)"]);
+const multicallAbi = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[])",
+];
+
+const NATIVE = PRICED_TOKENS.find((t) => t.address === null)!;
+
+// The curated list is the price oracle's: holding a token we can't price wouldn't move the wealth model
+const ERC20_TOKENS = PRICED_TOKENS.filter((t) => t.address);
+
+/**
+ * All curated token balances in one eth_call. A token whose call fails is skipped
+ * rather than failing the whole read.
+ */
+async function fetchTokenBalances(address: string, provider: Provider) {
+  const multicall = new Contract(MULTICALL3, multicallAbi, provider);
+  const results: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(
+    ERC20_TOKENS.map((t) => ({ target: t.address, allowFailure: true, callData: erc20.encodeFunctionData("balanceOf", [address]) }))
+  );
+  return ERC20_TOKENS.flatMap((token, i) => {
+    const { success, returnData } = results[i];
+    if (!success || returnData === "0x") return [];
+    const raw: bigint = erc20.decodeFunctionResult("balanceOf", returnData)[0];
+    return raw === 0n ? [] : [{ token, amount: Number(raw) / 10 ** token.decimals }];
+  });
+}
+
+// First page of NFT holdings from Blockscout's v2 API, grouped by collection
+async function fetchNfts(address: string, explorerApiUrl: string): Promise<NftHolding[]> {
+  const res = await fetch(`${explorerApiUrl.replace(/\/$/, "")}/v2/addresses/${address}/nft?type=ERC-721%2CERC-1155`);
+  if (!res.ok) throw new Error(`NFT lookup failed: HTTP ${res.status}`);
+  const body = await res.json();
+  const byCollection = new Map<string, NftHolding>();
+  for (const item of body.items ?? []) {
+    const contract: string | undefined = item?.token?.address ?? item?.token?.address_hash;
+    if (!contract) continue;
+    const holding = byCollection.get(contract) ?? {
+      collection: item.token.name || item.token.symbol || contract,
+      address: contract,
+      count: 0,
+    };
+    holding.count += item.token_type === "ERC-1155" ? Number(item.value ?? 1) : 1;
+    byCollection.set(contract, holding);
+  }
+  return [...byCollection.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Current holdings valued at today's prices. Never throws: a failed token read
+ * leaves just the native balance, a failed NFT read leaves `nfts` null, and
+ * either is reported in `issues`.
+ */
+export const fetchPortfolio = async (
+  address: string,
+  ethBalance: number,
+  { provider, explorerApiUrl, oracle, trackTokens = true }: {
+    provider: Provider;
+    explorerApiUrl: string;
+    oracle: PriceOracle;
+    trackTokens?: boolean; // false on chains where the curated token addresses don't exist
+  }
+): Promise<{ portfolio: Portfolio; issues: DataIssue[] }> => {
+  const [balances, nfts] = await Promise.allSettled([
+    trackTokens ? fetchTokenBalances(address, provider) : Promise.resolve([]),
+    fetchNfts(address, explorerApiUrl),
+  ]);
+  const issues: DataIssue[] = [];
+  if (balances.status === "rejected") {
+    console.error("Token balance multicall failed", balances.reason);
+    issues.push(toDataIssue("tokens", balances.reason, "Token balances could not be read; holdings show ETH only."));
+  }
+  if (nfts.status === "rejected") {
+    console.error("NFT lookup failed", nfts.reason);
+    issues.push(toDataIssue("nfts", nfts.reason, "NFT holdings could not be loaded."));
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const held = [
+    ...(ethBalance > 0 ? [{ token: NATIVE, amount: ethBalance }] : []),
+    ...(balances.status === "fulfilled" ? balances.value : []),
+  ];
+  const tokens: TokenHolding[] = await Promise.all(held.map(async ({ token, amount }) => {
+    const price = await oracle.getPrice(token, now);
+    return { symbol: token.symbol, address: token.address, amount, valueUsd: price === null ? null : amount * price };
+  }));
+  tokens.sort((a, b) => (b.valueUsd ?? 0) - (a.valueUsd ?? 0));
+
+  return {
+    portfolio: {
+      tokens,
+      nfts: nfts.status === "fulfilled" ? nfts.value : null,
+      totalUsd: Math.round(tokens.reduce((sum, t) => sum + (t.valueUsd ?? 0), 0) * 100) / 100,
+    },
+    issues,
+  };
+};
+
+/**
+ * Bundle holdings: same token or collection across wallets adds up.
+ */
+export const mergePortfolios = (portfolios: Portfolio[]): Portfolio => {
+  const tokens = new Map<string, TokenHolding>();
+  for (const t of portfolios.flatMap((p) => p.tokens)) {
+    const prev = tokens.get(t.symbol);
+    tokens.set(t.symbol, prev
+      ? { ...prev, amount: prev.amount + t.amount, valueUsd: prev.valueUsd === null || t.valueUsd === null ? null : prev.valueUsd + t.valueUsd }
+      : { ...t });
+  }
+
+  const nfts = new Map<string, NftHolding>();
+  for (const n of portfolios.flatMap((p) => p.nfts ?? [])) {
+    const prev = nfts.get(n.address.toLowerCase());
+    nfts.set(n.address.toLowerCase(), prev ? { ...prev, count: prev.count + n.count } : { ...n });
+  }
+
+  return {
+    tokens: [...tokens.values()].sort((a, b) => (b.valueUsd ?? 0) - (a.valueUsd ?? 0)),
+    nfts: portfolios.every((p) => p.nfts === null) ? null : [...nfts.values()].sort((a, b) => b.count - a.count),
+    totalUsd: Math.round(portfolios.reduce((sum, p) => sum + p.totalUsd, 0) * 100) / 100,
+  };
+};
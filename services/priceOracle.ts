@@ -0,0 +1,339 @@
+import { Contract, Provider } from "ethers";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { RawTx } from "../types";
+
+export interface PricedToken {
+  symbol: string; // "ETH" for the native asset
+  address: string | null; // null for native ETH
+  decimals: number;
+  stable?: boolean; // pegged to $1
+}
+
+// Tokens we can price. Matched by contract address, never by symbol: anyone can deploy a "USDC".
+export const PRICED_TOKENS: PricedToken[] = [
+  { symbol: "ETH", address: null, decimals: 18 },
+  { symbol: "WETH", address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+  { symbol: "USDC", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6, stable: true },
+  { symbol: "USDbC", address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA", decimals: 6, stable: true },
+  { symbol: "USDT", address: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2", decimals: 6, stable: true },
+  { symbol: "DAI", address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", decimals: 18, stable: true },
+  { symbol: "cbETH", address: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22", decimals: 18 },
+  { symbol: "AERO", address: "0x940181a94A35A4569E4529A3CDfB74e38FD98631", decimals: 18 },
+  { symbol: "DEGEN", address: "0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed", decimals: 18 },
+];
+
+const BY_SYMBOL = new Map(PRICED_TOKENS.map((t) => [t.symbol, t]));
+const BY_ADDRESS = new Map(PRICED_TOKENS.filter((t) => t.address).map((t) => [t.address!.toLowerCase(), t]));
+
+export const findPricedToken = (address: string) => BY_ADDRESS.get(address.toLowerCase());
+
+// A pluggable source of historical USD prices. Returns null when it can't answer.
+export interface PriceSource {
+  name: string;
+  getPrice(token: PricedToken, timestamp: number): Promise<number | null>;
+}
+
+/* ---------- Stablecoins ---------- */
+
+export const stablecoinSource: PriceSource = {
+  name: "stablecoin",
+  async getPrice(token) {
+    return token.stable ? 1 : null;
+  },
+};
+
+/* ---------- Chainlink (spot only) ---------- */
+
+interface ChainlinkSourceOptions {
+  provider: Provider;
+  feeds?: Record<string, string>; // symbol -> aggregator address (8 decimals)
+  maxAgeSeconds?: number; // how old a timestamp may be and still accept the spot answer
+}
+
+/**
+ * Latest Chainlink answer, used only for timestamps close to now.
+ * Historical rounds would need an archive node.
+ */
+export const createChainlinkSource = ({
+  provider,
+  feeds = { ETH: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70", WETH: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70" },
+  maxAgeSeconds = 3_600,
+}: ChainlinkSourceOptions): PriceSource => {
+  return {
+    name: "chainlink",
+    async getPrice(token, timestamp) {
+      const feed = feeds[token.symbol];
+      if (!feed || Date.now() / 1000 - timestamp > maxAgeSeconds) return null;
+      const aggregator = new Contract(feed, [
+        "function latestRoundData() view returns (uint80, int256, uint256, uint256, uint80)",
+      ], provider);
+      const [, answer] = await aggregator.latestRoundData();
+      return Number(answer) / 1e8;
+    },
+  };
+};
+
+/* ---------- Uniswap v3 style pool TWAP ---------- */
+
+export interface TwapPool {
+  symbol: string; // token being priced
+  pool: string;
+  quote: string; // symbol of the other side; priced recursively unless stable
+}
+
+interface PoolTwapSourceOptions {
+  provider: Provider;
+  pools?: TwapPool[];
+  windowSeconds?: number;
+}
+
+/**
+ * Time-weighted average tick from a pool's observation buffer, ending at the timestamp.
+ * Only reaches back as far as the pool's observation cardinality; older
+ * timestamps revert ("OLD") and the next source takes over.
+ */
+export const createPoolTwapSource = ({
+  provider,
+  pools = [
+    { symbol: "ETH", pool: "0xd0b53D9277642d899DF5C87A3966A349A798F224", quote: "USDC" },
+    { symbol: "WETH", pool: "0xd0b53D9277642d899DF5C87A3966A349A798F224", quote: "USDC" },
+    { symbol: "DEGEN", pool: "0xc9034c3E7F58003E6ae0C8438e7c8f4598d5ACAA", quote: "WETH" },
+  ],
+  windowSeconds = 1_800,
+}: PoolTwapSourceOptions): PriceSource => {
+  const abi = ["function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)"];
+
+  const source: PriceSource = {
+    name: "pool-twap",
+    async getPrice(token, timestamp) {
+      const config = pools.find((p) => p.symbol === token.symbol);
+      const base = config && BY_SYMBOL.get(token.symbol === "ETH" ? "WETH" : token.symbol);
+      const quote = config && BY_SYMBOL.get(config.quote);
+      if (!config || !base?.address || !quote?.address) return null;
+
+      const end = Math.max(0, Math.floor(Date.now() / 1000 - timestamp));
+      const [cumulatives] = await new Contract(config.pool, abi, provider).observe([end + windowSeconds, end]);
+      const tick = Number(cumulatives[1] - cumulatives[0]) / windowSeconds;
+
+      // 1.0001^tick is token1 per token0 in raw units; token0 is the lower address
+      const baseIsToken0 = base.address.toLowerCase() < quote.address.toLowerCase();
+      const [dec0, dec1] = baseIsToken0 ? [base.decimals, quote.decimals] : [quote.decimals, base.decimals];
+      const token1PerToken0 = Math.pow(1.0001, tick) * 10 ** (dec0 - dec1);
+      const inQuote = baseIsToken0 ? token1PerToken0 : 1 / token1PerToken0;
+
+      const quoteUsd = quote.stable ? 1 : await source.getPrice(quote, timestamp);
+      return quoteUsd === null ? null : inQuote * quoteUsd;
+    },
+  };
+  return source;
+};
+
+/* ---------- DefiLlama historical prices (HTTP) ---------- */
+
+export const createDefiLlamaSource = ({
+  baseUrl = "https://coins.llama.fi",
+}: { baseUrl?: string } = {}): PriceSource => ({
+  name: "defillama",
+  async getPrice(token, timestamp) {
+    const coin = token.address ? `base:${token.address}` : "coingecko:ethereum";
+    const res = await fetch(`${baseUrl}/prices/historical/${Math.floor(timestamp)}/${coin}`);
+    if (!res.ok) throw new Error(`DefiLlama price failed: HTTP ${res.status}`);
+    const body = await res.json();
+    const price = body?.coins?.[coin]?.price;
+    return typeof price === "number" ? price : null;
+  },
+});
+
+/* ---------- Fixtures (offline dev) ---------- */
+
+/**
+ * Serves canned [timestamp, usd] points per symbol; answers with the latest point
+ * at or before the timestamp.
+ */
+export const createFixtureSource = (fixtures: Record<string, [number, number][]>): PriceSource => ({
+  name: "fixture",
+  async getPrice(token, timestamp) {
+    const points = [...(fixtures[token.symbol] ?? [])].sort((a, b) => a[0] - b[0]);
+    let price: number | null = null;
+    for (const [ts, usd] of points) {
+      if (ts > timestamp) break;
+      price = usd;
+    }
+    return price;
+  },
+});
+
+/* ---------- Cache ---------- */
+
+export interface PriceCache {
+  // null: no source had a price when last asked, and that answer hasn't expired yet
+  get(key: string): Promise<number | null | undefined>;
+  set(key: string, price: number | null): Promise<void>;
+  flush(): Promise<void>;
+}
+
+interface PriceCacheOptions {
+  missTtlMs?: number; // how long a miss is remembered; sources may list a token later
+}
+
+// A price, or a miss remembered until missUntil (unix ms)
+type CacheEntry = number | { missUntil: number };
+
+const MISS_TTL_MS = 60 * 60_000;
+
+const fromEntry = (entry: CacheEntry | undefined) =>
+  typeof entry === "number" ? entry : entry && entry.missUntil > Date.now() ? null : undefined;
+const toEntry = (price: number | null, missTtlMs: number): CacheEntry =>
+  price ?? { missUntil: Date.now() + missTtlMs };
+
+export const createMemoryPriceCache = ({ missTtlMs = MISS_TTL_MS }: PriceCacheOptions = {}): PriceCache => {
+  const prices = new Map<string, CacheEntry>();
+  return {
+    async get(key) { return fromEntry(prices.get(key)); },
+    async set(key, price) { prices.set(key, toEntry(price, missTtlMs)); },
+    async flush() {},
+  };
+};
+
+/**
+ * Memory cache loaded from a JSON file on first use and written back on flush.
+ * Historical prices never change, so prices never expire; misses do.
+ */
+export const createFilePriceCache = (path: string, { missTtlMs = MISS_TTL_MS }: PriceCacheOptions = {}): PriceCache => {
+  let loaded: Promise<Map<string, CacheEntry>> | null = null;
+  let dirty = false;
+
+  const load = () => (loaded ??= readFile(path, "utf8")
+    .then((text) => new Map<string, CacheEntry>(Object.entries(JSON.parse(text))))
+    .catch((e) => {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") console.error("Price cache unreadable, starting empty", e);
+      return new Map<string, CacheEntry>();
+    }));
+
+  return {
+    async get(key) { return fromEntry((await load()).get(key)); },
+    async set(key, price) {
+      (await load()).set(key, toEntry(price, missTtlMs));
+      dirty = true;
+    },
+    async flush() {
+      if (!dirty) return;
+      dirty = false;
+      const prices = await load();
+      for (const [key, entry] of prices) if (fromEntry(entry) === undefined) prices.delete(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify(Object.fromEntries(prices)));
+      await rename(`${path}.tmp`, path);
+    },
+  };
+};
+
+/* ---------- Oracle ---------- */
+
+export interface PriceOracle {
+  getPrice(token: PricedToken, timestamp: number): Promise<number | null>;
+  flush(): Promise<void>;
+}
+
+interface PriceOracleOptions {
+  sources: PriceSource[];
+  cache?: PriceCache;
+  granularitySeconds?: number; // timestamps are bucketed so nearby txs share one lookup
+}
+
+/**
+ * Cache first, then each source in order until one answers.
+ * A source throwing is logged and skipped, like the tx history sources.
+ * A miss is cached only when every source answered; an outage is asked about again.
+ */
+export const createPriceOracle = ({
+  sources,
+  cache = createMemoryPriceCache(),
+  granularitySeconds = 86_400,
+}: PriceOracleOptions): PriceOracle => {
+  // Concurrent asks for the same bucket share one lookup
+  const inFlight = new Map<string, Promise<number | null>>();
+
+  const lookup = async (token: PricedToken, key: string, bucket: number) => {
+    const cached = await cache.get(key);
+    if (cached !== undefined) return cached;
+
+    // Price the middle of the bucket, but never ask about the future
+    const at = Math.min(bucket + granularitySeconds / 2, Math.floor(Date.now() / 1000));
+    let failed = false;
+    for (const source of sources) {
+      try {
+        const price = await source.getPrice(token, at);
+        if (price !== null && Number.isFinite(price) && price > 0) {
+          await cache.set(key, price);
+          return price;
+        }
+      } catch (e) {
+        console.error(`Price source "${source.name}" failed for ${token.symbol}`, e);
+        failed = true;
+      }
+    }
+    if (!failed) await cache.set(key, null);
+    return null;
+  };
+
+  return {
+    getPrice(token, timestamp) {
+      const bucket = Math.floor(timestamp / granularitySeconds) * granularitySeconds;
+      const key = `${token.symbol}:${bucket}`;
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = lookup(token, key, bucket).finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+      }
+      return pending;
+    },
+    flush: () => cache.flush(),
+  };
+};
+
+const LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Attach USD prices at each tx's own timestamp: nativeUsd for ETH sent,
+ * usdPriceAtTs for known token transfers. Unknown tokens stay unpriced.
+ */
+export async function priceTransactions(rawTxs: RawTx[], oracle: PriceOracle) {
+  const eth = BY_SYMBOL.get("ETH")!;
+  const jobs: { token: PricedToken; timestamp: number; apply: (usd: number) => void }[] = [];
+  let unpriced = 0;
+
+  for (const tx of rawTxs) {
+    if (tx.value && tx.value !== "0") {
+      jobs.push({ token: eth, timestamp: tx.blockTimestamp, apply: (usd) => { tx.nativeUsd = usd; } });
+    }
+    for (const t of tx.tokenTransfers ?? []) {
+      const token = findPricedToken(t.token);
+      if (!token) {
+        unpriced++;
+        continue;
+      }
+      jobs.push({ token, timestamp: tx.blockTimestamp, apply: (usd) => { t.usdPriceAtTs = usd; } });
+    }
+  }
+
+  // The oracle's cache dedupes repeated buckets; a small pool keeps sources from being hammered
+  let next = 0;
+  let priced = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+      const usd = await oracle.getPrice(job.token, job.timestamp);
+      if (usd === null) unpriced++;
+      else {
+        job.apply(usd);
+        priced++;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, jobs.length) }, worker));
+  await oracle.flush().catch((e) => console.error("Price cache write failed", e));
+
+  return { priced, unpriced };
+}
@@ -0,0 +1,82 @@
+import { ProtocolCategory } from "../types";
+
+interface ProtocolEntry {
+  protocol: string;
+  category: ProtocolCategory;
+  contracts: string[]; // Base mainnet entry points users call directly
+}
+
+/**
+ * Known Base protocols and the contracts users transact with.
+ * Keep entries to user-facing entry points (routers, pools, markets), not tokens:
+ * a plain ERC20 transfer is not protocol usage.
+ */
+export const BASE_PROTOCOLS: ProtocolEntry[] = [
+  // DEXs & aggregators
+  { protocol: 'Uniswap', category: 'dex', contracts: [
+    '0x2626664c2603336E57B271c5C0b26F421741e481', // SwapRouter02
+    '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD', // UniversalRouter
+    '0x6fF5693b99212Da76ad316178A184AB56D299b43', // UniversalRouter (v4)
+  ] },
+  { protocol: 'Aerodrome', category: 'dex', contracts: [
+    '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43', // Router
+    '0xBE6D8f0d05cC4be24d5167a3eF062215bE6D18a5', // Slipstream SwapRouter
+    '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5', // Voter
+  ] },
+  { protocol: 'BaseSwap', category: 'dex', contracts: ['0x327Df1E6de05895d2ab08513aaDD9313Fe505d86'] },
+  { protocol: 'PancakeSwap', category: 'dex', contracts: ['0x678Aa4bF4E210cf2166753e054d5b7c31cc7fa86'] },
+  { protocol: '1inch', category: 'dex', contracts: ['0x111111125421cA6dc452d289314280a0f8842A65'] },
+  { protocol: '0x', category: 'dex', contracts: ['0xDef1C0ded9bec7F1a1670819833240f027b25EfF'] },
+
+  // Lending
+  { protocol: 'Moonwell', category: 'lending', contracts: [
+    '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C', // Comptroller
+    '0x70778cfcFC475c7eA0f24cC625Baf6EaE475D0c9', // WETH router
+  ] },
+  { protocol: 'Aave', category: 'lending', contracts: [
+    '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5', // Pool
+    '0x8be473dCfA93132658821E67CbEB684ec8Ea2E74', // WrappedTokenGateway
+  ] },
+  { protocol: 'Compound', category: 'lending', contracts: [
+    '0xb125E6687d4313864e53df431d5425969c15Eb2F', // cUSDCv3
+    '0x46e6b214b524310239732D51387075E0e70970bf', // cWETHv3
+  ] },
+  { protocol: 'Morpho', category: 'lending', contracts: ['0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb'] },
+
+  // Bridges
+  { protocol: 'Base Bridge', category: 'bridge', contracts: [
+    '0x4200000000000000000000000000000000000010', // L2StandardBridge
+    '0x4200000000000000000000000000000000000016', // L2ToL1MessagePasser
+  ] },
+  { protocol: 'Across', category: 'bridge', contracts: ['0x09aea4b2242abC8bb4BB78D537A67a245A7bEC64'] },
+
+  // NFT marketplaces & mints
+  { protocol: 'OpenSea', category: 'nft', contracts: [
+    '0x00000000000000ADc04C56Bf30aC9d3c0aAF14dC', // Seaport 1.5
+    '0x0000000000000068F116a894984e2DB1123eB395', // Seaport 1.6
+  ] },
+  { protocol: 'Zora', category: 'nft', contracts: ['0x777777C338d93e2C7adf08D102d45CA7CC4Ed021'] },
+
+  // Social & identity
+  { protocol: 'Basenames', category: 'social', contracts: ['0x4cCb0BB02FCABA27e82a56646E81d8c5bC4119a5'] },
+  { protocol: 'friend.tech', category: 'social', contracts: ['0xCF205808Ed36593aa40a44F10c7f7C2F67d4A4d4'] },
+];
+
+export const PROTOCOL_CATEGORIES: { key: ProtocolCategory; label: string }[] = [
+  { key: 'dex', label: 'DEX / Swaps' },
+  { key: 'lending', label: 'Lending' },
+  { key: 'bridge', label: 'Bridges' },
+  { key: 'nft', label: 'NFTs' },
+  { key: 'social', label: 'Social & Identity' },
+];
+
+const BY_CONTRACT = new Map<string, ProtocolEntry>(
+  BASE_PROTOCOLS.flatMap((entry) => entry.contracts.map((c) => [c.toLowerCase(), entry] as const))
+);
+
+export const lookupProtocol = (contract: string | null | undefined): ProtocolEntry | undefined =>
+  contract ? BY_CONTRACT.get(contract.toLowerCase()) : undefined;
+
+// Protocols in a category the wallet has not used, for suggestions
+export const protocolsInCategory = (category: ProtocolCategory) =>
+  BASE_PROTOCOLS.filter((p) => p.category === category).map((p) => p.protocol);
@@ -0,0 +1,57 @@
+import { AllocationCurve, RewardCurvePoint, RewardScenario, RewardScenarios, ScenarioSettings } from "../types";
+import { POOL_SIZE, shareOfPool } from "./scoringUtils";
+
+// A hypothetical token: 10B supply at a $5B FDV is $0.50 a token
+export const DEFAULT_SCENARIO_SETTINGS: ScenarioSettings = {
+  poolSize: POOL_SIZE,
+  curve: 'linear',
+  fdvUsd: 5_000_000_000,
+  totalSupply: 10_000_000_000,
+};
+
+// Labels and descriptions live in the locale catalogs under curve.<id>
+export const ALLOCATION_CURVES: AllocationCurve[] = ['linear', 'tiered', 'quadratic', 'capped'];
+
+// Bear and bull move pool size and valuation together around the base case
+const BEAR = { pool: 0.5, fdv: 0.3 };
+const BULL = { pool: 1.5, fdv: 3 };
+
+const CAP_SCORE = 0.75;
+
+/**
+ * Share of the pool under a curve shape, built on the model's breakpoints
+ * so every shape agrees at the top of the tier it was fitted to.
+ */
+export const shareForCurve = (score: number, shape: AllocationCurve, points: RewardCurvePoint[]): number => {
+  if (score <= 0) return 0;
+  switch (shape) {
+    case 'linear':
+      return shareOfPool(score, points);
+    case 'tiered':
+      return [...points].reverse().find((p) => p.score <= score)?.pct ?? 0;
+    case 'quadratic':
+      return points[points.length - 1].pct * Math.min(score, 1) ** 2;
+    case 'capped':
+      return Math.min(shareOfPool(score, points), shareOfPool(CAP_SCORE, points));
+  }
+};
+
+const scenario = (share: number, poolSize: number, fdvUsd: number, totalSupply: number): RewardScenario => {
+  const tokens = Math.round(poolSize * share);
+  return { poolSize, fdvUsd, tokens, usd: Math.round(tokens * (fdvUsd / totalSupply)) };
+};
+
+export const computeRewardScenarios = (
+  score: number,
+  points: RewardCurvePoint[],
+  settings: ScenarioSettings = DEFAULT_SCENARIO_SETTINGS
+): RewardScenarios => {
+  const share = shareForCurve(score, settings.curve, points);
+  const { poolSize, fdvUsd, totalSupply } = settings;
+  return {
+    settings,
+    bear: scenario(share, poolSize * BEAR.pool, fdvUsd * BEAR.fdv, totalSupply),
+    base: scenario(share, poolSize, fdvUsd, totalSupply),
+    bull: scenario(share, poolSize * BULL.pool, fdvUsd * BULL.fdv, totalSupply),
+  };
+};
@@ -0,0 +1,122 @@
+import { JsonRpcApiProvider, JsonRpcError, JsonRpcPayload, JsonRpcResult, Network } from "ethers";
+import { ChainConfig } from "./chains";
+import { DataSourceError, classifyError } from "./dataErrors";
+
+interface RpcProviderOptions {
+  urls: string[]; // tried in order; the last one that answered goes first next time
+  chainId: number;
+  timeoutMs?: number;
+  retries?: number; // full passes over every endpoint after the first
+  backoffMs?: number; // doubled after each pass
+}
+
+type RpcResponse = JsonRpcResult | JsonRpcError;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * ethers provider over several endpoints. Transport failures (timeouts, 429s, 5xx,
+ * unreachable hosts) fail over to the next endpoint and back off between passes;
+ * JSON-RPC errors such as reverts are real answers and go straight back to ethers.
+ * Identical in-flight requests share one round trip.
+ */
+class FailoverProvider extends JsonRpcApiProvider {
+  private preferred = 0;
+  private inFlight = new Map<string, Promise<RpcResponse>>();
+
+  constructor(private readonly opts: Required<RpcProviderOptions>) {
+    const network = Network.from(opts.chainId);
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<RpcResponse[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(payloads.map(async (p) => ({ ...(await this.dedupe(p)), id: p.id })));
+  }
+
+  private dedupe(payload: JsonRpcPayload) {
+    const key = `${payload.method}:${JSON.stringify(payload.params)}`;
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.withFailover(payload).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async withFailover(payload: JsonRpcPayload): Promise<RpcResponse> {
+    const { urls, retries, backoffMs } = this.opts;
+    let lastError: unknown = null;
+    for (let pass = 0; pass <= retries; pass++) {
+      if (pass > 0) await sleep(backoffMs * 2 ** (pass - 1));
+      for (let i = 0; i < urls.length; i++) {
+        const index = (this.preferred + i) % urls.length;
+        try {
+          const response = await this.post(urls[index], payload);
+          this.preferred = index;
+          return response;
+        } catch (e) {
+          lastError = e;
+        }
+      }
+    }
+    const kind = classifyError(lastError);
+    throw new DataSourceError(
+      `RPC ${payload.method} failed on ${urls.length} endpoint${urls.length === 1 ? "" : "s"} (${kind}): ${lastError instanceof Error ? lastError.message : lastError}`,
+      kind,
+      "rpc"
+    );
+  }
+
+  private async post(url: string, payload: JsonRpcPayload): Promise<RpcResponse> {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.opts.timeoutMs),
+    });
+    if (res.status === 429) throw new DataSourceError(`${new URL(url).host} rate limited (HTTP 429)`, "rateLimited", "rpc");
+    if (!res.ok) throw new DataSourceError(`${new URL(url).host} returned HTTP ${res.status}`, "unavailable", "rpc");
+    const body = await res.json().catch(() => null);
+    if (!body || typeof body !== "object" || !("result" in body || "error" in body)) {
+      throw new DataSourceError(`${new URL(url).host} sent a malformed response`, "badResponse", "rpc");
+    }
+    // Some nodes report rate limits in-band
+    if (body.error && /rate limit|too many requests/i.test(body.error.message ?? "")) {
+      throw new DataSourceError(`${new URL(url).host} rate limited: ${body.error.message}`, "rateLimited", "rpc");
+    }
+    return body;
+  }
+}
+
+export const createRpcProvider = ({
+  urls,
+  chainId,
+  timeoutMs = 8_000,
+  retries = 2,
+  backoffMs = 500,
+}: RpcProviderOptions): JsonRpcApiProvider => {
+  if (urls.length === 0) throw new Error("createRpcProvider needs at least one endpoint");
+  return new FailoverProvider({ urls, chainId, timeoutMs, retries, backoffMs });
+};
+
+/**
+ * Endpoints for a chain: RPC_URLS_<CHAIN> (comma-separated, e.g. RPC_URLS_BASE for a
+ * paid provider) first, then the chain's public endpoint and fallbacks.
+ */
+export const rpcEndpoints = (chain: ChainConfig): string[] => {
+  const fromEnv = process.env[`RPC_URLS_${chain.id.replace(/-/g, "_").toUpperCase()}`];
+  const configured = fromEnv ? fromEnv.split(",").map((u) => u.trim()).filter(Boolean) : [];
+  return [...new Set([...configured, chain.rpcUrl, ...(chain.fallbackRpcUrls ?? [])])];
+};
+
+// One provider per chain, so deduplication and the preferred endpoint are shared by every caller
+const providers = new Map<string, JsonRpcApiProvider>();
+export const getRpcProvider = (chain: ChainConfig): JsonRpcApiProvider => {
+  let provider = providers.get(chain.id);
+  if (!provider) {
+    provider = createRpcProvider({ urls: rpcEndpoints(chain), chainId: chain.chainId });
+    providers.set(chain.id, provider);
+  }
+  return provider;
+};
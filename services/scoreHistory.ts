@@ -0,0 +1,94 @@
+import { EstimationResult, ScoreSnapshot } from "../types";
+import { ownerHeaders } from "./walletAuth";
+
+const DB_NAME = "base-rewards";
+const STORE = "snapshots";
+
+// Same wallets in any order or casing share one history
+export const historyKey = (addresses: string[]) =>
+  addresses.map((a) => a.toLowerCase()).sort().join(",");
+
+export const toSnapshot = (result: EstimationResult): ScoreSnapshot => ({
+  key: historyKey(result.addresses),
+  generatedAt: result.generatedAt,
+  activityScore: result.activityScore,
+  estimatedRewards: result.estimatedRewards,
+  scoreBreakdown: result.scoreBreakdown,
+  scoringModel: result.scoringModel,
+  chain: result.chain,
+});
+
+/* ---------- Browser (IndexedDB) ---------- */
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: ["key", "generatedAt"] });
+      store.createIndex("key", "key");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const saveSnapshot = async (result: EstimationResult): Promise<void> => {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, "readwrite");
+      tx.objectStore(STORE).put(toSnapshot(result));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (e) {
+    // History is a nice-to-have; never block showing a result on it
+    console.error("Could not save snapshot", e);
+  }
+};
+
+async function loadLocalSnapshots(key: string): Promise<ScoreSnapshot[]> {
+  if (typeof indexedDB === "undefined") return [];
+  try {
+    const db = await openDb();
+    const rows = await new Promise<ScoreSnapshot[]>((resolve, reject) => {
+      const request = db.transaction(STORE).objectStore(STORE).index("key").getAll(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+    return rows;
+  } catch (e) {
+    console.error("Could not load local history", e);
+    return [];
+  }
+}
+
+// Saved history is owner-only; other lookups keep just this browser's copy
+async function loadServerSnapshots(addresses: string[]): Promise<ScoreSnapshot[]> {
+  const headers = ownerHeaders(addresses);
+  if (!headers.Authorization) return [];
+  const params = new URLSearchParams();
+  for (const address of addresses) params.append("address", address);
+  try {
+    const res = await fetch(`/api/history?${params}`, { headers });
+    if (!res.ok) return [];
+    return (await res.json()).snapshots ?? [];
+  } catch {
+    return []; // no server history available (e.g. static preview)
+  }
+}
+
+/**
+ * Every known snapshot for these wallets, oldest first.
+ * Local and server copies of the same run share generatedAt and are merged.
+ */
+export const getScoreHistory = async (addresses: string[]): Promise<ScoreSnapshot[]> => {
+  const key = historyKey(addresses);
+  const [local, server] = await Promise.all([loadLocalSnapshots(key), loadServerSnapshots(addresses)]);
+  const byTime = new Map<number, ScoreSnapshot>();
+  for (const snapshot of [...server, ...local]) byTime.set(snapshot.generatedAt, snapshot);
+  return [...byTime.values()].sort((a, b) => a.generatedAt - b.generatedAt);
+};
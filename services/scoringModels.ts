@@ -0,0 +1,84 @@
+import { ScoreComponent, ScoringModel } from "../types";
+
+// Display order of the breakdown rows; labels are the `component.*` locale keys
+export const SCORE_COMPONENTS: ScoreComponent[] = ['txScore', 'activeDaysScore', 'protocolScore', 'volumeScore', 'recencyScore'];
+
+// The original hand-tuned model. Keep its numbers stable: past results reference base-default@1.0.0.
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  id: 'base-default',
+  version: '1.0.0',
+  name: 'Base Default',
+  description: 'Balanced model favouring raw transaction count.',
+  curves: {
+    txLogDivisor: 3,        // 1000 txs = 1.0
+    activeDaysCap: 365,     // full year of daily activity
+    protocolCap: 8,
+    volumeLogDivisor: 5.8,  // aligns with $100k-$1M volume range
+    recencyGraceDays: 7,
+    recencyDecayDays: 83,   // ~3 months total
+  },
+  weights: {
+    txScore: 0.35,
+    activeDaysScore: 0.25,
+    protocolScore: 0.20,
+    volumeScore: 0.15,
+    recencyScore: 0.05,
+  },
+};
+
+// Arbitrum's criteria leaned on sustained activity over time and value moved
+export const ARBITRUM_STYLE_MODEL: ScoringModel = {
+  id: 'arbitrum-style',
+  version: '1.1.0',
+  name: 'Arbitrum-style',
+  description: 'Rewards longevity and value moved over raw tx spam.',
+  curves: {
+    txLogDivisor: 2.5,      // ~300 txs = 1.0
+    activeDaysCap: 180,
+    protocolCap: 6,
+    volumeLogDivisor: 5,    // $100k = 1.0
+    recencyGraceDays: 30,
+    recencyDecayDays: 150,
+  },
+  weights: {
+    txScore: 0.20,
+    activeDaysScore: 0.35,
+    protocolScore: 0.15,
+    volumeScore: 0.25,
+    recencyScore: 0.05,
+  },
+  sybilPenalty: 0.6, // Arbitrum's drop filtered farming clusters before allocating
+};
+
+// Optimism's drops favoured repeat, recent, multi-app users
+export const OPTIMISM_STYLE_MODEL: ScoringModel = {
+  id: 'optimism-style',
+  version: '1.1.0',
+  name: 'Optimism-style',
+  description: 'Rewards protocol diversity and recent, repeat usage.',
+  curves: {
+    txLogDivisor: 2,        // 100 txs = 1.0
+    activeDaysCap: 120,
+    protocolCap: 12,
+    volumeLogDivisor: 6,
+    recencyGraceDays: 14,
+    recencyDecayDays: 46,
+  },
+  weights: {
+    txScore: 0.15,
+    activeDaysScore: 0.25,
+    protocolScore: 0.35,
+    volumeScore: 0.10,
+    recencyScore: 0.15,
+  },
+  sybilPenalty: 0.5,
+};
+
+export const SCORING_MODELS: ScoringModel[] = [
+  DEFAULT_SCORING_MODEL,
+  ARBITRUM_STYLE_MODEL,
+  OPTIMISM_STYLE_MODEL,
+];
+
+export const getScoringModel = (id: string): ScoringModel =>
+  SCORING_MODELS.find((m) => m.id === id) ?? DEFAULT_SCORING_MODEL;
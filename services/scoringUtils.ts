@@ -1,7 +1,8 @@
-import { ScoreBreakdown } from "../types";
+import { RewardCurvePoint, ScoreBreakdown, ScoreComponent, ScoringModel } from "../types";
+import { DEFAULT_SCORING_MODEL } from "./scoringModels";
 
 // Constants for simulation
-const POOL_SIZE = 1_000_000_000; // 1 Billion BASE simulation pool
+export const POOL_SIZE = 1_000_000_000; // 1 Billion BASE simulation pool
 
 // REALISTIC AIRDROP MAPPING
 // Based on typical L2 airdrops (e.g. Arbitrum max was ~10k tokens).
@@ -9,7 +10,7 @@ const POOL_SIZE = 1_000_000_000; // 1 Billion BASE simulation pool
 // 0.75 score -> ~4,500 tokens
 // 0.50 score -> ~1,500 tokens
 // 0.25 score -> ~200 tokens
-const MAPPING_POINTS = [
+export const MAPPING_POINTS: RewardCurvePoint[] = [
   { score: 0.00, pct: 0.0000000 },
   { score: 0.25, pct: 0.0000002 }, // 0.00002% -> 200 tokens
   { score: 0.50, pct: 0.0000015 }, // 0.00015% -> 1,500 tokens
@@ -22,36 +23,40 @@ export const computeScores = (
   activeDays: number,
   protocols: number,
   volumeUSD: number,
-  recencyDays: number = 2 // Default assumption if unknown
+  recencyDays: number = 2, // Default assumption if unknown
+  model: ScoringModel = DEFAULT_SCORING_MODEL,
+  sybilRisk: number = 0 // 0..1, only matters when the model sets sybilPenalty
 ): ScoreBreakdown => {
-  
-  // 1. Transaction Score: Logarithmic scale (0 to 1000 txs)
-  // log10(tx+1) / 3 -> 1000 txs = 1.0
-  const txScore = Math.min(Math.log10(txCount + 1) / 3, 1);
+  const { curves, weights } = model;
+
+  // 1. Transaction Score: Logarithmic scale
+  const txScore = Math.min(Math.log10(txCount + 1) / curves.txLogDivisor, 1);
 
-  // 2. Active Days Score: Linear scale
-  // Denominator set to 365 to reward full year of daily activity.
-  // This prevents users with ~400 days from capping instantly.
-  const activeDaysScore = Math.min(activeDays / 365, 1);
+  // 2. Active Days Score: Linear scale up to the model's cap
+  const activeDaysScore = Math.min(activeDays / curves.activeDaysCap, 1);
 
-  // 3. Protocol Score: Linear scale (0 to 8 protocols)
-  const protocolScore = Math.min(protocols / 8, 1);
+  // 3. Protocol Score: Linear scale up to the model's cap
+  const protocolScore = Math.min(protocols / curves.protocolCap, 1);
 
   // 4. Volume Score: Logarithmic scale
-  // Denominator 5.8 to align score distribution with expected volume ranges ($100k-$1M)
-  const volumeScore = Math.min(Math.log10(volumeUSD + 1) / 5.8, 1);
+  const volumeScore = Math.min(Math.log10(volumeUSD + 1) / curves.volumeLogDivisor, 1);
 
-  // 5. Recency Score: 1 if < 7 days, decays over 3 months
-  const recencyScore = recencyDays <= 7 ? 1 : Math.max(0, 1 - (recencyDays - 7) / 83);
+  // 5. Recency Score: 1 within the grace window, then linear decay
+  const recencyScore = recencyDays <= curves.recencyGraceDays
+    ? 1
+    : Math.max(0, 1 - (recencyDays - curves.recencyGraceDays) / curves.recencyDecayDays);
 
   // Weighted Sum
-  // Adjusted: Txs 35%, Active 25%, Proto 20%, Vol 15%, Recency 5%
-  const finalScore = 
-    (txScore * 0.35) + 
-    (activeDaysScore * 0.25) + 
-    (protocolScore * 0.20) + 
-    (volumeScore * 0.15) + 
-    (recencyScore * 0.05);
+  const weightedScore = 
+    (txScore * weights.txScore) + 
+    (activeDaysScore * weights.activeDaysScore) + 
+    (protocolScore * weights.protocolScore) + 
+    (volumeScore * weights.volumeScore) + 
+    (recencyScore * weights.recencyScore);
+
+  // 6. Optional sybil penalty: scale down in proportion to bot-pattern risk
+  const sybilPenalty = weightedScore * (model.sybilPenalty ?? 0) * Math.min(Math.max(sybilRisk, 0), 1);
+  const finalScore = weightedScore - sybilPenalty;
 
   return {
     txScore: parseFloat(txScore.toFixed(2)),
@@ -59,26 +64,59 @@ export const computeScores = (
     protocolScore: parseFloat(protocolScore.toFixed(2)),
     volumeScore: parseFloat(volumeScore.toFixed(2)),
     recencyScore: parseFloat(recencyScore.toFixed(2)),
-    finalScore: parseFloat(finalScore.toFixed(3))
+    finalScore: parseFloat(finalScore.toFixed(3)),
+    ...(sybilPenalty > 0 ? { sybilPenalty: parseFloat(sybilPenalty.toFixed(3)) } : {}),
   };
 };
 
-export const mapScoreToRewards = (score: number): number => {
+// A model's reward tiers: its own fitted curve, or the default mapping
+export const rewardCurveFor = (model: ScoringModel): RewardCurvePoint[] =>
+  model.rewardCurve ?? MAPPING_POINTS;
+
+// Share of the pool a score earns on a piecewise-linear curve
+export const shareOfPool = (score: number, curve: RewardCurvePoint[] = MAPPING_POINTS): number => {
   if (score <= 0) return 0;
   
   // Find the range the score falls into
-  for (let i = 0; i < MAPPING_POINTS.length - 1; i++) {
-    const p1 = MAPPING_POINTS[i];
-    const p2 = MAPPING_POINTS[i + 1];
+  for (let i = 0; i < curve.length - 1; i++) {
+    const p1 = curve[i];
+    const p2 = curve[i + 1];
 
     if (score >= p1.score && score <= p2.score) {
       // Linear interpolation
       const t = (score - p1.score) / (p2.score - p1.score);
-      const pct = p1.pct + t * (p2.pct - p1.pct);
-      return Math.round(POOL_SIZE * pct);
+      return p1.pct + t * (p2.pct - p1.pct);
     }
   }
 
   // Cap at max
-  return Math.round(POOL_SIZE * MAPPING_POINTS[MAPPING_POINTS.length - 1].pct);
-};
\ No newline at end of file
+  return curve[curve.length - 1].pct;
+};
+
+export const mapScoreToRewards = (score: number, curve: RewardCurvePoint[] = MAPPING_POINTS): number =>
+  Math.round(POOL_SIZE * shareOfPool(score, curve));
+
+/**
+ * Inverse of the component curves: the raw stat needed for a component score.
+ * For recency this is the maximum days since last tx that still earns the score.
+ */
+export const statForComponentScore = (
+  component: ScoreComponent,
+  score: number,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
+): number => {
+  const s = Math.min(Math.max(score, 0), 1);
+  const { curves } = model;
+  switch (component) {
+    case 'txScore':
+      return Math.ceil(Math.pow(10, s * curves.txLogDivisor) - 1);
+    case 'activeDaysScore':
+      return Math.ceil(s * curves.activeDaysCap);
+    case 'protocolScore':
+      return Math.ceil(s * curves.protocolCap);
+    case 'volumeScore':
+      return Math.ceil(Math.pow(10, s * curves.volumeLogDivisor) - 1);
+    case 'recencyScore':
+      return Math.floor(curves.recencyGraceDays + (1 - s) * curves.recencyDecayDays);
+  }
+};
@@ -0,0 +1,46 @@
+import { Locale } from "../types";
+import { minikitConfig } from "../minikit.config";
+
+const APP_URL = minikitConfig.miniapp.homeUrl.replace(/\/$/, "");
+
+const query = (addresses: string[], modelId: string, chainId: string, locale?: Locale) => {
+  const params = new URLSearchParams();
+  for (const address of addresses) params.append("address", address);
+  params.set("model", modelId);
+  params.set("chain", chainId);
+  if (locale) params.set("lang", locale);
+  return params.toString();
+};
+
+// Opens the app straight on the result screen
+export const resultPath = (addresses: string[], modelId: string, chainId: string) =>
+  `/?${query(addresses, modelId, chainId)}`;
+export const resultUrl = (addresses: string[], modelId: string, chainId: string) =>
+  `${APP_URL}${resultPath(addresses, modelId, chainId)}`;
+
+// Page carrying the mini app embed meta tags; this is what gets attached to casts.
+// The embed is worded in the sharer's language; the result screen follows the viewer's.
+export const shareUrl = (addresses: string[], modelId: string, chainId: string, locale?: Locale) =>
+  `${APP_URL}/api/share?${query(addresses, modelId, chainId, locale)}`;
+
+// 3:2 PNG of the gauge, score and rewards
+export const ogImageUrl = (addresses: string[], modelId: string, chainId: string, locale?: Locale) =>
+  `${APP_URL}/api/og?${query(addresses, modelId, chainId, locale)}`;
+
+/**
+ * Parse `?address=...&model=...&chain=...&lang=...` (address may repeat or be comma-separated).
+ */
+export const readDeepLink = (search: string): {
+  addresses: string[];
+  modelId: string | null;
+  chainId: string | null;
+  lang: string | null;
+} => {
+  const params = new URLSearchParams(search);
+  return {
+    addresses: params.getAll("address").flatMap((a) => a.split(",")).map((a) => a.trim()).filter(Boolean),
+    modelId: params.get("model"),
+    chainId: params.get("chain"),
+    lang: params.get("lang"),
+  };
+};
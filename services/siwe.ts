@@ -0,0 +1,57 @@
+// EIP-4361 (Sign-In with Ethereum) messages, built in the browser and parsed on the server
+
+export interface SiweMessage {
+  domain: string; // host the user is signing in to
+  address: string;
+  statement: string;
+  uri: string;
+  chainId: number;
+  nonce: string; // alphanumeric, issued by /api/auth
+  issuedAt: string; // ISO 8601
+  expirationTime?: string;
+}
+
+export const SIWE_STATEMENT = "Sign in to save your score history and alerts. This is free and sends no transaction.";
+
+export const formatSiweMessage = (m: SiweMessage): string => [
+  `${m.domain} wants you to sign in with your Ethereum account:`,
+  m.address,
+  "",
+  m.statement,
+  "",
+  `URI: ${m.uri}`,
+  "Version: 1",
+  `Chain ID: ${m.chainId}`,
+  `Nonce: ${m.nonce}`,
+  `Issued At: ${m.issuedAt}`,
+  ...(m.expirationTime ? [`Expiration Time: ${m.expirationTime}`] : []),
+].join("\n");
+
+const MESSAGE_PATTERN = new RegExp([
+  "^(?<domain>[^\\s]+) wants you to sign in with your Ethereum account:",
+  "(?<address>0x[0-9a-fA-F]{40})",
+  "",
+  "(?<statement>[^\\n]*)",
+  "",
+  "URI: (?<uri>[^\\s]+)",
+  "Version: 1",
+  "Chain ID: (?<chainId>\\d+)",
+  "Nonce: (?<nonce>[0-9a-zA-Z]{8,})",
+  "Issued At: (?<issuedAt>[^\\s]+)",
+].join("\\n") + "(?:\\nExpiration Time: (?<expirationTime>[^\\s]+))?$");
+
+// Only the subset formatSiweMessage writes; anything else is rejected rather than half-read
+export const parseSiweMessage = (text: string): SiweMessage | null => {
+  const groups = MESSAGE_PATTERN.exec(text)?.groups;
+  if (!groups) return null;
+  return {
+    domain: groups.domain,
+    address: groups.address,
+    statement: groups.statement,
+    uri: groups.uri,
+    chainId: Number(groups.chainId),
+    nonce: groups.nonce,
+    issuedAt: groups.issuedAt,
+    expirationTime: groups.expirationTime,
+  };
+};
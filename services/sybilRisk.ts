@@ -0,0 +1,158 @@
+import { RawTx, SybilRisk, SybilSignal } from "../types";
+
+// How much each signal can contribute at full strength. Tune here, not in the detectors.
+const SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  metronomic: 0.45,
+  selfTransfers: 0.35,
+  singleProtocol: 0.3,
+  fundingCluster: 0.4,
+};
+
+const MIN_TXS = 10; // below this every pattern is noise
+
+// Who first sent the wallet ETH, and how many other wallets that address seeded
+export interface FundingCluster {
+  funder: string;
+  fundedWallets: number;
+}
+
+type Finding = SybilRisk['reasons'][number] | null;
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+/**
+ * Scripts fire on a timer; people don't. A low coefficient of variation
+ * across gaps between txs means near-constant spacing.
+ */
+function detectMetronomic(txs: RawTx[]): Finding {
+  const times = txs.map((tx) => tx.blockTimestamp).filter((t) => t > 0).sort((a, b) => a - b);
+  if (times.length < MIN_TXS) return null;
+  const gaps = times.slice(1).map((t, i) => t - times[i]).filter((g) => g > 0);
+  if (gaps.length < MIN_TXS - 1) return null;
+  const mean = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+  const sd = Math.sqrt(gaps.reduce((a, g) => a + (g - mean) ** 2, 0) / gaps.length);
+  const cv = sd / mean;
+  // Organic wallets sit well above 1; 0.1 is clockwork
+  const strength = clamp01((0.5 - cv) / 0.4);
+  if (strength === 0) return null;
+  const spread = Math.round(cv * 100);
+  return {
+    signal: 'metronomic',
+    strength,
+    detail: `Transactions are evenly spaced (${gaps.length} gaps vary by only ${spread}%).`,
+    values: { gaps: gaps.length, spread },
+  };
+}
+
+// Sends to itself and dust plain transfers pad the nonce without doing anything
+function detectSelfTransfers(txs: RawTx[]): Finding {
+  if (txs.length < MIN_TXS) return null;
+  const loops = txs.filter((tx) => {
+    if (!tx.to) return false;
+    if (tx.to.toLowerCase() === tx.from.toLowerCase()) return true;
+    if (tx.input && tx.input !== "0x") return false;
+    const eth = Number(tx.value) / 1e18;
+    return eth === 0 || (tx.nativeUsd !== undefined && eth * tx.nativeUsd < 1);
+  }).length;
+  const share = loops / txs.length;
+  const strength = clamp01((share - 0.2) / 0.5);
+  if (strength === 0) return null;
+  return {
+    signal: 'selfTransfers',
+    strength,
+    detail: `${loops} of ${txs.length} transactions are self-sends or dust transfers.`,
+    values: { loops, count: txs.length },
+  };
+}
+
+// The same contract over and over is the classic farming loop
+function detectSingleProtocol(txs: RawTx[]): Finding {
+  const calls = txs.filter((tx) => tx.to && tx.input && tx.input !== "0x");
+  if (calls.length < 20) return null;
+  const counts = new Map<string, number>();
+  for (const tx of calls) counts.set(tx.to!.toLowerCase(), (counts.get(tx.to!.toLowerCase()) ?? 0) + 1);
+  const top = Math.max(...counts.values());
+  const share = top / calls.length;
+  const strength = clamp01((share - 0.7) / 0.25);
+  if (strength === 0) return null;
+  return {
+    signal: 'singleProtocol',
+    strength,
+    detail: `${Math.round(share * 100)}% of ${calls.length} contract calls hit a single contract.`,
+    values: { share: Math.round(share * 100), count: calls.length },
+  };
+}
+
+function detectFundingCluster(funding: FundingCluster | null): Finding {
+  if (!funding || funding.fundedWallets < 20) return null;
+  const strength = clamp01((funding.fundedWallets - 20) / 80);
+  const funder = `${funding.funder.slice(0, 6)}…${funding.funder.slice(-4)}`;
+  return {
+    signal: 'fundingCluster',
+    strength: Math.max(strength, 0.25),
+    detail: `First funded by ${funder}, which seeded ${funding.fundedWallets} other wallets.`,
+    values: { funder, count: funding.fundedWallets },
+  };
+}
+
+/**
+ * Combine independent signals: each removes part of the remaining "organic" probability,
+ * so two medium signals outweigh one, and nothing exceeds 1.
+ */
+export const assessSybilRisk = (rawTxs: RawTx[], funding: FundingCluster | null = null): SybilRisk => {
+  const reasons = [
+    detectMetronomic(rawTxs),
+    detectSelfTransfers(rawTxs),
+    detectSingleProtocol(rawTxs),
+    detectFundingCluster(funding),
+  ]
+    .filter((f): f is NonNullable<Finding> => f !== null)
+    .map((f) => ({ ...f, strength: parseFloat(f.strength.toFixed(2)) }));
+
+  const organic = reasons.reduce((p, r) => p * (1 - SIGNAL_WEIGHTS[r.signal] * r.strength), 1);
+  const score = parseFloat((1 - organic).toFixed(2));
+  return {
+    score,
+    level: score < 0.3 ? 'low' : score < 0.6 ? 'medium' : 'high',
+    reasons: reasons.sort((a, b) => SIGNAL_WEIGHTS[b.signal] * b.strength - SIGNAL_WEIGHTS[a.signal] * a.strength),
+  };
+};
+
+const BUSY_FUNDER_TXS = 1000; // a full first page means an exchange or bridge, not a farm disperser
+
+async function explorerTxs(explorerApiUrl: string, address: string, sort: "asc" | "desc", offset: number) {
+  const params = new URLSearchParams({ module: "account", action: "txlist", address, sort, page: "1", offset: String(offset) });
+  const res = await fetch(`${explorerApiUrl}?${params}`);
+  if (!res.ok) throw new Error(`Explorer txlist failed: HTTP ${res.status}`);
+  const body = await res.json();
+  if (!Array.isArray(body.result)) throw new Error(`Explorer txlist failed: ${body.message}`);
+  return body.result as { from: string; to: string; value: string; input: string }[];
+}
+
+/**
+ * Find the wallet's first ETH funder and count the distinct wallets it sent plain ETH to.
+ * Busy funders (exchanges, bridges) are ignored: funding half of Base proves nothing.
+ * Returns null when the lookup fails or there is nothing to report.
+ */
+export const fetchFundingCluster = async (address: string, explorerApiUrl: string): Promise<FundingCluster | null> => {
+  try {
+    const self = address.toLowerCase();
+    const first = (await explorerTxs(explorerApiUrl, address, "asc", 50))
+      .find((tx) => tx.to?.toLowerCase() === self && tx.value !== "0");
+    if (!first) return null;
+
+    const funderTxs = await explorerTxs(explorerApiUrl, first.from, "desc", BUSY_FUNDER_TXS);
+    if (funderTxs.length >= BUSY_FUNDER_TXS) return null;
+    const funder = first.from.toLowerCase();
+    const recipients = new Set(
+      funderTxs
+        .filter((tx) => tx.from.toLowerCase() === funder && tx.value !== "0" && (!tx.input || tx.input === "0x"))
+        .map((tx) => tx.to.toLowerCase())
+    );
+    recipients.delete(self);
+    return { funder: first.from, fundedWallets: recipients.size };
+  } catch (e) {
+    console.error("Funding source lookup failed", e);
+    return null;
+  }
+};
@@ -0,0 +1,119 @@
+import { ScoreComponent, ScoringModel } from "../types";
+import { computeScores, mapScoreToRewards, rewardCurveFor } from "./scoringUtils";
+
+// The stats computeScores consumes, as the simulator and planner manipulate them
+export interface SimStats {
+  txCount: number;
+  activeDays: number;
+  protocols: number;
+  volumeUSD: number;
+  recencyDays: number;
+}
+
+interface Lever {
+  component: ScoreComponent;
+  stat: keyof SimStats;
+  move: (value: number) => number; // one step; multiplicative on log curves so steps stay visible
+  cost: (from: number, to: number) => number; // rough effort units, so levers are comparable
+}
+
+// Effort is a judgement call: a protocol is a new app to learn, a day needs a calendar day,
+// a tx is a click. Tune here rather than in the algorithm.
+const LEVERS: Lever[] = [
+  { component: 'txScore', stat: 'txCount',
+    move: (v) => Math.max(v + 10, Math.round(v * 1.1)), cost: (a, b) => (b - a) * 1 },
+  { component: 'activeDaysScore', stat: 'activeDays',
+    move: (v) => v + 5, cost: (a, b) => (b - a) * 3 },
+  { component: 'protocolScore', stat: 'protocols',
+    move: (v) => v + 1, cost: (a, b) => (b - a) * 8 },
+  { component: 'volumeScore', stat: 'volumeUSD',
+    move: (v) => Math.max(v + 100, Math.round(v * 1.25)), cost: (a, b) => (b - a) * 0.005 },
+  { component: 'recencyScore', stat: 'recencyDays',
+    move: () => 0, cost: (a, b) => (a > b ? 1 : 0) },
+];
+
+const applyLever = (lever: Lever, stats: SimStats): SimStats =>
+  ({ ...stats, [lever.stat]: lever.move(stats[lever.stat]) });
+
+const MAX_MOVES = 500;
+
+export const simulate = (stats: SimStats, model: ScoringModel, sybilRisk = 0) => {
+  const scores = computeScores(stats.txCount, stats.activeDays, stats.protocols, stats.volumeUSD, stats.recencyDays, model, sybilRisk);
+  return { scores, rewards: mapScoreToRewards(scores.finalScore, rewardCurveFor(model)) };
+};
+
+export interface MarginalGain {
+  component: ScoreComponent;
+  from: number;
+  to: number;
+  scoreGain: number;
+  rewardGain: number;
+}
+
+/**
+ * What one more move on each lever is worth right now.
+ */
+export const marginalGains = (stats: SimStats, model: ScoringModel, sybilRisk = 0): MarginalGain[] => {
+  const base = simulate(stats, model, sybilRisk);
+  return LEVERS.map((lever) => {
+    const moved = applyLever(lever, stats);
+    const next = simulate(moved, model, sybilRisk);
+    return {
+      component: lever.component,
+      from: stats[lever.stat],
+      to: moved[lever.stat],
+      scoreGain: next.scores.finalScore - base.scores.finalScore,
+      rewardGain: next.rewards - base.rewards,
+    };
+  });
+};
+
+export interface TierPlan {
+  targetScore: number;
+  targetRewards: number;
+  changes: { stat: keyof SimStats; from: number; to: number }[];
+  cost: number;
+  reachable: boolean;
+}
+
+/**
+ * Cheapest mix of changes that reaches the model's next reward-curve breakpoint.
+ * Greedy on score gained per unit of effort; with concave curves this lands at or
+ * near the optimum and stays instant enough to rerun on every slider move.
+ */
+export const planNextTier = (stats: SimStats, model: ScoringModel, sybilRisk = 0): TierPlan | null => {
+  const current = simulate(stats, model, sybilRisk).scores.finalScore;
+  const target = rewardCurveFor(model).find((p) => p.score > current);
+  if (!target) return null; // already at the top tier
+
+  let plan = stats;
+  let score = current;
+  let cost = 0;
+  for (let moves = 0; moves < MAX_MOVES && score < target.score; moves++) {
+    let best: { next: SimStats; score: number; cost: number; efficiency: number } | null = null;
+    for (const lever of LEVERS) {
+      const next = applyLever(lever, plan);
+      const stepCost = lever.cost(plan[lever.stat], next[lever.stat]);
+      if (stepCost <= 0) continue;
+      const nextScore = simulate(next, model, sybilRisk).scores.finalScore;
+      const efficiency = (nextScore - score) / stepCost;
+      if (efficiency > 0 && (!best || efficiency > best.efficiency)) {
+        best = { next, score: nextScore, cost: stepCost, efficiency };
+      }
+    }
+    if (!best) break; // every lever is saturated
+    plan = best.next;
+    score = best.score;
+    cost += best.cost;
+  }
+
+  return {
+    targetScore: target.score,
+    targetRewards: mapScoreToRewards(target.score, rewardCurveFor(model)),
+    changes: LEVERS
+      .filter((lever) => plan[lever.stat] !== stats[lever.stat])
+      .map((lever) => ({ stat: lever.stat, from: stats[lever.stat], to: plan[lever.stat] })),
+    cost: Math.round(cost),
+    reachable: score >= target.score,
+  };
+};
@@ -0,0 +1,236 @@
+import { Provider, formatUnits, id, zeroPadValue } from "ethers";
+import { RawTx, TokenTransfer } from "../types";
+import { findPricedToken } from "./priceOracle";
+import { DataSourceError, classifyError } from "./dataErrors";
+
+// How much of the wallet's history a source saw: all of it, only a recent window,
+// or the most recent part before a page limit cut it off
+export type HistoryCoverage = "full" | "recent" | "truncated";
+
+export interface SourceHistory {
+  txs: RawTx[];
+  coverage: HistoryCoverage;
+}
+
+// A pluggable source of a wallet's outgoing transaction history.
+export interface TxHistorySource {
+  name: string;
+  fetchTransactions(address: string): Promise<SourceHistory>;
+}
+
+export interface TxHistory extends SourceHistory {
+  source: string;
+}
+
+const TRANSFER_TOPIC = id("Transfer(address,address,uint256)");
+
+/* ---------- Explorer (Etherscan / Blockscout compatible) ---------- */
+
+interface ExplorerSourceOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  pageSize?: number;
+  maxPages?: number;
+}
+
+interface ExplorerTx {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  input: string;
+  isError?: string;
+}
+
+interface ExplorerTokenTx {
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  tokenDecimal: string;
+  tokenSymbol: string;
+  contractAddress: string;
+}
+
+export const createExplorerSource = ({
+  baseUrl = "https://base.blockscout.com/api",
+  apiKey,
+  pageSize = 1000,
+  maxPages = 10,
+}: ExplorerSourceOptions = {}): TxHistorySource => {
+  // Newest first, so a page limit drops the oldest activity rather than the recent
+  const fetchAll = async <T>(action: string, address: string): Promise<{ rows: T[]; truncated: boolean }> => {
+    const rows: T[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const params = new URLSearchParams({
+        module: "account",
+        action,
+        address,
+        sort: "desc",
+        page: String(page),
+        offset: String(pageSize),
+      });
+      if (apiKey) params.set("apikey", apiKey);
+
+      const res = await fetch(`${baseUrl}?${params}`);
+      if (!res.ok) throw new Error(`Explorer ${action} failed: HTTP ${res.status}`);
+      const body = await res.json();
+
+      // Etherscan-style APIs answer status "0" both for errors and for "No transactions found"
+      if (!Array.isArray(body.result)) throw new Error(`Explorer ${action} failed: ${body.message}`);
+      rows.push(...body.result);
+      if (body.result.length < pageSize) return { rows, truncated: false };
+    }
+    return { rows, truncated: true };
+  };
+
+  return {
+    name: "explorer",
+    async fetchTransactions(address) {
+      const [{ rows: txs, truncated }, { rows: tokenTxs }] = await Promise.all([
+        fetchAll<ExplorerTx>("txlist", address),
+        fetchAll<ExplorerTokenTx>("tokentx", address),
+      ]);
+
+      const self = address.toLowerCase();
+
+      // Only value the wallet sent counts as volume; incoming legs of a swap are the same trade
+      const transfersByHash = new Map<string, TokenTransfer[]>();
+      for (const t of tokenTxs) {
+        if (t.from.toLowerCase() !== self) continue;
+        const list = transfersByHash.get(t.hash) ?? [];
+        list.push({
+          token: t.contractAddress,
+          symbol: t.tokenSymbol,
+          amount: Number(formatUnits(t.value, Number(t.tokenDecimal || 0))),
+        });
+        transfersByHash.set(t.hash, list);
+      }
+
+      const history = txs
+        .filter((tx) => tx.from.toLowerCase() === self)
+        .map((tx): RawTx => ({
+          hash: tx.hash,
+          blockNumber: Number(tx.blockNumber),
+          blockTimestamp: Number(tx.timeStamp),
+          from: tx.from,
+          to: tx.to || null,
+          value: tx.value,
+          input: tx.input,
+          isError: tx.isError === "1",
+          interactsWithProtocol: !!tx.input && tx.input !== "0x",
+          tokenTransfers: transfersByHash.get(tx.hash),
+        }))
+        .sort((a, b) => a.blockNumber - b.blockNumber);
+      return { txs: history, coverage: truncated ? "truncated" : "full" };
+    },
+  };
+};
+
+/* ---------- Plain JSON-RPC log scanner (fallback) ---------- */
+
+interface RpcScannerOptions {
+  provider: Provider;
+  lookbackBlocks?: number;
+  chunkSize?: number;
+}
+
+/**
+ * Scans ERC20 Transfer logs sent by the address over a recent block window,
+ * then loads the originating txs and their block timestamps.
+ * Plain ETH sends emit no logs, so this undercounts pure native activity;
+ * it exists for when no indexer is reachable.
+ */
+export const createRpcScannerSource = ({
+  provider,
+  lookbackBlocks = 1_296_000, // ~30 days of 2s blocks
+  chunkSize = 10_000,
+}: RpcScannerOptions): TxHistorySource => ({
+  name: "rpc-scan",
+  async fetchTransactions(address) {
+    const latest = await provider.getBlockNumber();
+    const start = Math.max(0, latest - lookbackBlocks);
+    const fromTopic = zeroPadValue(address, 32);
+
+    const transfersByHash = new Map<string, TokenTransfer[]>();
+    for (let from = start; from <= latest; from += chunkSize) {
+      const logs = await provider.getLogs({
+        fromBlock: from,
+        toBlock: Math.min(from + chunkSize - 1, latest),
+        topics: [TRANSFER_TOPIC, fromTopic],
+      });
+      for (const log of logs) {
+        // ERC-721 shares the Transfer signature but indexes the token id and carries no data
+        if (log.topics.length !== 3 || log.data === "0x") continue;
+        const list = transfersByHash.get(log.transactionHash) ?? [];
+        // Decimals are only known for the price oracle's tokens; anything else stays raw and unpriced
+        const known = findPricedToken(log.address);
+        list.push({
+          token: log.address,
+          symbol: known?.symbol,
+          amount: Number(formatUnits(log.data, known?.decimals ?? 0)),
+        });
+        transfersByHash.set(log.transactionHash, list);
+      }
+    }
+
+    const self = address.toLowerCase();
+    const blockTimes = new Map<number, number>();
+    const txs: RawTx[] = [];
+    for (const [hash, transfers] of transfersByHash) {
+      const tx = await provider.getTransaction(hash);
+      if (!tx || tx.blockNumber === null || tx.from.toLowerCase() !== self) continue;
+
+      if (!blockTimes.has(tx.blockNumber)) {
+        const block = await provider.getBlock(tx.blockNumber);
+        blockTimes.set(tx.blockNumber, block ? block.timestamp : 0);
+      }
+
+      txs.push({
+        hash,
+        blockNumber: tx.blockNumber,
+        blockTimestamp: blockTimes.get(tx.blockNumber) ?? 0,
+        from: tx.from,
+        to: tx.to,
+        value: tx.value.toString(),
+        input: tx.data,
+        interactsWithProtocol: tx.data !== "0x",
+        tokenTransfers: transfers,
+      });
+    }
+    return { txs: txs.sort((a, b) => a.blockNumber - b.blockNumber), coverage: "recent" };
+  },
+});
+
+/* ---------- Mock (tests / offline dev) ---------- */
+
+export const createMockSource = (fixtures: Record<string, RawTx[]>): TxHistorySource => ({
+  name: "mock",
+  async fetchTransactions(address) {
+    return { txs: [...(fixtures[address.toLowerCase()] ?? [])], coverage: "full" };
+  },
+});
+
+/**
+ * Try each source in order and return the first successful history.
+ * Throws a DataSourceError (kind of the last failure) when every source failed,
+ * so callers can fall back to modeling and say why.
+ */
+export const fetchTxHistory = async (address: string, sources: TxHistorySource[]): Promise<TxHistory> => {
+  let lastError: unknown = new Error("no history sources configured");
+  for (const source of sources) {
+    try {
+      return { ...(await source.fetchTransactions(address)), source: source.name };
+    } catch (e) {
+      console.error(`History source "${source.name}" failed`, e);
+      lastError = e;
+    }
+  }
+  throw new DataSourceError(
+    `Every history source failed: ${lastError instanceof Error ? lastError.message : lastError}`,
+    classifyError(lastError),
+    "txHistory"
+  );
+};
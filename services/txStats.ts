@@ -0,0 +1,145 @@
+import { ProtocolUsage, RawTx } from "../types";
+import { lookupProtocol } from "./protocolRegistry";
+
+const APPROVE_SELECTOR = "0x095ea7b3";
+
+export function utcDateString(tsSeconds: number) {
+  const d = new Date(tsSeconds * 1000);
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth()+1).padStart(2,'0')}-${String(d.getUTCDate()).padStart(2,'0')}`;
+}
+
+/**
+ * Determine whether a tx is "meaningful".
+ * - skip reverted txs and typical ERC20 approvals
+ * - skip gas-only tiny txs or same-from-to dust transfers
+ * - allow protocol interactions (contract calls with calldata)
+ */
+export function isMeaningfulTx(tx: RawTx, opts = { minGasUsd: 0.1, minValueUsd: 1 }) {
+  try {
+    if (tx.isError) return false;
+
+    // skip approvals by method id
+    if (tx.input && typeof tx.input === 'string' && tx.input.startsWith(APPROVE_SELECTOR)) return false;
+
+    // skip zero-value internal bookkeeping
+    if ((!tx.tokenTransfers || tx.tokenTransfers.length === 0) && (!tx.value || Number(tx.value) === 0) && (!tx.valueUsd)) {
+      // but if it has events interacting with known protocol, keep it
+      if (!tx.interactsWithProtocol) return false;
+    }
+
+    // skip very low gas txs that likely are dust
+    if (typeof tx.gasUsd !== 'undefined' && tx.gasUsd < opts.minGasUsd && (!tx.tokenTransfers || tx.tokenTransfers.length === 0)) return false;
+
+    // skip transfers below minValueUsd if price data exists
+    if (tx.valueUsd && tx.valueUsd < opts.minValueUsd && (!tx.interactsWithProtocol)) return false;
+
+    // otherwise, count as meaningful
+    return true;
+  } catch (e) {
+    return true; // be permissive if structure is unknown
+  }
+}
+
+/**
+ * Count meaningful txs per UTC date (YYYY-MM-DD); days without any are absent
+ */
+export function computeDailyTxCountsFromTxs(rawTxs: RawTx[] = []) {
+  const counts: Record<string, number> = {};
+  if (!Array.isArray(rawTxs)) return counts;
+  for (const tx of rawTxs) {
+    if (!tx || !tx.blockTimestamp) continue;
+    if (!isMeaningfulTx(tx)) continue;
+    const day = utcDateString(tx.blockTimestamp);
+    counts[day] = (counts[day] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Compute unique active UTC dates for wallet from raw tx list
+ */
+export function computeActiveDaysFromTxs(rawTxs: RawTx[] = []) {
+  return Object.keys(computeDailyTxCountsFromTxs(rawTxs)).length;
+}
+
+/**
+ * Compute USD volume from raw txs: every token leg plus the native (ETH) leg, so a
+ * swap paid in ETH counts both what was sent and what came back.
+ * Token legs use explicit per-transfer USD (usdPriceAtTs, tokenUsdAtTs or valueUsd);
+ * the native leg uses tx.valueUsd, else value * tx.nativeUsd.
+ */
+export function computeVolumeFromTxs(rawTxs: RawTx[] = []) {
+  if (!Array.isArray(rawTxs) || rawTxs.length === 0) return 0;
+  let total = 0;
+  for (const tx of rawTxs) {
+    if (!tx || !tx.blockTimestamp) continue;
+    if (!isMeaningfulTx(tx)) continue;
+
+    for (const t of tx.tokenTransfers ?? []) {
+      if (t.usdPriceAtTs && t.amount) {
+        total += Number(t.usdPriceAtTs) * Number(t.amount);
+      } else if (t.amount && t.tokenUsdAtTs) {
+        total += Number(t.amount) * Number(t.tokenUsdAtTs);
+      } else if (t.valueUsd) {
+        total += Number(t.valueUsd);
+      }
+    }
+
+    if (tx.valueUsd) {
+      total += Number(tx.valueUsd);
+    } else if (tx.value && tx.nativeUsd) {
+      // value is wei
+      total += (Number(tx.value) / 1e18) * Number(tx.nativeUsd);
+    }
+    // otherwise the native leg has no USD value to count
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Group meaningful contract calls by protocol. Known contracts collapse to their
+ * protocol (a router and a pool of the same DEX are one protocol); unlisted
+ * contracts are only tallied, since most are token contracts, not protocols.
+ */
+export function computeProtocolUsageFromTxs(rawTxs: RawTx[] = []): ProtocolUsage {
+  const known = new Map<string, ProtocolUsage['protocols'][number]>();
+  const unlisted = new Set<string>();
+  for (const tx of rawTxs) {
+    if (!tx || !tx.to) continue;
+    const entry = lookupProtocol(tx.to);
+    if (!entry && !tx.interactsWithProtocol) continue;
+    if (!isMeaningfulTx({ ...tx, interactsWithProtocol: true })) continue;
+    if (!entry) {
+      unlisted.add(tx.to.toLowerCase());
+      continue;
+    }
+    const usage = known.get(entry.protocol) ?? { protocol: entry.protocol, category: entry.category, txCount: 0 };
+    usage.txCount++;
+    known.set(entry.protocol, usage);
+  }
+  return {
+    protocols: [...known.values()].sort((a, b) => b.txCount - a.txCount),
+    unlistedContracts: unlisted.size,
+  };
+}
+
+/**
+ * Count distinct registry protocols the wallet has meaningfully used.
+ */
+export function computeProtocolsFromTxs(rawTxs: RawTx[] = []) {
+  return computeProtocolUsageFromTxs(rawTxs).protocols.length;
+}
+
+/**
+ * Whole days since the most recent meaningful tx (90 if there is none).
+ */
+export function computeRecencyDaysFromTxs(rawTxs: RawTx[] = [], nowSeconds = Math.floor(Date.now() / 1000)) {
+  let latest = 0;
+  for (const tx of rawTxs) {
+    if (!tx || !tx.blockTimestamp) continue;
+    if (!isMeaningfulTx(tx)) continue;
+    latest = Math.max(latest, tx.blockTimestamp);
+  }
+  if (latest === 0) return 90;
+  return Math.max(0, Math.floor((nowSeconds - latest) / 86_400));
+}
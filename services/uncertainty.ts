@@ -0,0 +1,117 @@
+import { ScoreComponent, ScoreUncertainty, ScoringModel, StatInterval, StatKey, WalletStats } from "../types";
+import { computeScores, mapScoreToRewards, rewardCurveFor } from "./scoringUtils";
+
+type Stats = Pick<WalletStats, StatKey>;
+
+// Which stat drives each score component
+export const COMPONENT_STATS: Record<ScoreComponent, StatKey> = {
+  txScore: 'txCount',
+  activeDaysScore: 'activeDays',
+  protocolScore: 'protocols',
+  volumeScore: 'volumeUSD',
+  recencyScore: 'recencyDays',
+};
+
+const STAT_KEYS: StatKey[] = ['txCount', 'activeDays', 'protocols', 'volumeUSD', 'recencyDays'];
+
+// How far deriveStats' guesses can be off, as multipliers. Deliberately wide:
+// `npm run calibrate` reports the estimator's real errors when there is data to narrow them.
+const MODELED_FACTORS: Record<Exclude<StatKey, 'txCount'>, [number, number]> = {
+  activeDays: [0.5, 1.5],
+  protocols: [0.5, 1.75],
+  volumeUSD: [0.25, 4],
+  recencyDays: [0.25, 3],
+};
+
+const exact = (value: number): StatInterval => ({ provenance: 'measured', low: value, high: value });
+
+const scaled = (value: number, [low, high]: [number, number], max = Infinity): StatInterval => ({
+  provenance: 'estimated',
+  low: Math.round(value * low),
+  high: Math.min(Math.max(Math.round(value * high), value), max),
+});
+
+/**
+ * Intervals for stats measured from history. Unpriced transfers make volume a lower
+ * bound (assume they were worth what the priced ones were). A partial history (the RPC
+ * scanner only sees recent token transfers) bounds days, protocols and volume from below
+ * only; their upper ends come from the model's intervals, since scaling a measured 0 stays 0.
+ */
+export const measuredIntervals = (
+  stats: Stats,
+  { priced, unpriced, modeled }: { priced: number; unpriced: number; modeled?: Record<StatKey, StatInterval> }
+): Record<StatKey, StatInterval> => {
+  const volumeFactor = unpriced === 0 ? 1 : priced > 0 ? (priced + unpriced) / priced : MODELED_FACTORS.volumeUSD[1];
+  const fromBelow = (key: StatKey, high: number): StatInterval =>
+    ({ provenance: 'estimated', low: stats[key], high: Math.max(modeled?.[key].high ?? 0, high, stats[key]) });
+
+  return {
+    txCount: exact(stats.txCount),
+    activeDays: modeled ? fromBelow('activeDays', stats.activeDays) : exact(stats.activeDays),
+    protocols: modeled ? fromBelow('protocols', stats.protocols) : exact(stats.protocols),
+    volumeUSD: modeled || unpriced > 0
+      ? fromBelow('volumeUSD', Math.round(stats.volumeUSD * volumeFactor))
+      : exact(stats.volumeUSD),
+    recencyDays: exact(stats.recencyDays),
+  };
+};
+
+// Intervals around deriveStats' guesses; only the nonce is real
+export const modeledIntervals = (stats: Stats, chainDays: number): Record<StatKey, StatInterval> => ({
+  txCount: exact(stats.txCount),
+  activeDays: scaled(stats.activeDays, MODELED_FACTORS.activeDays, Math.min(stats.txCount, chainDays)),
+  protocols: scaled(stats.protocols, MODELED_FACTORS.protocols),
+  volumeUSD: scaled(stats.volumeUSD, MODELED_FACTORS.volumeUSD),
+  recencyDays: scaled(stats.recencyDays, MODELED_FACTORS.recencyDays, chainDays),
+});
+
+/**
+ * Bundle intervals, mirroring how mergeWalletData aggregates each value: sums add,
+ * union-type stats lie between the largest wallet and the sum, recency takes the most recent.
+ * Always widened to contain the merged value.
+ */
+export const mergeIntervals = (parts: Record<StatKey, StatInterval>[], merged: Stats, exactUnion: boolean): Record<StatKey, StatInterval> => {
+  const sum = (key: StatKey, bound: 'low' | 'high') => parts.reduce((acc, p) => acc + p[key][bound], 0);
+  const max = (key: StatKey, bound: 'low' | 'high') => Math.max(...parts.map((p) => p[key][bound]));
+  const min = (key: StatKey, bound: 'low' | 'high') => Math.min(...parts.map((p) => p[key][bound]));
+
+  return Object.fromEntries(STAT_KEYS.map((key) => {
+    const allExact = parts.every((p) => p[key].provenance === 'measured');
+    if (allExact && (key === 'txCount' || exactUnion)) return [key, exact(merged[key])];
+
+    const [low, high] = key === 'txCount' || key === 'volumeUSD'
+      ? [sum(key, 'low'), sum(key, 'high')]
+      : key === 'recencyDays'
+        ? [min(key, 'low'), min(key, 'high')]
+        : [max(key, 'low'), sum(key, 'high')];
+    return [key, {
+      provenance: 'estimated',
+      low: Math.min(low, merged[key]),
+      high: Math.max(high, merged[key]),
+    }];
+  })) as Record<StatKey, StatInterval>;
+};
+
+/**
+ * Interval arithmetic through the model. Every component rises with its stat
+ * (recency falls with days since the last tx) and the reward curve never decreases,
+ * so scoring the low and high corners gives exact bounds without sampling.
+ */
+export const propagateUncertainty = (stats: WalletStats, model: ScoringModel, sybilRisk = 0): ScoreUncertainty => {
+  const i = stats.intervals;
+  const corner = (bound: 'low' | 'high') => {
+    const opposite = bound === 'low' ? 'high' : 'low';
+    return computeScores(i.txCount[bound], i.activeDays[bound], i.protocols[bound], i.volumeUSD[bound], i.recencyDays[opposite], model, sybilRisk);
+  };
+  const low = corner('low');
+  const high = corner('high');
+  const curve = rewardCurveFor(model);
+
+  return {
+    finalScore: { low: low.finalScore, high: high.finalScore },
+    rewards: { low: mapScoreToRewards(low.finalScore, curve), high: mapScoreToRewards(high.finalScore, curve) },
+    components: Object.fromEntries(
+      (Object.keys(COMPONENT_STATS) as ScoreComponent[]).map((c) => [c, { low: low[c], high: high[c] }])
+    ) as Record<ScoreComponent, { low: number; high: number }>,
+  };
+};
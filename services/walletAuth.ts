@@ -0,0 +1,129 @@
+import { sdk } from "@farcaster/frame-sdk";
+import { Eip1193Provider, getAddress, hexlify, toUtf8Bytes } from "ethers";
+import { OwnerPreferences } from "../types";
+import { SIWE_STATEMENT, formatSiweMessage } from "./siwe";
+
+const STORAGE_KEY = "session";
+// Unsigned messages older than this are refused anyway; keep the prompt honest
+const MESSAGE_TTL_MS = 10 * 60_000;
+
+export interface WalletSession {
+  address: string;
+  token: string; // Authorization: Bearer value for owner-only endpoints
+  expiresAt: number;
+}
+
+/**
+ * The mini app's embedded wallet inside a Farcaster/Base client, else an
+ * injected browser wallet (window.ethereum), else null.
+ */
+export const getWalletProvider = async (): Promise<Eip1193Provider | null> => {
+  try {
+    if (await sdk.isInMiniApp()) {
+      const provider = await sdk.wallet.getEthereumProvider();
+      if (provider) return provider as Eip1193Provider;
+    }
+  } catch (e) {
+    console.warn("Mini app wallet unavailable", e);
+  }
+  return (window as { ethereum?: Eip1193Provider }).ethereum ?? null;
+};
+
+// Asks the wallet for access; the first account is the one we use
+export const connectWallet = async (provider: Eip1193Provider): Promise<string> => {
+  const accounts: string[] = await provider.request({ method: "eth_requestAccounts" });
+  if (!accounts?.length) throw new Error("The wallet did not share an account.");
+  return getAddress(accounts[0]);
+};
+
+/* ---------- Session (localStorage) ---------- */
+
+export const getSession = (): WalletSession | null => {
+  try {
+    const session: WalletSession | null = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null; // storage blocked or garbled
+  }
+};
+
+const storeSession = (session: WalletSession | null) => {
+  try {
+    if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // the session just won't survive a reload
+  }
+};
+
+export const signOut = () => storeSession(null);
+
+// Bearer header when the request is about exactly the signed-in wallet; nothing otherwise
+export const ownerHeaders = (addresses: string[]): Record<string, string> => {
+  const session = getSession();
+  if (!session || addresses.length !== 1 || addresses[0].toLowerCase() !== session.address.toLowerCase()) return {};
+  return { Authorization: `Bearer ${session.token}` };
+};
+
+const errorFrom = async (res: Response, fallback: string) =>
+  new Error((await res.json().catch(() => null))?.error ?? `${fallback}: HTTP ${res.status}`);
+
+/**
+ * Sign-In with Ethereum: sign a one-time message with the connected wallet so
+ * the server can tie a session to the address. No transaction, no gas.
+ */
+export const signIn = async (provider: Eip1193Provider, address: string): Promise<WalletSession> => {
+  const nonceRes = await fetch("/api/auth");
+  if (!nonceRes.ok) throw await errorFrom(nonceRes, "Sign-in unavailable");
+  const { nonce } = await nonceRes.json();
+
+  const chainId = parseInt(await provider.request({ method: "eth_chainId" }), 16);
+  const now = Date.now();
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    chainId,
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + MESSAGE_TTL_MS).toISOString(),
+  });
+  const signature: string = await provider.request({
+    method: "personal_sign",
+    params: [hexlify(toUtf8Bytes(message)), address],
+  });
+
+  const res = await fetch("/api/auth", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!res.ok) throw await errorFrom(res, "Sign-in failed");
+  const { token, expiresAt } = await res.json();
+  const session = { address, token, expiresAt };
+  storeSession(session);
+  return session;
+};
+
+/* ---------- Owner preferences ---------- */
+
+export const fetchPreferences = async (session: WalletSession): Promise<OwnerPreferences> => {
+  const res = await fetch("/api/preferences", { headers: { Authorization: `Bearer ${session.token}` } });
+  if (res.status === 401) signOut(); // server no longer accepts the token
+  if (!res.ok) throw await errorFrom(res, "Could not load preferences");
+  return res.json();
+};
+
+export const updatePreferences = async (
+  session: WalletSession,
+  changes: Partial<OwnerPreferences>
+): Promise<OwnerPreferences> => {
+  const res = await fetch("/api/preferences", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.token}` },
+    body: JSON.stringify(changes),
+  });
+  if (!res.ok) throw await errorFrom(res, "Could not save preferences");
+  return res.json();
+};
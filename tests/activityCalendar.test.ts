@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RawTx } from "../types";
+import { buildActivityCalendar } from "../services/activityCalendar";
+import { getScoringModel } from "../services/scoringModels";
+
+const model = getScoringModel("base-default"); // 7-day grace, then 83 days of decay
+const DAY = 86_400;
+const at = (date: string) => Date.parse(`${date}T12:00:00Z`) / 1000;
+const NOW = at("2025-06-30"); // a Monday
+
+let nonce = 0;
+const swapOn = (date: string): RawTx => ({
+  hash: `0x${(++nonce).toString(16).padStart(64, "0")}`,
+  blockNumber: nonce,
+  blockTimestamp: at(date),
+  from: "0x000000000000000000000000000000000000a11c",
+  to: "0x2626664c2603336E57B271c5C0b26F421741e481",
+  value: "0",
+  input: "0x3593564c",
+  interactsWithProtocol: true,
+});
+
+const history = ["2025-05-05", "2025-06-01", "2025-06-20", "2025-06-29", "2025-06-30", "2025-06-30"].map(swapOn);
+
+test("counts meaningful txs per UTC day from the first active day", () => {
+  const calendar = buildActivityCalendar(history, model, NOW)!;
+  assert.equal(calendar.firstDay, "2025-05-05");
+  assert.equal(calendar.today, "2025-06-30");
+  assert.deepEqual(calendar.days, { "2025-05-05": 1, "2025-06-01": 1, "2025-06-20": 1, "2025-06-29": 1, "2025-06-30": 2 });
+});
+
+test("streaks run over Monday-start weeks and calendar months", () => {
+  const { streaks } = buildActivityCalendar(history, model, NOW)!;
+  assert.deepEqual(streaks.weekly, { current: 3, longest: 3 });
+  assert.deepEqual(streaks.monthly, { current: 2, longest: 2 });
+});
+
+test("an empty current week doesn't break the streak until it ends", () => {
+  const { streaks } = buildActivityCalendar(history.slice(0, -2), model, NOW)!;
+  assert.deepEqual(streaks.weekly, { current: 2, longest: 2 });
+});
+
+test("only idle spells past the grace window are gaps, longest first", () => {
+  const { gaps } = buildActivityCalendar(history, model, NOW)!;
+  assert.deepEqual(gaps.map(({ from, to, days, open }) => ({ from, to, days, open })), [
+    { from: "2025-05-06", to: "2025-05-31", days: 26, open: false },
+    { from: "2025-06-02", to: "2025-06-19", days: 18, open: false },
+    { from: "2025-06-21", to: "2025-06-28", days: 8, open: false },
+  ]);
+  assert.equal(gaps[0].recencyScore, 0.77); // 1 - 19/83, as computeScores rounds it
+});
+
+test("a gap still running comes first", () => {
+  const { gaps } = buildActivityCalendar(history, model, NOW + 10 * DAY)!;
+  assert.deepEqual(gaps[0], { from: "2025-07-01", to: "2025-07-10", days: 10, recencyScore: 0.96, open: true });
+});
+
+test("no meaningful activity, no calendar", () => {
+  assert.equal(buildActivityCalendar([], model, NOW), undefined);
+  assert.equal(buildActivityCalendar([{ ...swapOn("2025-06-01"), isError: true }], model, NOW), undefined);
+});
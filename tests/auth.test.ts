@@ -0,0 +1,122 @@
+import { TestContext, test } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { AuthError, Session, createNonce, createSessionToken, ownsAddresses, readSession, verifySignIn } from "../api/_lib/auth";
+import { SIWE_STATEMENT, SiweMessage, formatSiweMessage, parseSiweMessage } from "../services/siwe";
+
+process.env.AUTH_SECRET = "test-secret";
+
+const HOST = "rewards.example";
+const NOW = Date.UTC(2025, 5, 30, 12);
+const MINUTE = 60_000;
+// A fixed key, so the signatures are the same on every run
+const signer = new Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const stranger = new Wallet("0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a");
+
+const messageFor = (address: string, overrides: Partial<SiweMessage> = {}): SiweMessage => ({
+  domain: HOST,
+  address,
+  statement: SIWE_STATEMENT,
+  uri: `https://${HOST}`,
+  chainId: 8453,
+  nonce: createNonce(NOW),
+  issuedAt: new Date(NOW).toISOString(),
+  expirationTime: new Date(NOW + 10 * MINUTE).toISOString(),
+  ...overrides,
+});
+
+const signed = async (wallet: Wallet, overrides: Partial<SiweMessage> = {}) => {
+  const message = formatSiweMessage(messageFor(wallet.address, overrides));
+  return { message, signature: await wallet.signMessage(message) };
+};
+
+const rejectsWith = (promise: Promise<unknown>, pattern: RegExp, status = 401) =>
+  assert.rejects(promise, (e: unknown) => e instanceof AuthError && pattern.test(e.message) && e.status === status);
+
+const bearer = (token: string) => new Request(`https://${HOST}/api/preferences`, { headers: { Authorization: `Bearer ${token}` } });
+
+// Answers every RPC call with `result`, recording the methods asked
+const mockRpc = (t: TestContext, result: string) => {
+  const calls: string[] = [];
+  t.mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+    const { id, method } = JSON.parse(String(init.body));
+    calls.push(method);
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id, result }));
+  });
+  return calls;
+};
+
+test("formatted messages parse back unchanged", () => {
+  const message = messageFor(signer.address);
+  assert.deepEqual(parseSiweMessage(formatSiweMessage(message)), message);
+  assert.equal(parseSiweMessage(`${formatSiweMessage(message)}\nResources:`), null);
+});
+
+test("a signed message earns a session for the checksummed address", async () => {
+  const { message, signature } = await signed(signer, { address: signer.address.toLowerCase() });
+  assert.deepEqual(await verifySignIn(message, signature, HOST, NOW), {
+    address: signer.address,
+    expiresAt: NOW + 7 * 24 * 60 * MINUTE,
+  });
+});
+
+test("a nonce signs in once", async () => {
+  const { message, signature } = await signed(signer);
+  await verifySignIn(message, signature, HOST, NOW);
+  await rejectsWith(verifySignIn(message, signature, HOST, NOW), /already used/);
+});
+
+test("nonces expire and cannot be forged", async () => {
+  const stale = await signed(signer, { nonce: createNonce(NOW - 11 * MINUTE) });
+  await rejectsWith(verifySignIn(stale.message, stale.signature, HOST, NOW), /expired/);
+
+  const nonce = createNonce(NOW);
+  const forged = await signed(signer, { nonce: nonce.slice(0, 16) + "ffffffff" + nonce.slice(24) });
+  await rejectsWith(verifySignIn(forged.message, forged.signature, HOST, NOW), /Unknown sign-in nonce/);
+});
+
+test("messages for another host, from the future or malformed are refused", async () => {
+  const elsewhere = await signed(signer, { domain: "phish.example" });
+  await rejectsWith(verifySignIn(elsewhere.message, elsewhere.signature, HOST, NOW), /another site/);
+
+  const early = await signed(signer, { issuedAt: new Date(NOW + 5 * MINUTE).toISOString() });
+  await rejectsWith(verifySignIn(early.message, early.signature, HOST, NOW), /not valid yet/);
+
+  await rejectsWith(verifySignIn("hello", "0x", HOST, NOW), /Malformed/, 400);
+});
+
+test("a signature from another key falls back to ERC-1271 and fails", async (t) => {
+  const calls = mockRpc(t, "0x"); // no contract at the address
+  const { message } = await signed(signer);
+  const signature = await stranger.signMessage(message);
+  await rejectsWith(verifySignIn(message, signature, HOST, NOW), /does not match/);
+  assert.deepEqual(calls, ["eth_call"]);
+});
+
+test("a smart wallet that accepts the signature through ERC-1271 signs in", async (t) => {
+  mockRpc(t, "0x1626ba7e" + "0".repeat(56));
+  const { message } = await signed(signer);
+  const session = await verifySignIn(message, "0x" + "ab".repeat(100), HOST, NOW);
+  assert.equal(session.address, signer.address);
+});
+
+test("session tokens round-trip; tampered, expired or unsigned ones read as signed out", () => {
+  const session: Session = { address: signer.address, expiresAt: NOW + MINUTE };
+  const token = createSessionToken(session);
+  assert.deepEqual(readSession(bearer(token), NOW), session);
+  assert.equal(readSession(bearer(token), NOW + 2 * MINUTE), null);
+
+  const [, signature] = token.split(".");
+  const lifted = Buffer.from(JSON.stringify({ ...session, address: stranger.address })).toString("base64url");
+  assert.equal(readSession(bearer(`${lifted}.${signature}`), NOW), null);
+  assert.equal(readSession(bearer(token.split(".")[0]), NOW), null);
+  assert.equal(readSession(new Request(`https://${HOST}/`), NOW), null);
+});
+
+test("owner-only data needs exactly the signed-in address", () => {
+  const session: Session = { address: signer.address, expiresAt: NOW + MINUTE };
+  assert.ok(ownsAddresses(session, [signer.address.toLowerCase()]));
+  assert.ok(!ownsAddresses(session, [signer.address, stranger.address]));
+  assert.ok(!ownsAddresses(session, [stranger.address]));
+  assert.ok(!ownsAddresses(null, [signer.address]));
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RawTx, StatInterval } from "../types";
+import { MergeableData, mergeWalletData } from "../services/bundleUtils";
+import { computeActiveDaysFromTxs, computeVolumeFromTxs } from "../services/txStats";
+
+const ALICE = "0x000000000000000000000000000000000000a11c";
+const BOB = "0x000000000000000000000000000000000000b0b0";
+const DAY = 86_400;
+const NOW = Math.floor(Date.now() / 1000);
+
+const tx = (hash: string, from: string, to: string, valueUsd: number, daysAgo: number): RawTx => ({
+  hash,
+  blockNumber: 1,
+  blockTimestamp: NOW - daysAgo * DAY,
+  from,
+  to,
+  value: "0",
+  input: "0x",
+  valueUsd,
+});
+
+const exact = (value: number): StatInterval => ({ provenance: "measured", low: value, high: value });
+
+const measured = (rawTxs: RawTx[], txCount: number): MergeableData => {
+  const base = { txCount, activeDays: computeActiveDaysFromTxs(rawTxs), volumeUSD: computeVolumeFromTxs(rawTxs), protocols: 0, recencyDays: 0 };
+  return {
+    stats: {
+      ...base,
+      balance: "0.5",
+      volumeMethod: { key: "prices", unpriced: 0, transfers: rawTxs.length },
+      statsSource: "measured",
+      historySource: "mock",
+      intervals: {
+        txCount: exact(base.txCount),
+        activeDays: exact(base.activeDays),
+        protocols: exact(0),
+        volumeUSD: exact(base.volumeUSD),
+        recencyDays: exact(0),
+      },
+    },
+    rawTxs,
+    coverage: "full",
+    portfolio: { tokens: [], nfts: [], totalUsd: 0 },
+    sybilRisk: null,
+    issues: [],
+  };
+};
+
+// Alice pays Bob once; both explorers return that tx, Bob's with a differently cased hash
+const payment = tx("0xabc1", ALICE, BOB, 100, 5);
+const alice = measured([payment, tx("0xabc2", ALICE, BOB.replace("b0b0", "c0c0"), 20, 3)], 2);
+const bob = measured([{ ...payment, hash: "0xABC1" }, tx("0xabc3", BOB, ALICE.replace("a11c", "d00d"), 7, 1)], 1);
+
+test("a transfer between bundled wallets counts once", () => {
+  const { stats, rawTxs } = mergeWalletData([alice, bob]);
+  assert.equal(rawTxs?.length, 3);
+  assert.equal(stats.volumeUSD, 127);
+  assert.equal(stats.activeDays, 3);
+  assert.equal(stats.statsSource, "measured");
+  assert.equal(stats.balance, "1.0000");
+});
+
+test("a modeled wallet leaves the bundle without merged history", () => {
+  const modeled = { ...bob, rawTxs: undefined, stats: { ...bob.stats, statsSource: "modeled" as const } };
+  const { stats, rawTxs } = mergeWalletData([alice, modeled]);
+  assert.equal(rawTxs, undefined);
+  assert.equal(stats.volumeUSD, 227);
+  assert.equal(stats.statsSource, "modeled");
+});
+
+test("merged history is full only when every part is", () => {
+  assert.equal(mergeWalletData([alice, bob]).coverage, "full");
+  assert.equal(mergeWalletData([alice, { ...bob, coverage: "truncated" }]).coverage, "truncated");
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonDocument, createJsonFile, createKvJson, createMemoryJson } from "../api/_lib/jsonFile";
+
+type Counts = Record<string, number>;
+
+// Concurrent updates must all land, in order, whatever the backend
+const exercise = async (doc: JsonDocument<Counts>) => {
+  await Promise.all(Array.from({ length: 5 }, () => doc.update((data) => { data.hits = (data.hits ?? 0) + 1; })));
+  const copy = await doc.read();
+  copy.hits = 0; // a read hands out a copy
+  assert.deepEqual(await doc.read(), { hits: 5 });
+};
+
+test("memory documents serialize updates", async () => {
+  await exercise(createMemoryJson<Counts>(() => ({})));
+});
+
+test("file documents serialize updates and write whole files", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "json-file-"));
+  try {
+    const path = join(dir, "nested", "counts.json");
+    await exercise(createJsonFile<Counts>(path, () => ({})));
+    assert.deepEqual(JSON.parse(await readFile(path, "utf8")), { hits: 5 });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("kv documents GET and SET one key over the REST API", async (t) => {
+  const kv = new Map<string, string>();
+  t.mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+    assert.equal(url, "https://kv.example");
+    assert.equal((init.headers as Record<string, string>).Authorization, "Bearer secret");
+    const [command, key, value] = JSON.parse(String(init.body));
+    if (command === "SET") kv.set(key, value);
+    return new Response(JSON.stringify({ result: command === "GET" ? kv.get(key) ?? null : "OK" }));
+  });
+  await exercise(createKvJson<Counts>({ url: "https://kv.example", token: "secret", key: "test:counts" }, () => ({})));
+  assert.deepEqual([...kv.keys()], ["test:counts"]);
+});
+
+test("kv errors surface instead of reading as empty", async (t) => {
+  t.mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({ error: "WRONGPASS" }), { status: 401 }));
+  const doc = createKvJson<Counts>({ url: "https://kv.example", token: "bad", key: "test:counts" }, () => ({}));
+  await assert.rejects(doc.read(), /KV GET failed: WRONGPASS/);
+});
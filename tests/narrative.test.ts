@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StatInterval, WalletStats } from "../types";
+import { computeScores } from "../services/scoringUtils";
+import { getScoringModel } from "../services/scoringModels";
+import { NarrativeInput, generateNarrative, generateRuleBasedNarrative } from "../services/narrativeProviders";
+
+const model = getScoringModel("base-default");
+const exact = (value: number): StatInterval => ({ provenance: "measured", low: value, high: value });
+
+const stats = (overrides: Partial<WalletStats> = {}): WalletStats => {
+  const base = { txCount: 120, activeDays: 40, volumeUSD: 2_500, protocols: 1, recencyDays: 3, ...overrides };
+  return {
+    balance: "0.1",
+    volumeMethod: { key: "prices", unpriced: 0, transfers: 12 },
+    statsSource: "measured",
+    historySource: "mock",
+    intervals: {
+      txCount: exact(base.txCount),
+      activeDays: exact(base.activeDays),
+      protocols: exact(base.protocols),
+      volumeUSD: exact(base.volumeUSD),
+      recencyDays: exact(base.recencyDays),
+    },
+    ...base,
+  };
+};
+
+const inputFor = (walletStats: WalletStats, extra: Partial<NarrativeInput> = {}): NarrativeInput => ({
+  stats: walletStats,
+  scores: computeScores(walletStats.txCount, walletStats.activeDays, walletStats.protocols, walletStats.volumeUSD, walletStats.recencyDays, model),
+  model,
+  walletCount: 1,
+  ...extra,
+});
+
+test("same input, same text, always three suggestions", () => {
+  const input = inputFor(stats());
+  const first = generateRuleBasedNarrative(input);
+  assert.deepEqual(generateRuleBasedNarrative(input), first);
+  assert.equal(first.suggestions.length, 3);
+});
+
+test("names the weakest component and the tier route", () => {
+  const { explanation, suggestions } = generateRuleBasedNarrative(inputFor(stats()));
+  assert.match(explanation, /^Your wallet scores \d\.\d\d, led by .+; active days costs you the most \(\d+ points\)\.$/);
+  assert.match(suggestions[0], /^You are \d+ points from the \d\.\d\d tier/);
+  assert.ok(suggestions.some((s) => s.startsWith("Active Days: Be active on")));
+});
+
+test("suggests registry protocols from untouched categories", () => {
+  const protocolUsage = { protocols: [{ protocol: "Uniswap", category: "dex" as const, txCount: 12 }], unlistedContracts: 0 };
+  const { suggestions } = generateRuleBasedNarrative(inputFor(stats(), { protocolUsage }));
+  assert.ok(suggestions.includes("You haven't used lending on Base yet; Moonwell or Aave would add a new category."));
+});
+
+test("a bundle is described as one", () => {
+  const { explanation } = generateRuleBasedNarrative(inputFor(stats(), { walletCount: 3 }));
+  assert.ok(explanation.startsWith("Your 3-wallet bundle scores"));
+});
+
+test("modeled stats say so when there is room", () => {
+  const maxed = stats({ txCount: 10_000, activeDays: 1_000, volumeUSD: 10_000_000, protocols: 50, recencyDays: 0, statsSource: "modeled" });
+  const { explanation, suggestions } = generateRuleBasedNarrative(inputFor(maxed));
+  assert.equal(explanation, `Your wallet maxes out every component of the ${model.name} model.`);
+  assert.ok(suggestions.some((s) => s.startsWith("Stats were estimated")));
+});
+
+test("follows the requested locale", () => {
+  const { explanation } = generateRuleBasedNarrative(inputFor(stats(), { locale: "es" }));
+  assert.match(explanation, /obtiene .+ es lo que más te resta/);
+});
+
+test("falls back to the rules when every provider fails", async () => {
+  const failing = { name: "down", generate: async () => { throw new Error("HTTP 503"); } };
+  const input = inputFor(stats());
+  const result = await generateNarrative(input, [failing]);
+  assert.deepEqual(result, { ...generateRuleBasedNarrative(input), provider: "rules" });
+});
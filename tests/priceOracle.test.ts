@@ -0,0 +1,145 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RawTx } from "../types";
+import {
+  PriceSource,
+  PricedToken,
+  createFilePriceCache,
+  createFixtureSource,
+  createMemoryPriceCache,
+  createPriceOracle,
+  findPricedToken,
+  priceTransactions,
+  stablecoinSource,
+} from "../services/priceOracle";
+
+const DAY = 86_400;
+const T0 = Date.UTC(2024, 0, 1) / 1000;
+const ETH: PricedToken = { symbol: "ETH", address: null, decimals: 18 };
+const USDC = findPricedToken("0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913")!;
+const AERO = findPricedToken("0x940181a94A35A4569E4529A3CDfB74e38FD98631")!;
+
+const fixtures = createFixtureSource({
+  ETH: [[T0, 2_000], [T0 + 10 * DAY, 2_500]],
+  AERO: [[T0, 0.8]],
+});
+
+// Wraps a source and records which symbols it was asked about
+const counted = (source: PriceSource) => {
+  const asked: string[] = [];
+  return {
+    asked,
+    source: {
+      name: source.name,
+      getPrice(token: PricedToken, timestamp: number) {
+        asked.push(token.symbol);
+        return source.getPrice(token, timestamp);
+      },
+    },
+  };
+};
+
+const failing: PriceSource = { name: "down", getPrice: async () => { throw new Error("HTTP 503"); } };
+const useless: PriceSource = { name: "useless", getPrice: async (token) => (token.symbol === "ETH" ? 0 : NaN) };
+
+test("stablecoins are answered before later sources are asked", async () => {
+  const later = counted(fixtures);
+  const oracle = createPriceOracle({ sources: [stablecoinSource, later.source] });
+  assert.equal(await oracle.getPrice(USDC, T0), 1);
+  assert.deepEqual(later.asked, []);
+});
+
+test("failing, zero and non-finite answers fall through to the next source", async () => {
+  const oracle = createPriceOracle({ sources: [failing, useless, stablecoinSource, fixtures] });
+  assert.equal(await oracle.getPrice(ETH, T0 + DAY), 2_000);
+  assert.equal(await oracle.getPrice(AERO, T0 + DAY), 0.8);
+});
+
+test("prices each tx at its own timestamp; none before the first point", async () => {
+  const oracle = createPriceOracle({ sources: [fixtures] });
+  assert.equal(await oracle.getPrice(ETH, T0 + 9 * DAY), 2_000);
+  assert.equal(await oracle.getPrice(ETH, T0 + 11 * DAY), 2_500);
+  assert.equal(await oracle.getPrice(ETH, T0 - 2 * DAY), null);
+});
+
+test("a cached bucket skips the sources", async () => {
+  const source = counted(fixtures);
+  const cache = createMemoryPriceCache();
+  const oracle = createPriceOracle({ sources: [source.source], cache });
+  await oracle.getPrice(ETH, T0 + 60);
+  await oracle.getPrice(ETH, T0 + 3_600); // same daily bucket
+  assert.deepEqual(source.asked, ["ETH"]);
+  assert.equal(await cache.get(`ETH:${T0}`), 2_000);
+});
+
+test("misses are cached until their TTL runs out, outages not at all", async () => {
+  const DEGEN = findPricedToken("0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed")!;
+  const source = counted(fixtures);
+  const oracle = createPriceOracle({ sources: [source.source] });
+  assert.equal(await oracle.getPrice(DEGEN, T0), null);
+  assert.equal(await oracle.getPrice(DEGEN, T0), null);
+  assert.deepEqual(source.asked, ["DEGEN"]);
+
+  const expired = counted(fixtures);
+  const impatient = createPriceOracle({ sources: [expired.source], cache: createMemoryPriceCache({ missTtlMs: 0 }) });
+  await impatient.getPrice(DEGEN, T0);
+  await impatient.getPrice(DEGEN, T0);
+  assert.deepEqual(expired.asked, ["DEGEN", "DEGEN"]);
+
+  const cache = createMemoryPriceCache();
+  await createPriceOracle({ sources: [failing], cache }).getPrice(ETH, T0);
+  assert.equal(await cache.get(`ETH:${T0}`), undefined);
+});
+
+test("the file cache keeps prices and live misses across restarts", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "price-cache-"));
+  try {
+    const path = join(dir, "prices.json");
+    const cache = createFilePriceCache(path);
+    await cache.set("ETH:0", 2_000);
+    await cache.set("DEGEN:0", null);
+    await cache.flush();
+    const reopened = createFilePriceCache(path);
+    assert.equal(await reopened.get("ETH:0"), 2_000);
+    assert.equal(await reopened.get("DEGEN:0"), null);
+
+    const brief = createFilePriceCache(path, { missTtlMs: 0 });
+    await brief.set("AERO:0", null);
+    await brief.flush(); // expired misses are dropped on write
+    assert.deepEqual(Object.keys(JSON.parse(await readFile(path, "utf8"))), ["ETH:0", "DEGEN:0"]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("concurrent lookups of one bucket share a single source call", async () => {
+  const source = counted(fixtures);
+  const oracle = createPriceOracle({ sources: [source.source] });
+  const prices = await Promise.all([oracle.getPrice(ETH, T0), oracle.getPrice(ETH, T0 + 1), oracle.getPrice(ETH, T0 + 2)]);
+  assert.deepEqual(prices, [2_000, 2_000, 2_000]);
+  assert.deepEqual(source.asked, ["ETH"]);
+});
+
+test("priceTransactions prices ETH and known tokens, counting the rest unpriced", async () => {
+  const oracle = createPriceOracle({ sources: [stablecoinSource, fixtures] });
+  const tx: RawTx = {
+    hash: "0x01",
+    blockNumber: 1,
+    blockTimestamp: T0 + DAY,
+    from: "0x000000000000000000000000000000000000a11c",
+    to: "0x000000000000000000000000000000000000b0b0",
+    value: "500000000000000000",
+    input: "0x",
+    tokenTransfers: [
+      { token: USDC.address!, symbol: "USDC", amount: 25 },
+      { token: AERO.address!, symbol: "AERO", amount: 10 },
+      { token: "0x00000000000000000000000000000000000070c3", symbol: "MEME", amount: 1e6 },
+    ],
+  };
+  assert.deepEqual(await priceTransactions([tx], oracle), { priced: 3, unpriced: 1 });
+  assert.equal(tx.nativeUsd, 2_000);
+  assert.deepEqual(tx.tokenTransfers!.map((t) => t.usdPriceAtTs), [1, 0.8, undefined]);
+});
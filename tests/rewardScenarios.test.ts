@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAPPING_POINTS, POOL_SIZE } from "../services/scoringUtils";
+import { DEFAULT_SCENARIO_SETTINGS, computeRewardScenarios, shareForCurve } from "../services/rewardScenarios";
+
+// Tokens out of the default pool, so the expectations read like the UI
+const tokens = (score: number, curve: Parameters<typeof shareForCurve>[1]) =>
+  Math.round(shareForCurve(score, curve, MAPPING_POINTS) * POOL_SIZE);
+
+test("each curve shape shares the pool its own way", () => {
+  assert.equal(tokens(0.6, "linear"), 2_700);
+  assert.equal(tokens(0.6, "tiered"), 1_500); // only the completed 0.5 tier pays
+  assert.equal(tokens(0.6, "quadratic"), 4_320);
+  assert.equal(tokens(0.6, "capped"), 2_700);
+  assert.equal(tokens(0.9, "capped"), 4_500); // held at the 0.75 tier
+});
+
+test("uncapped shapes agree at the top; nothing for a zero score", () => {
+  for (const curve of ["linear", "tiered", "quadratic"] as const) assert.equal(tokens(1, curve), 12_000);
+  for (const curve of ["linear", "tiered", "quadratic", "capped"] as const) assert.equal(tokens(0, curve), 0);
+});
+
+test("bear and bull move pool size and valuation together", () => {
+  const { settings, bear, base, bull } = computeRewardScenarios(1, MAPPING_POINTS);
+  assert.equal(settings, DEFAULT_SCENARIO_SETTINGS);
+  assert.deepEqual(base, { poolSize: POOL_SIZE, fdvUsd: 5e9, tokens: 12_000, usd: 6_000 });
+  assert.deepEqual(bear, { poolSize: POOL_SIZE / 2, fdvUsd: 1.5e9, tokens: 6_000, usd: 900 });
+  assert.deepEqual(bull, { poolSize: POOL_SIZE * 1.5, fdvUsd: 15e9, tokens: 18_000, usd: 27_000 });
+});
+
+test("settings change the curve, pool and token price", () => {
+  const settings = { ...DEFAULT_SCENARIO_SETTINGS, curve: "tiered" as const, poolSize: 2 * POOL_SIZE, fdvUsd: 1e9 };
+  const { base } = computeRewardScenarios(0.6, MAPPING_POINTS, settings);
+  assert.deepEqual(base, { poolSize: 2 * POOL_SIZE, fdvUsd: 1e9, tokens: 3_000, usd: 300 });
+});
@@ -0,0 +1,82 @@
+import { TestContext, test } from "node:test";
+import assert from "node:assert/strict";
+import { RawTx } from "../types";
+import { assessSybilRisk, fetchFundingCluster } from "../services/sybilRisk";
+
+const WALLET = "0x000000000000000000000000000000000000a11c";
+const FUNDER = "0x00000000000000000000000000000000000f00d5";
+const T0 = Date.UTC(2025, 0, 1) / 1000;
+const contract = (i: number) => `0x${(0xc0000 + i).toString(16).padStart(40, "0")}`;
+
+// Irregular spacing (cubic offsets), many contracts, real amounts: what a person looks like
+const tx = (i: number, overrides: Partial<RawTx> = {}): RawTx => ({
+  hash: `0x${i.toString(16).padStart(64, "0")}`,
+  blockNumber: i,
+  blockTimestamp: T0 + i ** 3 * 100,
+  from: WALLET,
+  to: contract(i % 7),
+  value: "0",
+  input: "0x3593564c",
+  ...overrides,
+});
+const history = (n: number, overrides: (i: number) => Partial<RawTx> = () => ({})) =>
+  Array.from({ length: n }, (_, i) => tx(i + 1, overrides(i + 1)));
+
+test("an organic wallet carries no risk", () => {
+  assert.deepEqual(assessSybilRisk(history(40)), { score: 0, level: "low", reasons: [] });
+});
+
+test("too few txs to judge a pattern", () => {
+  assert.equal(assessSybilRisk(history(9, (i) => ({ blockTimestamp: T0 + i * 600, to: WALLET }))).score, 0);
+});
+
+test("a clockwork loop on one contract is high risk, strongest signal first", () => {
+  const risk = assessSybilRisk(history(30, (i) => ({ blockTimestamp: T0 + i * 600, to: contract(0) })));
+  assert.deepEqual(risk.reasons.map((r) => [r.signal, r.strength]), [["metronomic", 1], ["singleProtocol", 1]]);
+  assert.deepEqual(risk.reasons[0].values, { gaps: 29, spread: 0 });
+  assert.equal(risk.level, "high");
+  assert.ok(risk.score > 0.6 && risk.score < 0.45 + 0.3); // signals compound, they don't add
+});
+
+test("self-sends and dust transfers pad the nonce", () => {
+  const risk = assessSybilRisk(history(12, (i) => (i % 2
+    ? { to: WALLET }
+    : { to: contract(i), input: "0x", value: "100000000000000", nativeUsd: 2_000 })));
+  assert.deepEqual(risk.reasons.map((r) => r.signal), ["selfTransfers"]);
+  assert.deepEqual(risk.reasons[0].values, { loops: 12, count: 12 });
+  assert.equal(risk.score, 0.35);
+  assert.equal(risk.level, "medium");
+});
+
+test("a funder that seeded many wallets counts, with a floor on its strength", () => {
+  assert.equal(assessSybilRisk(history(40), { funder: FUNDER, fundedWallets: 19 }).score, 0);
+  const few = assessSybilRisk(history(40), { funder: FUNDER, fundedWallets: 25 });
+  assert.equal(few.reasons[0].strength, 0.25);
+  assert.equal(few.reasons[0].values.funder, "0x0000…00d5");
+  assert.equal(assessSybilRisk(history(40), { funder: FUNDER, fundedWallets: 100 }).score, 0.4);
+});
+
+// Serves the wallet's first incoming txs (asc) and the funder's latest txs (desc)
+const mockExplorer = (t: TestContext, funderTxs: object[]) =>
+  t.mock.method(globalThis, "fetch", async (url: string) => {
+    const params = new URL(url).searchParams;
+    const result = params.get("sort") === "asc"
+      ? [{ from: FUNDER, to: WALLET, value: "5000000000000000", input: "0x" }]
+      : funderTxs;
+    return new Response(JSON.stringify({ status: "1", message: "OK", result }));
+  });
+
+const send = (to: string, input = "0x") => ({ from: FUNDER, to, value: "1000000000000000", input });
+
+test("the funding cluster counts distinct plain-ETH recipients besides the wallet", async (t) => {
+  mockExplorer(t, [send(WALLET), send(contract(1)), send(contract(1)), send(contract(2)), send(contract(3), "0xa9059cbb")]);
+  assert.deepEqual(await fetchFundingCluster(WALLET, "https://explorer.example/api"), { funder: FUNDER, fundedWallets: 2 });
+});
+
+test("busy funders and failed lookups report nothing", async (t) => {
+  mockExplorer(t, Array.from({ length: 1_000 }, (_, i) => send(contract(i))));
+  assert.equal(await fetchFundingCluster(WALLET, "https://explorer.example/api"), null);
+
+  t.mock.method(globalThis, "fetch", async () => new Response("", { status: 502 }));
+  assert.equal(await fetchFundingCluster(WALLET, "https://explorer.example/api"), null);
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getScoringModel } from "../services/scoringModels";
+import { rewardCurveFor } from "../services/scoringUtils";
+import { SimStats, marginalGains, planNextTier, simulate } from "../services/tierPlanner";
+
+const model = getScoringModel("base-default");
+const stats: SimStats = { txCount: 40, activeDays: 12, protocols: 2, volumeUSD: 300, recencyDays: 20 };
+const maxed: SimStats = { txCount: 1_000_000, activeDays: 10_000, protocols: 100, volumeUSD: 1e12, recencyDays: 0 };
+
+test("simulate scores and maps rewards through the model's curve", () => {
+  const { scores, rewards } = simulate(stats, model);
+  assert.ok(scores.finalScore > 0 && scores.finalScore < 1);
+  assert.ok(rewards >= 0);
+  assert.ok(simulate(stats, model, 1).scores.finalScore <= scores.finalScore);
+});
+
+test("marginal gains cover every component, one step each", () => {
+  const gains = marginalGains(stats, model);
+  assert.deepEqual(gains.map((g) => g.component), ["txScore", "activeDaysScore", "protocolScore", "volumeScore", "recencyScore"]);
+  const protocols = gains.find((g) => g.component === "protocolScore")!;
+  assert.deepEqual([protocols.from, protocols.to], [2, 3]);
+  assert.equal(gains.find((g) => g.component === "recencyScore")!.to, 0);
+  for (const gain of gains) assert.ok(gain.scoreGain >= 0);
+});
+
+test("the plan reaches the next breakpoint from the current stats", () => {
+  const plan = planNextTier(stats, model)!;
+  const current = simulate(stats, model).scores.finalScore;
+  assert.equal(plan.targetScore, rewardCurveFor(model).find((p) => p.score > current)!.score);
+  assert.ok(plan.reachable);
+  assert.ok(plan.cost > 0);
+
+  const planned = { ...stats, ...Object.fromEntries(plan.changes.map((c) => [c.stat, c.to])) };
+  assert.ok(simulate(planned, model).scores.finalScore >= plan.targetScore);
+  for (const change of plan.changes) {
+    assert.equal(change.from, stats[change.stat]);
+    assert.notEqual(change.to, change.from);
+  }
+});
+
+test("a wallet at the top tier has no next tier", () => {
+  assert.equal(planNextTier(maxed, model), null);
+});
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RawTx } from "../types";
+import { createMockSource, fetchTxHistory } from "../services/txHistory";
+import {
+  computeActiveDaysFromTxs,
+  computeDailyTxCountsFromTxs,
+  computeProtocolUsageFromTxs,
+  computeProtocolsFromTxs,
+  computeRecencyDaysFromTxs,
+  computeVolumeFromTxs,
+  isMeaningfulTx,
+} from "../services/txStats";
+
+const WALLET = "0x000000000000000000000000000000000000a11c";
+const UNISWAP = "0x2626664c2603336E57B271c5C0b26F421741e481";
+const UNISWAP_UNIVERSAL = "0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD";
+const AAVE = "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5";
+const TOKEN = "0x00000000000000000000000000000000000070c3";
+const DAY = 86_400;
+const NOW = Date.UTC(2025, 5, 30, 12) / 1000;
+
+let nonce = 0;
+const tx = (overrides: Partial<RawTx>): RawTx => ({
+  hash: `0x${(++nonce).toString(16).padStart(64, "0")}`,
+  blockNumber: nonce,
+  blockTimestamp: NOW - 10 * DAY,
+  from: WALLET,
+  to: UNISWAP,
+  value: "0",
+  input: "0x3593564c",
+  interactsWithProtocol: true,
+  ...overrides,
+});
+
+const history = [
+  // Two swaps on the same day through two Uniswap routers
+  tx({ blockTimestamp: NOW - 10 * DAY, tokenTransfers: [{ token: TOKEN, amount: 100, usdPriceAtTs: 1 }] }),
+  tx({ blockTimestamp: NOW - 10 * DAY + 60, to: UNISWAP_UNIVERSAL, valueUsd: 50 }),
+  tx({ blockTimestamp: NOW - 3 * DAY, to: AAVE, valueUsd: 25 }),
+  // A plain ERC-20 transfer on an unlisted token contract
+  tx({ blockTimestamp: NOW - 2 * DAY, to: TOKEN, input: "0xa9059cbb", valueUsd: 10 }),
+  // Noise: an approval, a reverted call and dust
+  tx({ blockTimestamp: NOW - DAY, input: "0x095ea7b3" }),
+  tx({ blockTimestamp: NOW - DAY, isError: true, valueUsd: 500 }),
+  tx({ blockTimestamp: NOW - DAY, to: WALLET, input: "0x", interactsWithProtocol: false, valueUsd: 0.5 }),
+];
+
+const source = createMockSource({ [WALLET]: history });
+
+test("mock source looks wallets up case-insensitively, as full coverage", async () => {
+  const fetched = await fetchTxHistory(WALLET.replace("a11c", "A11C"), [source]);
+  assert.equal(fetched.source, "mock");
+  assert.equal(fetched.coverage, "full");
+  assert.equal(fetched.txs.length, history.length);
+});
+
+test("approvals, reverts and dust are not meaningful", () => {
+  assert.deepEqual(history.map((t) => isMeaningfulTx(t)), [true, true, true, true, false, false, false]);
+});
+
+test("active days count distinct UTC dates of meaningful txs", async () => {
+  const { txs } = await fetchTxHistory(WALLET, [source]);
+  assert.deepEqual(Object.values(computeDailyTxCountsFromTxs(txs)), [2, 1, 1]);
+  assert.equal(computeActiveDaysFromTxs(txs), 3);
+});
+
+test("volume sums priced transfers and tx values, skipping noise", async () => {
+  const { txs } = await fetchTxHistory(WALLET, [source]);
+  assert.equal(computeVolumeFromTxs(txs), 185);
+});
+
+test("a swap paid in ETH counts the native leg and the token leg", () => {
+  const swap = tx({
+    value: "250000000000000000",
+    nativeUsd: 2_000,
+    tokenTransfers: [{ token: TOKEN, amount: 480, usdPriceAtTs: 1 }],
+  });
+  assert.equal(computeVolumeFromTxs([swap]), 980);
+  assert.equal(computeVolumeFromTxs([{ ...swap, valueUsd: 510 }]), 990);
+});
+
+test("only registry contracts count as protocols; unlisted ones are reported apart", async () => {
+  const { txs } = await fetchTxHistory(WALLET, [source]);
+  const usage = computeProtocolUsageFromTxs(txs);
+  assert.deepEqual(usage.protocols, [
+    { protocol: "Uniswap", category: "dex", txCount: 2 },
+    { protocol: "Aave", category: "lending", txCount: 1 },
+  ]);
+  assert.equal(usage.unlistedContracts, 1);
+  assert.equal(computeProtocolsFromTxs(txs), 2);
+});
+
+test("recency is whole days since the last meaningful tx", async () => {
+  const { txs } = await fetchTxHistory(WALLET, [source]);
+  assert.equal(computeRecencyDaysFromTxs(txs, NOW), 2);
+  assert.equal(computeRecencyDaysFromTxs([], NOW), 90);
+});
+
+test("an unknown wallet has an empty history", async () => {
+  const { txs } = await fetchTxHistory("0x000000000000000000000000000000000000dead", [source]);
+  assert.deepEqual(txs, []);
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StatInterval, StatKey, WalletStats } from "../types";
+import { getScoringModel } from "../services/scoringModels";
+import { computeScores } from "../services/scoringUtils";
+import { measuredIntervals, mergeIntervals, modeledIntervals, propagateUncertainty } from "../services/uncertainty";
+
+const model = getScoringModel("base-default");
+const point = { txCount: 120, activeDays: 40, protocols: 4, volumeUSD: 3_000, recencyDays: 10 };
+const exact = (value: number): StatInterval => ({ provenance: "measured", low: value, high: value });
+const estimated = (low: number, high: number): StatInterval => ({ provenance: "estimated", low, high });
+
+const walletStats = (intervals: Record<StatKey, StatInterval>): WalletStats => ({
+  ...point,
+  balance: "0.1",
+  volumeMethod: { key: "prices", unpriced: 0, transfers: 10 },
+  statsSource: "measured",
+  historySource: "mock",
+  intervals,
+});
+
+test("a full, fully priced history is exact", () => {
+  const intervals = measuredIntervals(point, { priced: 10, unpriced: 0 });
+  for (const key of Object.keys(point) as StatKey[]) assert.deepEqual(intervals[key], exact(point[key]));
+});
+
+test("unpriced transfers make volume a lower bound, scaled by the priced share", () => {
+  const { volumeUSD, activeDays } = measuredIntervals(point, { priced: 3, unpriced: 1 });
+  assert.deepEqual(volumeUSD, estimated(3_000, 4_000));
+  assert.deepEqual(activeDays, exact(40));
+});
+
+test("a partial history takes its upper ends from the model", () => {
+  const modeled = modeledIntervals(point, 700);
+  const intervals = measuredIntervals({ ...point, activeDays: 5, protocols: 0 }, { priced: 10, unpriced: 0, modeled });
+  assert.deepEqual(intervals.activeDays, estimated(5, modeled.activeDays.high));
+  assert.deepEqual(intervals.protocols, estimated(0, modeled.protocols.high));
+  assert.deepEqual(intervals.txCount, exact(120));
+  assert.deepEqual(intervals.recencyDays, exact(10));
+});
+
+test("modeled days can't exceed the tx count or the chain's age", () => {
+  const intervals = modeledIntervals({ ...point, txCount: 50, recencyDays: 300 }, 400);
+  assert.deepEqual(intervals.txCount, exact(50));
+  assert.deepEqual(intervals.activeDays, estimated(20, 50));
+  assert.deepEqual(intervals.recencyDays, estimated(75, 400));
+  assert.deepEqual(intervals.volumeUSD, estimated(750, 12_000));
+});
+
+test("merged intervals mirror how the bundle combines each stat", () => {
+  const a = { ...modeledIntervals(point, 700), txCount: exact(100) };
+  const b = { ...modeledIntervals(point, 700), txCount: exact(20) };
+  const merged = mergeIntervals([a, b], { ...point, activeDays: 60 }, false);
+  assert.deepEqual(merged.txCount, exact(120));
+  assert.deepEqual(merged.volumeUSD, estimated(a.volumeUSD.low * 2, a.volumeUSD.high * 2));
+  assert.deepEqual(merged.activeDays, estimated(a.activeDays.low, a.activeDays.high * 2));
+  assert.deepEqual(merged.recencyDays, estimated(Math.min(a.recencyDays.low, 10), Math.max(a.recencyDays.high, 10)));
+
+  const measured = measuredIntervals(point, { priced: 1, unpriced: 0 });
+  assert.deepEqual(mergeIntervals([measured, measured], point, true).activeDays, exact(40));
+});
+
+test("exact stats give a zero-width score band; wide ones bracket the point score", () => {
+  const none = propagateUncertainty(walletStats(measuredIntervals(point, { priced: 1, unpriced: 0 })), model);
+  const score = computeScores(point.txCount, point.activeDays, point.protocols, point.volumeUSD, point.recencyDays, model).finalScore;
+  assert.deepEqual(none.finalScore, { low: score, high: score });
+
+  const wide = propagateUncertainty(walletStats(modeledIntervals(point, 700)), model);
+  assert.ok(wide.finalScore.low < score && score < wide.finalScore.high);
+  assert.ok(wide.rewards.low <= wide.rewards.high);
+  assert.ok(wide.components.recencyScore.low <= wide.components.recencyScore.high);
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { WebhookError, parseWebhookEvent } from "../api/_lib/webhookEvents";
+
+const FID = 1234;
+const DETAILS = { url: "https://api.farcaster.xyz/v1/frame-notifications", token: "token-1" };
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+// Raw 32-byte key: the SPKI DER minus its 12-byte prefix
+const appKey = `0x${publicKey.export({ format: "der", type: "spki" }).subarray(12).toString("hex")}`;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+
+// A JSON Farcaster Signature envelope signed the way clients sign it
+const envelope = (payload: unknown, header: unknown = { fid: FID, type: "app_key", key: appKey }) => {
+  const h = encode(header);
+  const p = encode(payload);
+  return { header: h, payload: p, signature: sign(null, Buffer.from(`${h}.${p}`, "utf8"), privateKey).toString("base64url") };
+};
+
+const registered = async () => true;
+
+const rejects = (body: unknown, status: number) =>
+  assert.rejects(parseWebhookEvent(body, registered), (e) => e instanceof WebhookError && e.status === status);
+
+test("accepts a signed notifications_enabled event", async () => {
+  const verified = await parseWebhookEvent(envelope({ event: "notifications_enabled", notificationDetails: DETAILS }), registered);
+  assert.deepEqual(verified, { fid: FID, appKey, event: { event: "notifications_enabled", notificationDetails: DETAILS } });
+});
+
+test("maps legacy frame_* event names", async () => {
+  const verified = await parseWebhookEvent(envelope({ event: "frame_removed" }), registered);
+  assert.deepEqual(verified.event, { event: "miniapp_removed" });
+});
+
+test("miniapp_added without notification details stores nothing", async () => {
+  const verified = await parseWebhookEvent(envelope({ event: "miniapp_added" }), registered);
+  assert.deepEqual(verified.event, { event: "miniapp_added", notificationDetails: undefined });
+});
+
+test("rejects a tampered payload", async () => {
+  const signed = envelope({ event: "notifications_disabled" });
+  await rejects({ ...signed, payload: encode({ event: "notifications_enabled", notificationDetails: DETAILS }) }, 401);
+});
+
+test("rejects an app key not registered to the fid", async () => {
+  await assert.rejects(
+    parseWebhookEvent(envelope({ event: "miniapp_removed" }), async () => false),
+    (e) => e instanceof WebhookError && e.status === 401
+  );
+});
+
+test("rejects null, missing or non-object envelope parts with 400", async () => {
+  await rejects(null, 400);
+  await rejects({}, 400);
+  await rejects({ ...envelope({ event: "miniapp_removed" }), header: encode(null) }, 400);
+  await rejects({ ...envelope({ event: "miniapp_removed" }), payload: encode(null) }, 400);
+  await rejects(envelope(null), 400);
+});
+
+test("rejects notification details that are not strings", async () => {
+  await rejects(envelope({ event: "notifications_enabled", notificationDetails: { url: DETAILS.url, token: 42 } }), 400);
+  await rejects(envelope({ event: "notifications_enabled", notificationDetails: { token: "t" } }), 400);
+  await rejects(envelope({ event: "notifications_enabled" }), 400);
+});
+
+test("rejects notification urls off the allowed hosts or over http", async () => {
+  const withUrl = (url: string) => envelope({ event: "miniapp_added", notificationDetails: { ...DETAILS, url } });
+  await rejects(withUrl("https://attacker.example/collect"), 400);
+  await rejects(withUrl("http://api.farcaster.xyz/v1/frame-notifications"), 400);
+  await rejects(withUrl("not a url"), 400);
+});
@@ -5,22 +5,278 @@ export interface ScoreBreakdown {
   volumeScore: number;
   recencyScore: number;
   finalScore: number;
+  sybilPenalty?: number; // points of finalScore removed for bot-like patterns, when the model applies one
+}
+
+// UI and narrative languages; catalogs live in locales/
+export type Locale = 'en' | 'es' | 'pt' | 'zh';
+
+export type ScoreComponent = 'txScore' | 'activeDaysScore' | 'protocolScore' | 'volumeScore' | 'recencyScore';
+
+// A scoring model is pure data: curve constants + component weights (summing to 1)
+export interface ScoringModel {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  curves: {
+    txLogDivisor: number;      // txScore = log10(txs + 1) / divisor
+    activeDaysCap: number;     // days for a full activeDaysScore
+    protocolCap: number;       // protocols for a full protocolScore
+    volumeLogDivisor: number;  // volumeScore = log10(usd + 1) / divisor
+    recencyGraceDays: number;  // full recency score within this many days
+    recencyDecayDays: number;  // linear decay to 0 over this many days after grace
+  };
+  weights: Record<ScoreComponent, number>;
+  // Share of the final score removed at sybil risk 1.0 (scaled by risk); omit for no penalty
+  sybilPenalty?: number;
+  // Score -> share-of-pool breakpoints (the reward tiers); omit for the default MAPPING_POINTS
+  rewardCurve?: RewardCurvePoint[];
+}
+
+export interface RewardCurvePoint {
+  score: number;
+  pct: number; // share of the pool, 0..1
+}
+
+export interface TokenTransfer {
+  token: string; // token contract address
+  symbol?: string;
+  amount: number; // already scaled by token decimals
+  usdPriceAtTs?: number;
+  tokenUsdAtTs?: number;
+  valueUsd?: number;
+}
+
+// Normalized transaction as returned by any TxHistorySource
+export interface RawTx {
+  hash: string;
+  blockNumber: number;
+  blockTimestamp: number; // unix seconds
+  from: string;
+  to: string | null;
+  value: string; // wei, decimal string
+  input: string;
+  isError?: boolean;
+  gasUsd?: number;
+  valueUsd?: number;
+  nativeUsd?: number;
+  interactsWithProtocol?: boolean;
+  tokenTransfers?: TokenTransfer[];
+}
+
+// Consecutive calendar weeks (Mon-Sun, UTC) or months with at least one active day
+export interface Streak {
+  current: number; // an empty current period doesn't break the streak until it ends
+  longest: number;
+}
+
+// An idle spell long enough to cost recency points under the estimate's model
+export interface ActivityGap {
+  from: string; // first idle UTC day, YYYY-MM-DD
+  to: string; // last idle day; today for an open gap
+  days: number;
+  recencyScore: number; // where the recency component had fallen to by the end
+  open: boolean; // still running: this one lowers the score now
+}
+
+// Meaningful txs per UTC day since the first one, the data behind active days and recency
+export interface ActivityCalendar {
+  firstDay: string;
+  today: string; // as of the estimate
+  days: Record<string, number>; // YYYY-MM-DD -> meaningful txs; idle days absent
+  streaks: { weekly: Streak; monthly: Streak };
+  gaps: ActivityGap[]; // an open gap first, then longest first
+}
+
+export type ProtocolCategory = 'dex' | 'lending' | 'bridge' | 'nft' | 'social';
+
+// Measured protocol footprint, from contracts matched against the Base protocol registry
+export interface ProtocolUsage {
+  protocols: { protocol: string; category: ProtocolCategory; txCount: number }[];
+  unlistedContracts: number; // called contracts the registry doesn't know; not counted as protocols
+}
+
+export interface TokenHolding {
+  symbol: string;
+  address: string | null; // null for native ETH
+  amount: number; // already scaled by token decimals
+  valueUsd: number | null; // null when no price source answered
+}
+
+export interface NftHolding {
+  collection: string;
+  address: string;
+  count: number;
+}
+
+// What the wallet holds right now, from the curated token list plus NFTs
+export interface Portfolio {
+  tokens: TokenHolding[]; // non-zero balances only
+  nfts: NftHolding[] | null; // null when the NFT lookup failed
+  totalUsd: number; // priced tokens only; NFTs are not valued
+}
+
+export type SybilSignal = 'metronomic' | 'selfTransfers' | 'singleProtocol' | 'fundingCluster';
+
+export interface SybilRisk {
+  score: number; // 0 (organic) .. 1 (almost certainly automated)
+  level: 'low' | 'medium' | 'high';
+  // detail is English; values fill the localized message for the signal
+  reasons: { signal: SybilSignal; detail: string; values: Record<string, string | number>; strength: number }[];
+}
+
+export type StatKey = 'txCount' | 'activeDays' | 'protocols' | 'volumeUSD' | 'recencyDays';
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+// Where a stat came from and how far off it could be; measured stats have low === high
+export interface StatInterval extends Interval {
+  provenance: 'measured' | 'estimated';
+}
+
+// Stat intervals pushed through computeScores and the reward curve
+export interface ScoreUncertainty {
+  finalScore: Interval;
+  rewards: Interval;
+  components: Record<ScoreComponent, Interval>;
+}
+
+export type VolumeTier = 'casual' | 'regular' | 'active' | 'whale';
+
+// How volumeUSD was arrived at: a message key plus its params, worded by the client
+export type VolumeMethod =
+  | { key: 'prices'; unpriced: number; transfers: number } // measured at historical prices
+  | { key: 'tier'; tier: VolumeTier } // modeled from tx count and portfolio tier
+  | { key: 'walletSum'; count: number }
+  | { key: 'chainSum'; count: number };
+
+export interface WalletStats {
+  balance: string;
+  txCount: number;
+  activeDays: number;
+  volumeUSD: number;
+  volumeMethod: VolumeMethod;
+  protocols: number;
+  recencyDays: number;
+  // 'measured' when stats come from rawTxs, 'modeled' when deriveStats had to guess
+  statsSource: 'measured' | 'modeled';
+  historySource: string | null;
+  intervals: Record<StatKey, StatInterval>;
+}
+
+// One wallet's standalone numbers inside a multi-wallet bundle
+export interface WalletResult {
+  address: string;
+  name: string | null; // reverse-resolved Basename / ENS name
+  activityScore: number;
+  estimatedRewards: number;
+  stats: WalletStats;
+  scoreBreakdown: ScoreBreakdown;
+  sybilRisk: SybilRisk | null;
+}
+
+export type DataErrorKind = 'timeout' | 'rateLimited' | 'unavailable' | 'badResponse';
+
+export type DataSource = 'rpc' | 'txHistory' | 'prices' | 'tokens' | 'nfts';
+
+// Something the estimate had to do without; the numbers are still shown, flagged.
+// 'partial' means the source answered but saw only part of the history.
+export interface DataIssue {
+  source: DataSource;
+  kind: DataErrorKind | 'partial';
+  message: string;
+}
+
+export interface DataQuality {
+  complete: boolean; // no issues: every source answered
+  issues: DataIssue[];
+}
+
+// How a pool is split by score: the model's curve as-is, only completed tiers,
+// steeper towards the top, or the curve with a per-wallet cap
+export type AllocationCurve = 'linear' | 'tiered' | 'quadratic' | 'capped';
+
+export interface ScenarioSettings {
+  poolSize: number; // tokens for the base case
+  curve: AllocationCurve;
+  fdvUsd: number; // hypothetical fully diluted valuation for the base case
+  totalSupply: number;
+}
+
+export interface RewardScenario {
+  poolSize: number;
+  fdvUsd: number;
+  tokens: number;
+  usd: number;
+}
+
+export interface RewardScenarios {
+  settings: ScenarioSettings;
+  bear: RewardScenario;
+  base: RewardScenario;
+  bull: RewardScenario;
+}
+
+// One chain's numbers inside a Superchain estimate
+export interface ChainResult {
+  chain: string; // chain id from services/chains
+  activityScore: number;
+  estimatedRewards: number;
+  stats: WalletStats;
+  scoreBreakdown: ScoreBreakdown;
 }
 
 export interface EstimationResult {
+  generatedAt: number; // unix ms, set when the pipeline ran
+  addresses: string[]; // checksummed
+  names: Record<string, string>; // address -> reverse-resolved name, when one exists
   activityScore: number;
   estimatedRewards: number;
-  stats: {
-    balance: string;
-    txCount: number;
-    activeDays: number;
-    volumeUSD: number;
-    volumeMethod: string;
-    protocols: number;
-  };
+  // Token and USD range under default scenario settings; the UI recomputes it when they change
+  rewardScenarios: RewardScenarios;
+  stats: WalletStats;
+  // Present when stats are measured
+  protocolUsage?: ProtocolUsage;
+  // Present when stats are measured from the full history
+  activity?: ActivityCalendar;
+  portfolio: Portfolio;
+  // Null when there was no tx history to analyse
+  sybilRisk: SybilRisk | null;
+  chain: string; // chain id, or "superchain" for all mainnets combined
+  // Present for the Superchain view: each chain scored on its own
+  chains?: ChainResult[];
+  // Present when several wallets were estimated as one bundle
+  wallets?: WalletResult[];
   scoreBreakdown: ScoreBreakdown;
+  uncertainty: ScoreUncertainty;
+  scoringModel: { id: string; version: string };
+  dataQuality: DataQuality;
   explanation: string;
   suggestions: string[];
+  narrativeProvider: string; // which engine wrote explanation/suggestions
+  locale: Locale; // language of explanation/suggestions
+}
+
+// Slim, storable copy of an EstimationResult for history charts
+export interface ScoreSnapshot {
+  key: string; // historyKey(addresses)
+  generatedAt: number;
+  activityScore: number;
+  estimatedRewards: number;
+  scoreBreakdown: ScoreBreakdown;
+  scoringModel: { id: string; version: string };
+  chain?: string; // absent on snapshots from before multi-chain support, which were all Base
+}
+
+// Settings a wallet owner keeps after signing in; keyed by their address
+export interface OwnerPreferences {
+  fid: number | null; // Farcaster account that receives alerts; must have verified the wallet
+  scoreAlerts: boolean; // notify when a saved check moves the score
+  locale: Locale; // language of the alerts
 }
 
 export enum AppState {
@@ -1,16 +1,71 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+// Serves api/*.ts(x) the way Vercel does, so `npm run dev` exercises the same handlers.
+// Handlers export a function per HTTP method (GET, POST, ...) taking a web Request.
+const apiRoutes = (env: Record<string, string>): Plugin => ({
+  name: 'api-routes',
+  configureServer(server) {
+    // Server-side secrets stay in the Node process; they are never defined into the bundle
+    for (const [key, value] of Object.entries(env)) {
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+
+    server.middlewares.use(async (req, res, next) => {
+      if (!req.url?.startsWith('/api/')) return next();
+      const url = new URL(req.url, `http://${req.headers.host ?? 'localhost'}`);
+      const route = url.pathname.replace(/^\/api\//, '').replace(/\/$/, '');
+      if (!/^[\w-]+(\/[\w-]+)*$/.test(route) || route.split('/').some((part) => part.startsWith('_'))) {
+        return next();
+      }
+      const file = ['.ts', '.tsx']
+        .map((ext) => `api/${route}${ext}`)
+        .find((candidate) => existsSync(join(server.config.root, candidate)));
+      if (!file) {
+        res.statusCode = 404;
+        return res.end();
+      }
+
+      try {
+        const mod = await server.ssrLoadModule(`/${file}`);
+        const handler: RouteHandler | undefined = mod[req.method ?? 'GET'];
+        if (!handler) {
+          res.statusCode = 405;
+          return res.end();
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+        const response = await handler(new Request(url, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: hasBody ? Buffer.concat(chunks) : undefined,
+        }));
+
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (e) {
+        next(e);
+      }
+    });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), apiRoutes(env)],
     define: {
-      // This is crucial: it replaces 'process.env.API_KEY' in your code with the actual value from Vercel
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
       // This prevents 'process is not defined' crashes in some libraries
       'process.env': {},
     },
   };
-});
\ No newline at end of file
+});